@@ -41,7 +41,8 @@ const config: AppConfig = {
     // ==================================================
     jwt: {
         secret: process.env.JWT_SECRET,                            // Secret key for JWT signing
-        validity: process.env.JWT_VALIDITY || "24h",               // JWT token validity period
+        validity: process.env.JWT_VALIDITY || "15m",               // Access token validity period
+        refreshValidityDays: Number(process.env.JWT_REFRESH_VALIDITY_DAYS) || 30,  // Idle lifetime of a refresh token
     },
 
     // ==================================================
@@ -60,12 +61,26 @@ const config: AppConfig = {
     // ==================================================
     security: {
         bcryptSaltRounds: 10,                                      // Number of salt rounds for bcrypt
+        maxFailedLogins: Number(process.env.AUTH_MAX_FAILED_LOGINS) || 5, // Failed logins before lockout
+        lockoutMinutes: Number(process.env.AUTH_LOCKOUT_MINUTES) || 15,   // Lockout duration
+        minPasswordScore: Number(process.env.AUTH_MIN_PASSWORD_SCORE) || 60, // Minimum password strength (0-100)
+        passwordHistory: Number(process.env.AUTH_PASSWORD_HISTORY) || 5,     // Previous passwords that cannot be reused
         rateLimiting: {
             windowMs: 15 * 60 * 1000,                             // Rate limiting window (15 minutes)
             max: 100,                                              // Max requests per window per IP
         },
     },
 
+    // ==================================================
+    // MFA Configuration
+    // ==================================================
+    mfa: {
+        issuer: process.env.MFA_ISSUER || "WhatsApp Bot",          // Issuer shown in authenticator apps
+        challengeValidity: process.env.MFA_CHALLENGE_VALIDITY || "5m", // Time to enter the code after the password
+        window: 1,                                                 // Accept one 30-second step of clock drift
+        recoveryCodes: 10,                                         // Recovery codes issued on enable
+    },
+
     // ==================================================
     // Logging Configuration
     // ==================================================
@@ -90,6 +105,125 @@ const config: AppConfig = {
         phoneNumberId: process.env.PHONE_NUMBER_ID || "N/A",                // Whatsapp phone number ID
         businessAccountId: process.env.BUSINESS_ACCOUNT_ID || "N/A",        // Whatsapp business account ID
         verifyToken: process.env.WHATSAPP_VERIFY_TOKEN || "N/A",                     // Whatsapp verify token
+        appSecret: process.env.WHATSAPP_APP_SECRET || "",                   // Meta app secret for X-Hub-Signature-256
+        apiBaseUrl: process.env.WHATSAPP_API_BASE_URL || "https://graph.facebook.com", // Graph API base URL
+        apiVersion: process.env.WHATSAPP_API_VERSION || "v21.0",             // Graph API version
+        requestTimeoutMs: Number(process.env.WHATSAPP_API_TIMEOUT_MS) || 15000, // Graph API request timeout
+        messagesPerSecond: Number(process.env.WHATSAPP_MESSAGES_PER_SECOND) || 80, // Throughput tier (80 by default, up to 1000)
+    },
+
+    // ==================================================
+    // Webhook Configuration
+    // ==================================================
+    webhook: {
+        dedupTtlSeconds: Number(process.env.WEBHOOK_DEDUP_TTL_SECONDS) || 7 * 24 * 60 * 60, // Remember processed ids (7 days)
+        dedupLeaseSeconds: Number(process.env.WEBHOOK_DEDUP_LEASE_SECONDS) || 60, // Unfinished claim lease; keep below QUEUE_LOCK_TIMEOUT_MS
+    },
+
+    // ==================================================
+    // Idempotency Configuration
+    // ==================================================
+    idempotency: {
+        ttlSeconds: Number(process.env.IDEMPOTENCY_TTL_SECONDS) || 24 * 60 * 60, // Remember Idempotency-Key headers (24 hours)
+    },
+
+    // ==================================================
+    // Job Queue Configuration
+    // ==================================================
+    queue: {
+        concurrency: Number(process.env.QUEUE_CONCURRENCY) || 5,             // Parallel jobs per process
+        pollIntervalMs: Number(process.env.QUEUE_POLL_INTERVAL_MS) || 1000,  // Idle poll interval
+        maxAttempts: Number(process.env.QUEUE_MAX_ATTEMPTS) || 5,            // Attempts before dead-lettering
+        backoffBaseMs: Number(process.env.QUEUE_BACKOFF_BASE_MS) || 2000,    // First retry delay
+        backoffMaxMs: Number(process.env.QUEUE_BACKOFF_MAX_MS) || 5 * 60 * 1000, // Maximum retry delay (5 minutes)
+        lockTimeoutMs: Number(process.env.QUEUE_LOCK_TIMEOUT_MS) || 5 * 60 * 1000, // Stale lock age (5 minutes)
+        recoveryIntervalMs: 60 * 1000,                             // Stale lock recovery interval (1 minute)
+        shutdownTimeoutMs: Number(process.env.QUEUE_SHUTDOWN_TIMEOUT_MS) || 25 * 1000, // Drain time on shutdown
+        completedTtlSeconds: 3 * 24 * 60 * 60,                     // Keep completed jobs for 3 days
+    },
+
+    // ==================================================
+    // Flow Engine Configuration
+    // ==================================================
+    flows: {
+        directory: process.env.FLOWS_DIRECTORY || "flows",                   // JSON/YAML flow definitions
+        sessionTimeoutMinutes: Number(process.env.FLOW_SESSION_TIMEOUT_MINUTES) || 30, // Session inactivity timeout
+        sweepIntervalMs: 60 * 1000,                                // Expired session sweep (1 minute)
+        maxRetries: 3,                                             // Invalid replies allowed per question
+        maxStepsPerMessage: 50,                                    // Guards against node loops
+        webhookTimeoutMs: Number(process.env.FLOW_WEBHOOK_TIMEOUT_MS) || 10000, // Webhook node timeout
+        restartKeywords: (process.env.FLOW_RESTART_KEYWORDS || "restart").split(","), // Restart the current flow
+        menuKeywords: (process.env.FLOW_MENU_KEYWORDS || "menu").split(","),          // Start the menu flow
+    },
+
+    // ==================================================
+    // Command Router Configuration
+    // ==================================================
+    commands: {
+        fallbackMessage: process.env.COMMAND_FALLBACK_MESSAGE ?? "Sorry, I didn't understand that.", // Unmatched text reply
+        cacheTtlMs: 30 * 1000,                                     // Stored command cache (30 seconds)
+    },
+
+    // ==================================================
+    // Read Receipt Configuration
+    // ==================================================
+    receipts: {
+        markAsRead: process.env.RECEIPTS_MARK_AS_READ !== "false",         // Mark inbound messages as read
+        typingIndicator: process.env.RECEIPTS_TYPING_INDICATOR !== "false", // Show typing while handlers run long
+        typingThresholdMs: Number(process.env.RECEIPTS_TYPING_THRESHOLD_MS) || 1500, // Delay before typing is shown
+    },
+
+    // ==================================================
+    // Media Storage Configuration
+    // ==================================================
+    media: {
+        storage: process.env.MEDIA_STORAGE || "local",                      // Storage backend for downloaded media
+        directory: process.env.MEDIA_DIRECTORY || "uploads",                // Local storage root
+        downloadTimeoutMs: Number(process.env.MEDIA_DOWNLOAD_TIMEOUT_MS) || 60 * 1000, // Media download timeout
+        maxDownloadBytes: 100 * 1024 * 1024,                       // WhatsApp's largest media (100 MB documents)
+        uploadExpiryDays: 30,                                      // Uploaded media ids stay valid for 30 days
+    },
+
+    // ==================================================
+    // Customer Service Window Configuration
+    // ==================================================
+    serviceWindow: {
+        enforce: process.env.SERVICE_WINDOW_ENFORCE !== "false",          // Refuse free-form sends outside the window
+        hours: 24,                                                 // WhatsApp customer service window
+        warningMinutes: Number(process.env.SERVICE_WINDOW_WARNING_MINUTES) || 15, // Expiry warning lead time
+        sweepIntervalMs: 60 * 1000,                                // Expiring window check (1 minute)
+    },
+
+    // ==================================================
+    // Outbound Dispatcher Configuration
+    // ==================================================
+    outbound: {
+        pairBurst: Number(process.env.OUTBOUND_PAIR_BURST) || 10,            // Messages to one recipient in a burst
+        pairIntervalMs: Number(process.env.OUTBOUND_PAIR_INTERVAL_MS) || 6 * 1000, // Sustained pair rate (1 per 6 seconds)
+        maxRetries: Number(process.env.OUTBOUND_MAX_RETRIES) || 3,          // Retries of rate-limited and temporary failures
+        retryBaseMs: Number(process.env.OUTBOUND_RETRY_BASE_MS) || 1000,    // First retry delay
+        retryMaxMs: Number(process.env.OUTBOUND_RETRY_MAX_MS) || 30 * 1000, // Maximum retry delay (30 seconds)
+        maxQueueDepth: Number(process.env.OUTBOUND_MAX_QUEUE_DEPTH) || 10000, // Waiting sends before refusing new ones
+    },
+
+    // ==================================================
+    // Campaign Configuration
+    // ==================================================
+    campaigns: {
+        batchSize: 50,                                             // Recipients claimed per batch
+        sliceMs: 60 * 1000,                                        // Sending time per campaign job (1 minute)
+        replyWindowHours: Number(process.env.CAMPAIGN_REPLY_WINDOW_HOURS) || 72, // Reply attribution window
+    },
+
+    // ==================================================
+    // Message Scheduler Configuration
+    // ==================================================
+    scheduler: {
+        pollIntervalMs: Number(process.env.SCHEDULER_POLL_INTERVAL_MS) || 5000, // Due message check interval
+        batchSize: 50,                                             // Due messages claimed per check
+        missedGraceMinutes: Number(process.env.SCHEDULER_MISSED_GRACE_MINUTES) || 60, // Send overdue messages up to 1 hour late
+        claimTimeoutMs: 5 * 60 * 1000,                             // Interrupted claim age (5 minutes)
+        defaultTimezone: process.env.DEFAULT_TIMEZONE || "UTC",    // Timezone for contacts without one
     },
 };
 
@@ -116,6 +250,7 @@ export const validateConfig = (): void => {
         "ACCESS_TOKEN",           // Required for logging configuration
         "PHONE_NUMBER_ID",           // Required for logging configuration
         "BUSINESS_ACCOUNT_ID",           // Required for logging configuration
+        "WHATSAPP_APP_SECRET",           // Required for webhook signature verification
     ];
 
     // ===== CHECK FOR MISSING VARIABLES =====
@@ -0,0 +1,287 @@
+import { Request, Response, NextFunction } from "express";
+import { adminModel } from "../models/admin.model";
+import adminService from "../services/admin.service";
+import rbacService from "../services/rbac.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ADMIN_ROLES, AdminRole } from "../types/rbac.types";
+import { ResponseType } from "../types/response";
+import { getPagination, toPaginatedResult } from "../utils/pagination";
+import { escapeRegex } from "../utils/regex";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string, issues: string[] = []): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.details = issues.length > 0 ? { issues } : undefined;
+    error.color = "yellow";
+    return error;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Checks the name, email and password fields of a request body
+ * @param required - Whether name and email must be present (invites)
+ */
+const checkAdminFields = (body: Record<string, any>, required: boolean): string[] => {
+    const issues: string[] = [];
+    if (body.displayName !== undefined || required) {
+        if (!isText(body.displayName)) issues.push("displayName is required");
+    }
+    if (body.email !== undefined || required) {
+        if (typeof body.email !== "string" || !EMAIL_PATTERN.test(body.email.trim())) issues.push("email must be a valid email address");
+    }
+    if (body.password !== undefined && typeof body.password !== "string") issues.push("password must be a string");
+    return issues;
+};
+
+// ==================================================
+// Admin Controller Functions
+// ==================================================
+
+/**
+ * Lists admin accounts
+ * @param req - Express request object (query: search — name or email, role, blocked, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listAdmins = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { search, role, blocked } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof search === "string" && search.trim()) {
+            const pattern = new RegExp(escapeRegex(search.trim()), "i");
+            filter.$or = [{ displayName: pattern }, { email: pattern }];
+        }
+        if (typeof role === "string" && role) {
+            if (!ADMIN_ROLES.includes(role as AdminRole)) {
+                return next(validationError(`role must be one of ${ADMIN_ROLES.join(", ")}`));
+            }
+            filter.role = role;
+        }
+        if (blocked === "true" || blocked === "false") filter.flag = blocked === "true" ? true : { $ne: true };
+
+        // ===== QUERY ADMINS =====
+        const [items, total] = await Promise.all([
+            adminModel.find(filter).sort({ createdAt: 1 }).skip(pagination.skip).limit(pagination.limit),
+            adminModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Admins fetched successfully",
+            data: toPaginatedResult(items.map((admin) => admin.toJSON()), total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Invites an admin
+ * @param req - Express request object (body: displayName, email, role, password — generated when omitted)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const inviteAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const body = req.body ?? {};
+
+        // ===== VALIDATE REQUEST =====
+        const issues = checkAdminFields(body, true);
+        if (body.role !== undefined && !ADMIN_ROLES.includes(body.role)) {
+            issues.push(`role must be one of ${ADMIN_ROLES.join(", ")}`);
+        }
+        if (issues.length > 0) {
+            return next(validationError(`Invalid admin: ${issues.join("; ")}`, issues));
+        }
+
+        // Only admins who manage roles may hand out more than the default role
+        if (body.role !== undefined && body.role !== "viewer" && !rbacService.hasPermissions(req.admin!, ["roles:manage"])) {
+            const error: CustomError = new Error("You need the roles:manage permission to invite with a role");
+            error.status = 403;
+            error.errorCode = ErrorCode.FORBIDDEN;
+            error.color = "yellow";
+            return next(error);
+        }
+        if (body.role !== undefined) rbacService.assertCanAssign(req.admin!, { role: body.role });
+
+        // ===== CREATE ADMIN =====
+        const { admin, temporaryPassword } = await adminService.invite({
+            displayName: body.displayName,
+            email: body.email,
+            role: body.role,
+            password: body.password,
+        });
+
+        const response: ResponseType = {
+            success: true,
+            status: 201,
+            message: temporaryPassword
+                ? "Admin invited; share the temporary password securely, it is shown only once"
+                : "Admin invited successfully",
+            data: { ...admin.toJSON(), ...(temporaryPassword ? { temporaryPassword } : {}) },
+        };
+        res.status(201).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one admin
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const admin = await adminService.getOrFail(req.params.id as string);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Admin fetched successfully",
+            data: { ...admin.toJSON(), effectivePermissions: rbacService.permissionsOf(admin) },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Edits an admin's name, email or password
+ * @param req - Express request object (params: id, body: displayName, email, password)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const updateAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const body = req.body ?? {};
+
+        // ===== VALIDATE REQUEST =====
+        const issues = checkAdminFields(body, false);
+        if (body.displayName === undefined && body.email === undefined && body.password === undefined) {
+            issues.push("displayName, email or password is required");
+        }
+        if (body.role !== undefined || body.permissions !== undefined) {
+            issues.push("roles and permissions are changed through /roles");
+        }
+        if (issues.length > 0) {
+            return next(validationError(`Invalid changes: ${issues.join("; ")}`, issues));
+        }
+
+        const admin = await adminService.update(req.params.id as string, {
+            displayName: body.displayName,
+            email: body.email,
+            password: body.password,
+        });
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Admin updated successfully",
+            data: admin,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Blocks an admin and signs them out
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const blockAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const admin = await adminService.setBlocked(req.params.id as string, true, String(req.admin!._id));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Admin blocked",
+            data: admin,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Unblocks an admin and clears any login lockout
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const unblockAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const admin = await adminService.setBlocked(req.params.id as string, false, String(req.admin!._id));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Admin unblocked",
+            data: admin,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Deletes an admin
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const deleteAdmin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await adminService.remove(req.params.id as string, String(req.admin!._id));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Admin deleted successfully",
+            data: null,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listAdmins, inviteAdmin, getAdmin, updateAdmin, blockAdmin, unblockAdmin, deleteAdmin }
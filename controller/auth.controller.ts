@@ -0,0 +1,386 @@
+import { Request, Response, NextFunction } from "express";
+import authService from "../services/auth.service";
+import mfaService from "../services/mfa.service";
+import rbacService from "../services/rbac.service";
+import sessionService from "../services/session.service";
+import { LoginResult } from "../types/auth.types";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.color = "yellow";
+    return error;
+};
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.length > 0;
+
+/**
+ * Builds the login response: the access token, or the MFA challenge to complete
+ */
+const loginResponse = (result: LoginResult): ResponseType => result.mfaRequired
+    ? {
+        success: true,
+        status: 200,
+        message: "Enter the code from your authenticator app",
+        data: { mfaRequired: true, ...result.challenge },
+    }
+    : {
+        success: true,
+        status: 200,
+        message: "Logged in successfully",
+        data: {
+            mfaRequired: false,
+            ...result.token,
+            admin: { ...result.admin.toJSON(), effectivePermissions: rbacService.permissionsOf(result.admin) },
+        },
+    };
+
+// ==================================================
+// Auth Controller Functions
+// ==================================================
+
+/**
+ * Signs an admin in
+ * @param req - Express request object (body: email, password)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { email, password } = req.body ?? {};
+        if (!isText(email) || !isText(password)) {
+            return next(validationError("email and password are required"));
+        }
+
+        const result = await authService.login(email, password, {
+            ipAddress: req.ip,
+            userAgent: req.headers["user-agent"],
+        });
+
+        res.status(200).json(loginResponse(result));
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Swaps a refresh token for new session tokens
+ * @param req - Express request object (body: refreshToken)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const refresh = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { refreshToken } = req.body ?? {};
+        if (!isText(refreshToken)) {
+            return next(validationError("refreshToken is required"));
+        }
+
+        const tokens = await authService.refresh(refreshToken, {
+            ipAddress: req.ip,
+            userAgent: req.headers["user-agent"],
+        });
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Token refreshed successfully",
+            data: tokens,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Signs the admin out by ending the session of the token used for the request
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await authService.logout(req.auth!);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Logged out successfully",
+            data: null,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches the signed-in admin
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const me = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Admin fetched successfully",
+            data: { ...req.admin!.toJSON(), effectivePermissions: rbacService.permissionsOf(req.admin!) },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Lists the signed-in admin's active device sessions
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const sessions = await sessionService.listActive(req.admin!);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Sessions fetched successfully",
+            data: sessions.map((session) => ({ ...session.toJSON(), current: String(session._id) === req.auth!.sid })),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Revokes one of the signed-in admin's sessions
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const revokeSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        await sessionService.revoke(String(req.admin!._id), req.params.id as string);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Session revoked",
+            data: null,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Revokes the signed-in admin's other sessions, or all of them
+ * @param req - Express request object (query: includeCurrent — also end the caller's session)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const revokeSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const includeCurrent = req.query.includeCurrent === "true";
+        const revoked = await sessionService.revokeAll(
+            String(req.admin!._id),
+            "revoked",
+            includeCurrent ? undefined : req.auth!.sid,
+        );
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: includeCurrent ? "All sessions revoked" : "Other sessions revoked",
+            data: { revoked },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Changes the signed-in admin's password; other sessions are signed out
+ * @param req - Express request object (body: currentPassword, newPassword)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const changePassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { currentPassword, newPassword } = req.body ?? {};
+        if (!isText(currentPassword) || !isText(newPassword)) {
+            return next(validationError("currentPassword and newPassword are required"));
+        }
+
+        const token = await authService.changePassword(String(req.admin!._id), req.auth!.sid, currentPassword, newPassword);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Password changed successfully",
+            data: token,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Completes an MFA login
+ * @param req - Express request object (body: challengeToken, and code or recoveryCode)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const verifyMfa = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body ?? {};
+        if (!isText(challengeToken)) {
+            return next(validationError("challengeToken is required"));
+        }
+        if (isText(code) === isText(recoveryCode)) {
+            return next(validationError("Provide either code or recoveryCode"));
+        }
+
+        const result = await authService.verifyMfa(challengeToken, { code, recoveryCode }, {
+            ipAddress: req.ip,
+            userAgent: req.headers["user-agent"],
+        });
+
+        res.status(200).json(loginResponse(result));
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Starts MFA enrollment for the signed-in admin
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const setupMfa = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const enrollment = await mfaService.setup(String(req.admin!._id));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Scan the QR code with your authenticator app, then enable MFA with a code",
+            data: enrollment,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Enables MFA after checking a code from the authenticator app
+ * @param req - Express request object (body: code)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const enableMfa = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { code } = req.body ?? {};
+        if (!isText(code)) {
+            return next(validationError("code is required"));
+        }
+
+        const recoveryCodes = await mfaService.enable(String(req.admin!._id), code);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "MFA enabled; store the recovery codes somewhere safe, they are shown only once",
+            data: { recoveryCodes },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Disables MFA after checking the admin's password
+ * @param req - Express request object (body: password)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const disableMfa = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { password } = req.body ?? {};
+        if (!isText(password)) {
+            return next(validationError("password is required"));
+        }
+
+        await mfaService.disable(String(req.admin!._id), password);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "MFA disabled",
+            data: null,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export {
+    login,
+    refresh,
+    logout,
+    me,
+    listSessions,
+    revokeSession,
+    revokeSessions,
+    changePassword,
+    verifyMfa,
+    setupMfa,
+    enableMfa,
+    disableMfa,
+}
@@ -0,0 +1,493 @@
+import { Request, Response, NextFunction } from "express";
+import { campaignModel } from "../models/campaign.model";
+import { campaignRecipientModel } from "../models/campaign.recipient.model";
+import campaignService from "../services/campaign.service";
+import templateService from "../services/template.service";
+import { CampaignAudience, CampaignRecipientStatus, CampaignStatus, CampaignTemplate } from "../types/campaign.types";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { getPagination, parseDateParam, toPaginatedResult } from "../utils/pagination";
+import { escapeRegex } from "../utils/regex";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const CAMPAIGN_STATUSES: CampaignStatus[] = ["draft", "scheduled", "running", "paused", "completed", "cancelled"];
+const RECIPIENT_STATUSES: CampaignRecipientStatus[] = ["pending", "sending", "sent", "delivered", "read", "failed", "skipped"];
+
+/**
+ * Campaigns whose definition may still change
+ */
+const EDITABLE_STATUSES: CampaignStatus[] = ["draft", "scheduled"];
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.color = "yellow";
+    return error;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Normalises a list of tags: trimmed, lowercase, unique, non-empty
+ * @returns Tags, or null when the input is not an array of strings
+ */
+const normaliseTags = (tags: unknown): string[] | null => {
+    if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) return null;
+    return [...new Set(tags.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+};
+
+/**
+ * Validates an audience definition
+ * @returns Normalised audience, or an error message
+ */
+const readAudience = (input: unknown): CampaignAudience | string => {
+    if (input === undefined) return {};
+    if (!isObject(input)) return "audience must be an object";
+
+    const audience: CampaignAudience = {};
+    for (const field of ["tags", "anyTags", "excludeTags"] as const) {
+        if (input[field] === undefined) continue;
+        const tags = normaliseTags(input[field]);
+        if (!tags) return `audience.${field} must be an array of strings`;
+        audience[field] = tags;
+    }
+
+    if (input.attributes !== undefined) {
+        if (!isObject(input.attributes)) return "audience.attributes must be an object";
+        for (const [key, value] of Object.entries(input.attributes)) {
+            if (!/^[\w-]+$/.test(key)) return `Invalid attribute "${key}"`;
+            if (!["string", "number", "boolean"].includes(typeof value)) return `audience.attributes.${key} must be a string, number or boolean`;
+        }
+        audience.attributes = input.attributes;
+    }
+
+    if (input.language !== undefined) {
+        if (typeof input.language !== "string" || !input.language) return "audience.language must be a language code";
+        audience.language = input.language;
+    }
+    return audience;
+};
+
+/**
+ * Validates a campaign template against the stored, approved definition
+ * @returns Template and variables, or an error message
+ * @throws CustomError - NOT_FOUND or VALIDATION_ERROR from templateService.findSendable
+ */
+const readTemplate = async (input: unknown): Promise<CampaignTemplate | string> => {
+    if (!isObject(input)) return "template is required";
+    const { name, language, variables = {} } = input;
+    if (typeof name !== "string" || !name || typeof language !== "string" || !language) {
+        return "template.name and template.language are required";
+    }
+    if (!isObject(variables)) return "template.variables must be an object";
+
+    const template = await templateService.findSendable(name, language);
+    const known = new Set(templateService.slotsOf(template).map((slot) => slot.variable));
+    const unknown = Object.keys(variables).filter((variable) => !known.has(variable));
+    if (unknown.length > 0) return `${unknown.join(", ")} not a parameter of template ${name}`;
+
+    return { name, language, variables };
+};
+
+/**
+ * Validates the optional send rate of a campaign
+ */
+const readRate = (value: unknown): number | undefined | string => {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) return "messagesPerSecond must be a positive number";
+    return value;
+};
+
+// ==================================================
+// Campaign Controller Functions
+// ==================================================
+
+/**
+ * Lists campaigns
+ * @param req - Express request object (query: q, status, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listCampaigns = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { q, status } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof q === "string" && q.trim()) filter.name = new RegExp(escapeRegex(q.trim()), "i");
+        if (typeof status === "string" && status) {
+            const statuses = status.split(",");
+            if (!statuses.every((item) => CAMPAIGN_STATUSES.includes(item as CampaignStatus))) {
+                return next(validationError(`status must be one of ${CAMPAIGN_STATUSES.join(", ")}`));
+            }
+            filter.status = { $in: statuses };
+        }
+
+        // ===== QUERY CAMPAIGNS =====
+        const [items, total] = await Promise.all([
+            campaignModel.find(filter).sort({ createdAt: -1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            campaignModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Campaigns fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Creates a draft campaign
+ * @param req - Express request object (body: name, description, audience, template, messagesPerSecond)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const createCampaign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { name, description, audience, template, messagesPerSecond } = req.body ?? {};
+
+        // ===== VALIDATE REQUEST =====
+        if (typeof name !== "string" || !name.trim()) {
+            return next(validationError("name is required"));
+        }
+        if (description !== undefined && typeof description !== "string") {
+            return next(validationError("description must be a string"));
+        }
+        const checkedAudience = readAudience(audience);
+        if (typeof checkedAudience === "string") return next(validationError(checkedAudience));
+        const rate = readRate(messagesPerSecond);
+        if (typeof rate === "string") return next(validationError(rate));
+        const checkedTemplate = await readTemplate(template);
+        if (typeof checkedTemplate === "string") return next(validationError(checkedTemplate));
+
+        // ===== CREATE CAMPAIGN =====
+        const campaign = await campaignModel.create({
+            name: name.trim(),
+            description,
+            audience: checkedAudience,
+            template: checkedTemplate,
+            messagesPerSecond: rate,
+        });
+
+        const response: ResponseType = {
+            success: true,
+            status: 201,
+            message: "Campaign created successfully",
+            data: campaign,
+        };
+        res.status(201).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one campaign with its report
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getCampaign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const campaign = await campaignService.getOrFail(req.params.id as string);
+        const report = await campaignService.report(String(campaign._id));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Campaign fetched successfully",
+            data: { campaign, report },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Updates a draft or scheduled campaign
+ * @param req - Express request object (params: id, body: name, description, audience, template, messagesPerSecond)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const updateCampaign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { name, description, audience, template, messagesPerSecond } = req.body ?? {};
+        const campaign = await campaignService.getOrFail(req.params.id as string);
+
+        if (!EDITABLE_STATUSES.includes(campaign.status)) {
+            const error: CustomError = new Error(`Campaign "${campaign.name}" is ${campaign.status} and can no longer be edited`);
+            error.status = 409;
+            error.errorCode = ErrorCode.CONFLICT;
+            error.color = "yellow";
+            return next(error);
+        }
+
+        // ===== VALIDATE CHANGES =====
+        const set: Record<string, unknown> = {};
+        if (name !== undefined) {
+            if (typeof name !== "string" || !name.trim()) return next(validationError("name must be a non-empty string"));
+            set.name = name.trim();
+        }
+        if (description !== undefined) {
+            if (typeof description !== "string") return next(validationError("description must be a string"));
+            set.description = description;
+        }
+        if (audience !== undefined) {
+            const checkedAudience = readAudience(audience);
+            if (typeof checkedAudience === "string") return next(validationError(checkedAudience));
+            set.audience = checkedAudience;
+        }
+        if (messagesPerSecond !== undefined) {
+            const rate = readRate(messagesPerSecond);
+            if (typeof rate === "string") return next(validationError(rate));
+            set.messagesPerSecond = rate;
+        }
+        if (template !== undefined) {
+            const checkedTemplate = await readTemplate(template);
+            if (typeof checkedTemplate === "string") return next(validationError(checkedTemplate));
+            set.template = checkedTemplate;
+        }
+
+        // ===== APPLY CHANGES =====
+        const updated = await campaignModel.findOneAndUpdate(
+            { _id: campaign._id, status: { $in: EDITABLE_STATUSES } },
+            { $set: set },
+            { new: true }
+        );
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Campaign updated successfully",
+            data: updated,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Deletes a draft campaign
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const deleteCampaign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const campaign = await campaignService.getOrFail(req.params.id as string);
+
+        const deleted = await campaignModel.deleteOne({ _id: campaign._id, status: "draft" });
+        if (deleted.deletedCount === 0) {
+            const error: CustomError = new Error(`Campaign "${campaign.name}" is ${campaign.status}; only drafts can be deleted, cancel it instead`);
+            error.status = 409;
+            error.errorCode = ErrorCode.CONFLICT;
+            error.color = "yellow";
+            return next(error);
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Campaign deleted successfully",
+            data: { id: String(campaign._id) },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Counts and samples the opted-in contacts a campaign's audience matches now
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const previewAudience = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const campaign = await campaignService.getOrFail(req.params.id as string);
+        const preview = await campaignService.previewAudience(campaign.audience);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Audience fetched successfully",
+            data: preview,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Starts, pauses, resumes or cancels a campaign
+ * @param action - Lifecycle change applied by the returned handler
+ */
+const changeStatus = (action: "start" | "pause" | "resume" | "cancel") =>
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const campaign = await campaignService.getOrFail(req.params.id as string);
+            const updated = await campaignService[action](String(campaign._id));
+
+            const response: ResponseType = {
+                success: true,
+                status: 200,
+                message: `Campaign ${updated.status}`,
+                data: updated,
+            };
+            res.status(200).json(response);
+        }
+        catch(error){
+          // Pass error to error handling middleware
+          next(error);
+        }
+    };
+
+const startCampaign = changeStatus("start");
+const pauseCampaign = changeStatus("pause");
+const resumeCampaign = changeStatus("resume");
+const cancelCampaign = changeStatus("cancel");
+
+/**
+ * Schedules a campaign to start later
+ * @param req - Express request object (params: id, body: scheduledAt — ISO date in the future)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const scheduleCampaign = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const scheduledAt = parseDateParam(req.body?.scheduledAt);
+        if (!scheduledAt || scheduledAt.getTime() <= Date.now()) {
+            return next(validationError("scheduledAt must be a date in the future"));
+        }
+
+        const campaign = await campaignService.getOrFail(req.params.id as string);
+        const updated = await campaignService.schedule(String(campaign._id), scheduledAt);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Campaign scheduled",
+            data: updated,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Summarises the results of a campaign
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getReport = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const campaign = await campaignService.getOrFail(req.params.id as string);
+        const report = await campaignService.report(String(campaign._id));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Campaign report fetched successfully",
+            data: report,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Lists the recipients of a campaign and their results
+ * @param req - Express request object (params: id, query: status, replied, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listRecipients = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { status, replied } = req.query;
+        const pagination = getPagination(req.query);
+        const campaign = await campaignService.getOrFail(req.params.id as string);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = { campaignId: campaign._id };
+        if (typeof status === "string" && status) {
+            const statuses = status.split(",");
+            if (!statuses.every((item) => RECIPIENT_STATUSES.includes(item as CampaignRecipientStatus))) {
+                return next(validationError(`status must be one of ${RECIPIENT_STATUSES.join(", ")}`));
+            }
+            filter.status = { $in: statuses };
+        }
+        if (replied === "true") filter.repliedAt = { $exists: true };
+        if (replied === "false") filter.repliedAt = { $exists: false };
+
+        // ===== QUERY RECIPIENTS =====
+        const [items, total] = await Promise.all([
+            campaignRecipientModel.find(filter).sort({ _id: 1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            campaignRecipientModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Campaign recipients fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export {
+    listCampaigns,
+    createCampaign,
+    getCampaign,
+    updateCampaign,
+    deleteCampaign,
+    previewAudience,
+    startCampaign,
+    scheduleCampaign,
+    pauseCampaign,
+    resumeCampaign,
+    cancelCampaign,
+    getReport,
+    listRecipients,
+}
@@ -0,0 +1,351 @@
+import { Request, Response, NextFunction } from "express";
+import { commandModel } from "../models/command.model";
+import { flowModel } from "../models/flow.model";
+import commandService from "../services/command.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { checkReceipts } from "../utils/flow.parser";
+import { getPagination, toPaginatedResult } from "../utils/pagination";
+import { escapeRegex } from "../utils/regex";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const ACTION_TYPES = ["reply", "flow", "handler"];
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Builds a not found error for a command
+ */
+const commandNotFound = (name: string): CustomError => {
+    const error: CustomError = new Error(`Command ${name} not found`);
+    error.status = 404;
+    error.errorCode = ErrorCode.NOT_FOUND;
+    error.color = "yellow";
+    return error;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "string" && item.trim());
+
+/**
+ * Validates and picks the editable fields of a command
+ * @param body - Request body
+ * @param partial - Whether missing fields are allowed (updates)
+ * @returns Fields to store, or an error message
+ */
+const readCommandFields = async (body: any, partial: boolean): Promise<Record<string, unknown> | string> => {
+    const fields: Record<string, unknown> = {};
+    const { description, keywords, aliases, pattern, flags, priority, action, receipts, isActive } = body ?? {};
+
+    if (description !== undefined) {
+        if (description !== null && typeof description !== "string") return "description must be a string";
+        fields.description = description;
+    }
+    if (keywords !== undefined) {
+        if (!isStringArray(keywords)) return "keywords must be an array of strings";
+        fields.keywords = keywords.map((keyword) => keyword.trim());
+    }
+    if (aliases !== undefined) {
+        if (!isStringArray(aliases)) return "aliases must be an array of strings";
+        fields.aliases = aliases.map((alias) => alias.trim().toLowerCase());
+    }
+    if (pattern !== undefined || flags !== undefined) {
+        if (pattern !== undefined && pattern !== null && typeof pattern !== "string") return "pattern must be a string";
+        if (flags !== undefined && (typeof flags !== "string" || !/^[imsu]*$/.test(flags))) return "flags may only contain i, m, s and u";
+        try {
+            if (pattern) new RegExp(pattern, flags);
+        } catch {
+            return "pattern is not a valid regular expression";
+        }
+        if (pattern !== undefined) fields.pattern = pattern || undefined;
+        if (flags !== undefined) fields.flags = flags;
+    }
+    if (priority !== undefined) {
+        if (!Number.isInteger(priority)) return "priority must be an integer";
+        fields.priority = priority;
+    }
+    if (receipts !== undefined) {
+        if (receipts !== null) {
+            const issues: string[] = [];
+            checkReceipts(receipts, "receipts", issues);
+            if (issues.length > 0) return issues.join("; ");
+        }
+        fields.receipts = receipts ?? undefined;
+    }
+    if (isActive !== undefined) {
+        if (typeof isActive !== "boolean") return "isActive must be a boolean";
+        fields.isActive = isActive;
+    }
+
+    if (action !== undefined) {
+        if (typeof action !== "object" || action === null || !ACTION_TYPES.includes(action.type)) {
+            return `action.type must be one of ${ACTION_TYPES.join(", ")}`;
+        }
+        if (action.type === "reply") {
+            const { message } = action;
+            const valid = (typeof message === "string" && message.trim()) || (typeof message === "object" && message !== null && typeof message.type === "string");
+            if (!valid) return "action.message must be text or a message object with a type";
+            fields.action = { type: "reply", message };
+        } else if (action.type === "flow") {
+            if (typeof action.flowKey !== "string" || !(await flowModel.exists({ key: action.flowKey }))) {
+                return "action.flowKey must be an existing flow";
+            }
+            fields.action = { type: "flow", flowKey: action.flowKey };
+        } else {
+            if (typeof action.handler !== "string" || !commandService.hasHandler(action.handler)) {
+                return "action.handler must be a handler registered in code";
+            }
+            fields.action = { type: "handler", handler: action.handler };
+        }
+    } else if (!partial) {
+        return "action is required";
+    }
+
+    return fields;
+};
+
+// ==================================================
+// Command Controller Functions
+// ==================================================
+
+/**
+ * Lists stored commands, plus the commands and handlers registered in code
+ * @param req - Express request object (query: q, active, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listCommands = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { q, active } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof q === "string" && q.trim()) {
+            const pattern = new RegExp(escapeRegex(q.trim()), "i");
+            filter.$or = [{ name: pattern }, { keywords: pattern }, { aliases: pattern }];
+        }
+        if (active === "true" || active === "false") filter.isActive = active === "true";
+
+        // ===== QUERY COMMANDS =====
+        const [items, total] = await Promise.all([
+            commandModel.find(filter).sort({ priority: 1, name: 1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            commandModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Commands fetched successfully",
+            data: {
+                ...toPaginatedResult(items, total, pagination),
+                registered: commandService.listRegistered(),
+            },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one stored command
+ * @param req - Express request object (params: name)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getCommand = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const name = req.params.name as string;
+        const command = await commandModel.findOne({ name }).lean();
+
+        if (!command) {
+            return next(commandNotFound(name));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Command fetched successfully",
+            data: command,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Creates a stored command
+ * @param req - Express request object
+ *   (body: name, description, keywords, aliases, pattern, flags, priority, action, receipts, isActive)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const createCommand = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { name } = req.body ?? {};
+        if (typeof name !== "string" || !/^[\w-]+$/.test(name)) {
+            return next(validationError("name must be made of letters, digits, _ or -"));
+        }
+
+        const fields = await readCommandFields(req.body, false);
+        if (typeof fields === "string") return next(validationError(fields));
+
+        const keywords = (fields.keywords as string[] | undefined) ?? [];
+        const aliases = (fields.aliases as string[] | undefined) ?? [];
+        if (keywords.length === 0 && aliases.length === 0 && !fields.pattern) {
+            return next(validationError("A command needs at least one keyword, alias or pattern"));
+        }
+
+        if (await commandModel.exists({ name })) {
+            const error: CustomError = new Error(`Command ${name} already exists`);
+            error.status = 409;
+            error.errorCode = ErrorCode.CONFLICT;
+            error.color = "yellow";
+            return next(error);
+        }
+
+        const command = await commandModel.create({ ...fields, name });
+        commandService.invalidate();
+
+        const response: ResponseType = {
+            success: true,
+            status: 201,
+            message: "Command created successfully",
+            data: command,
+        };
+        res.status(201).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Edits a stored command
+ * @param req - Express request object
+ *   (params: name, body: description, keywords, aliases, pattern, flags, priority, action, receipts, isActive)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const updateCommand = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const name = req.params.name as string;
+
+        const fields = await readCommandFields(req.body, true);
+        if (typeof fields === "string") return next(validationError(fields));
+        if (Object.keys(fields).length === 0) return next(validationError("Nothing to update"));
+
+        const existing = await commandModel.findOne({ name });
+        if (!existing) {
+            return next(commandNotFound(name));
+        }
+
+        existing.set(fields);
+        if (existing.keywords.length === 0 && existing.aliases.length === 0 && !existing.pattern) {
+            return next(validationError("A command needs at least one keyword, alias or pattern"));
+        }
+        await existing.save();
+        commandService.invalidate();
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Command updated successfully",
+            data: existing,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Deletes a stored command
+ * @param req - Express request object (params: name)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const deleteCommand = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const name = req.params.name as string;
+        const command = await commandModel.findOneAndDelete({ name });
+
+        if (!command) {
+            return next(commandNotFound(name));
+        }
+        commandService.invalidate();
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Command deleted successfully",
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Shows which command a text would run, without running it
+ * @param req - Express request object (body: text)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const testCommand = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { text } = req.body ?? {};
+        if (typeof text !== "string" || !text.trim()) {
+            return next(validationError("text is required"));
+        }
+
+        commandService.invalidate();
+        const match = await commandService.match(text);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: match ? `Matched command ${match.command}` : "No command matched; the fallback would run",
+            data: match
+                ? {
+                      command: match.command,
+                      source: match.source,
+                      matchedBy: match.matchedBy,
+                      priority: match.priority,
+                      captures: match.captures,
+                      groups: match.groups,
+                  }
+                : null,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listCommands, getCommand, createCommand, updateCommand, deleteCommand, testCommand }
@@ -0,0 +1,319 @@
+import { Request, Response, NextFunction } from "express";
+import { contactModel, OptInStatus } from "../models/contact.model";
+import windowService from "../services/window.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { getPagination, parseDateParam, toPaginatedResult } from "../utils/pagination";
+import { escapeRegex } from "../utils/regex";
+import { isValidTimeZone } from "../utils/timezone";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const OPT_IN_STATUSES: OptInStatus[] = ["opted_in", "opted_out", "unknown"];
+
+/**
+ * Prefix of query parameters that filter on custom attributes (e.g. attr.city=Dhemaji)
+ */
+const ATTRIBUTE_FILTER_PREFIX = "attr.";
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Builds a not found error for a contact
+ */
+const contactNotFound = (waId: string): CustomError => {
+    const error: CustomError = new Error(`Contact ${waId} not found`);
+    error.status = 404;
+    error.errorCode = ErrorCode.NOT_FOUND;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Normalises a list of tags: trimmed, lowercase, unique, non-empty
+ * @returns Tags, or null when the input is not an array of strings
+ */
+const normaliseTags = (tags: unknown): string[] | null => {
+    if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) return null;
+    return [...new Set(tags.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+};
+
+// ==================================================
+// Contact Controller Functions
+// ==================================================
+
+/**
+ * Lists contacts with search, filters and pagination, each with its service window
+ * @param req - Express request object
+ *   (query: q, tags, optIn, language, seenAfter, seenBefore, attr.<key>, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listContacts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { q, tags, optIn, language, seenAfter, seenBefore } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+
+        // Free-text search on wa_id, profile name and name
+        if (typeof q === "string" && q.trim()) {
+            const pattern = new RegExp(escapeRegex(q.trim()), "i");
+            filter.$or = [{ waId: pattern }, { profileName: pattern }, { name: pattern }];
+        }
+
+        // Contacts must carry every listed tag
+        if (typeof tags === "string" && tags) {
+            filter.tags = { $all: normaliseTags(tags.split(",")) };
+        }
+
+        if (typeof optIn === "string" && optIn) {
+            if (!OPT_IN_STATUSES.includes(optIn as OptInStatus)) {
+                return next(validationError(`optIn must be one of ${OPT_IN_STATUSES.join(", ")}`));
+            }
+            filter["optIn.status"] = optIn;
+        }
+
+        if (typeof language === "string" && language) filter.language = language;
+
+        const after = parseDateParam(seenAfter);
+        const before = parseDateParam(seenBefore);
+        if (after || before) {
+            filter.lastSeenAt = {};
+            if (after) filter.lastSeenAt.$gte = after;
+            if (before) filter.lastSeenAt.$lte = before;
+        }
+
+        // Custom attribute filters; numeric values also match numbers
+        for (const [key, value] of Object.entries(req.query)) {
+            if (!key.startsWith(ATTRIBUTE_FILTER_PREFIX) || typeof value !== "string") continue;
+            const attribute = key.slice(ATTRIBUTE_FILTER_PREFIX.length);
+            if (!/^[\w-]+$/.test(attribute)) {
+                return next(validationError(`Invalid attribute filter "${attribute}"`));
+            }
+            const numeric = Number(value);
+            filter[`attributes.${attribute}`] = value !== "" && !Number.isNaN(numeric) ? { $in: [value, numeric] } : value;
+        }
+
+        // ===== QUERY CONTACTS =====
+        const [items, total] = await Promise.all([
+            contactModel.find(filter).sort({ lastSeenAt: -1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            contactModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Contacts fetched successfully",
+            data: toPaginatedResult(
+                items.map((contact) => ({ ...contact, serviceWindow: windowService.windowOf(contact.lastSeenAt) })),
+                total,
+                pagination,
+            ),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one contact by wa_id, with its service window
+ * @param req - Express request object (params: waId)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getContact = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+        const contact = await contactModel.findOne({ waId }).lean();
+
+        if (!contact) {
+            return next(contactNotFound(waId));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Contact fetched successfully",
+            data: { ...contact, serviceWindow: windowService.windowOf(contact.lastSeenAt) },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Edits a contact
+ * Attributes are merged; an attribute set to null is removed
+ * @param req - Express request object (params: waId, body: name, language, timezone, tags, attributes, optIn)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const updateContact = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+        const { name, language, timezone, tags, attributes, optIn } = req.body ?? {};
+
+        // ===== BUILD UPDATE =====
+        const set: Record<string, unknown> = {};
+        const unset: Record<string, ""> = {};
+
+        if (name !== undefined) {
+            if (name !== null && typeof name !== "string") return next(validationError("name must be a string"));
+            set.name = name;
+        }
+
+        if (language !== undefined) {
+            if (language !== null && typeof language !== "string") return next(validationError("language must be a string"));
+            set.language = language;
+        }
+
+        if (timezone !== undefined) {
+            if (timezone !== null && !isValidTimeZone(timezone)) return next(validationError("timezone must be an IANA timezone such as Asia/Kolkata"));
+            set.timezone = timezone;
+        }
+
+        if (tags !== undefined) {
+            const normalised = normaliseTags(tags);
+            if (!normalised) return next(validationError("tags must be an array of strings"));
+            set.tags = normalised;
+        }
+
+        if (attributes !== undefined) {
+            if (typeof attributes !== "object" || attributes === null || Array.isArray(attributes)) {
+                return next(validationError("attributes must be an object"));
+            }
+            for (const [key, value] of Object.entries(attributes)) {
+                if (!/^[\w-]+$/.test(key)) return next(validationError(`Invalid attribute name "${key}"`));
+                if (value === null) unset[`attributes.${key}`] = "";
+                else set[`attributes.${key}`] = value;
+            }
+        }
+
+        if (optIn !== undefined) {
+            const status = typeof optIn === "string" ? optIn : optIn?.status;
+            if (!OPT_IN_STATUSES.includes(status)) {
+                return next(validationError(`optIn must be one of ${OPT_IN_STATUSES.join(", ")}`));
+            }
+            set.optIn = {
+                status,
+                updatedAt: new Date(),
+                source: typeof optIn?.source === "string" ? optIn.source : "admin",
+            };
+        }
+
+        const update: Record<string, unknown> = {};
+        if (Object.keys(set).length > 0) update.$set = set;
+        if (Object.keys(unset).length > 0) update.$unset = unset;
+
+        if (Object.keys(update).length === 0) {
+            return next(validationError("Nothing to update"));
+        }
+
+        // ===== APPLY UPDATE =====
+        const contact = await contactModel.findOneAndUpdate({ waId }, update, { new: true, runValidators: true }).lean();
+        if (!contact) {
+            return next(contactNotFound(waId));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Contact updated successfully",
+            data: contact,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Adds tags to a contact
+ * @param req - Express request object (params: waId, body: tags)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const addContactTags = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+        const tags = normaliseTags(req.body?.tags);
+
+        if (!tags || tags.length === 0) {
+            return next(validationError("tags must be a non-empty array of strings"));
+        }
+
+        const contact = await contactModel
+            .findOneAndUpdate({ waId }, { $addToSet: { tags: { $each: tags } } }, { new: true })
+            .lean();
+        if (!contact) {
+            return next(contactNotFound(waId));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Tags added successfully",
+            data: contact,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Removes a tag from a contact
+ * @param req - Express request object (params: waId, tag)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const removeContactTag = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+        const tag = req.params.tag as string;
+
+        const contact = await contactModel
+            .findOneAndUpdate({ waId }, { $pull: { tags: tag.trim().toLowerCase() } }, { new: true })
+            .lean();
+        if (!contact) {
+            return next(contactNotFound(waId));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Tag removed successfully",
+            data: contact,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listContacts, getContact, updateContact, addContactTags, removeContactTag }
@@ -0,0 +1,161 @@
+import { Request, Response, NextFunction } from "express";
+import config from "../config/app.config";
+import { conversationModel } from "../models/conversation.model";
+import { contactModel } from "../models/contact.model";
+import { messageModel } from "../models/message.model";
+import conversationService from "../services/conversation.service";
+import windowService from "../services/window.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { getPagination, parseDateParam, toPaginatedResult } from "../utils/pagination";
+import { escapeRegex } from "../utils/regex";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a not found error for a conversation
+ */
+const conversationNotFound = (waId: string): CustomError => {
+    const error: CustomError = new Error(`Conversation with ${waId} not found`);
+    error.status = 404;
+    error.errorCode = ErrorCode.NOT_FOUND;
+    error.color = "yellow";
+    return error;
+};
+
+// ==================================================
+// Conversation Controller Functions
+// ==================================================
+
+/**
+ * Lists conversations, most recent first, with the contact profile and service window attached
+ * @param req - Express request object (query: q, unread, window — open|closed, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listConversations = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { q, unread, window } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof q === "string" && q.trim()) {
+            filter.contactWaId = new RegExp(escapeRegex(q.trim()), "i");
+        }
+        if (unread === "true") filter.unreadCount = { $gt: 0 };
+
+        // Open windows had an inbound message within the window length
+        const windowStart = new Date(Date.now() - config.serviceWindow.hours * 60 * 60 * 1000);
+        if (window === "open") filter.lastInboundAt = { $gt: windowStart };
+        if (window === "closed") filter.$or = [{ lastInboundAt: { $lte: windowStart } }, { lastInboundAt: { $exists: false } }];
+
+        // ===== QUERY CONVERSATIONS =====
+        const [conversations, total] = await Promise.all([
+            conversationModel.find(filter).sort({ lastMessageAt: -1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            conversationModel.countDocuments(filter),
+        ]);
+
+        // ===== ATTACH CONTACTS =====
+        const contacts = await contactModel
+            .find({ waId: { $in: conversations.map((conversation) => conversation.contactWaId) } })
+            .lean();
+        const contactsByWaId = new Map(contacts.map((contact) => [contact.waId, contact]));
+        const items = conversations.map((conversation) => ({
+            ...conversation,
+            contact: contactsByWaId.get(conversation.contactWaId) ?? null,
+            serviceWindow: windowService.windowOf(conversation.lastInboundAt),
+        }));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Conversations fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches a page of a contact's conversation thread, newest message first
+ * @param req - Express request object (params: waId, query: before, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getConversationMessages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+        const pagination = getPagination(req.query);
+
+        const conversation = await conversationModel.findOne({ contactWaId: waId }).lean();
+        if (!conversation) {
+            return next(conversationNotFound(waId));
+        }
+
+        // ===== BUILD FILTER =====
+        // "before" lets clients page back from a fixed point while new messages arrive
+        const filter: Record<string, any> = { conversationId: conversation._id };
+        const before = parseDateParam(req.query.before);
+        if (before) filter.timestamp = { $lt: before };
+
+        // ===== QUERY THREAD =====
+        const [items, total] = await Promise.all([
+            messageModel.find(filter).sort({ timestamp: -1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            messageModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Conversation fetched successfully",
+            data: {
+                conversation: { ...conversation, serviceWindow: windowService.windowOf(conversation.lastInboundAt) },
+                ...toPaginatedResult(items, total, pagination),
+            },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Marks a conversation as read
+ * @param req - Express request object (params: waId)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const markConversationRead = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+
+        const exists = await conversationModel.exists({ contactWaId: waId });
+        if (!exists) {
+            return next(conversationNotFound(waId));
+        }
+
+        await conversationService.markRead(waId);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Conversation marked as read",
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listConversations, getConversationMessages, markConversationRead }
@@ -0,0 +1,323 @@
+import { Request, Response, NextFunction } from "express";
+import { flowModel } from "../models/flow.model";
+import { flowSessionModel } from "../models/flow.session.model";
+import flowService from "../services/flow.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { ParsedFlow, parseFlowSource, validateFlowDefinition } from "../utils/flow.parser";
+import { getPagination, toPaginatedResult } from "../utils/pagination";
+import { escapeRegex } from "../utils/regex";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string, details?: unknown): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.details = details;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Builds a not found error
+ */
+const notFound = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 404;
+    error.errorCode = ErrorCode.NOT_FOUND;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Parses a flow from a request body
+ * Accepts a definition object, or { format: "yaml" | "json", source: "<text>" }
+ */
+const parseFlowBody = (body: any): ParsedFlow => {
+    if (typeof body?.source === "string") {
+        return parseFlowSource(body.source, body.format === "json" ? "json" : "yaml");
+    }
+    return validateFlowDefinition(body);
+};
+
+// ==================================================
+// Flow Controller Functions
+// ==================================================
+
+/**
+ * Lists flows
+ * @param req - Express request object (query: q, active, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listFlows = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { q, active } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof q === "string" && q.trim()) {
+            const pattern = new RegExp(escapeRegex(q.trim()), "i");
+            filter.$or = [{ key: pattern }, { name: pattern }, { triggers: pattern }];
+        }
+        if (active === "true" || active === "false") filter.isActive = active === "true";
+
+        // ===== QUERY FLOWS =====
+        // Nodes are left out of the list; fetch one flow to inspect them
+        const [items, total] = await Promise.all([
+            flowModel.find(filter, { nodes: 0 }).sort({ key: 1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            flowModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Flows fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one flow with its nodes
+ * @param req - Express request object (params: key)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getFlow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const key = req.params.key as string;
+        const flow = await flowModel.findOne({ key }).lean();
+
+        if (!flow) {
+            return next(notFound(`Flow ${key} not found`));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Flow fetched successfully",
+            data: flow,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Creates a flow from a JSON or YAML definition
+ * @param req - Express request object (body: definition, or format + source)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const createFlow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { definition, issues } = parseFlowBody(req.body);
+        if (!definition) {
+            return next(validationError("Invalid flow definition", { issues }));
+        }
+
+        if (await flowModel.exists({ key: definition.key })) {
+            const error: CustomError = new Error(`Flow ${definition.key} already exists`);
+            error.status = 409;
+            error.errorCode = ErrorCode.CONFLICT;
+            error.color = "yellow";
+            return next(error);
+        }
+
+        const flow = await flowService.saveDefinition(definition, "api");
+
+        const response: ResponseType = {
+            success: true,
+            status: 201,
+            message: "Flow created successfully",
+            data: flow,
+        };
+        res.status(201).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Replaces a flow definition
+ * Active sessions continue on the new definition from their current node
+ * @param req - Express request object (params: key, body: definition, or format + source)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const updateFlow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const key = req.params.key as string;
+        const { definition, issues } = parseFlowBody(req.body);
+        if (!definition) {
+            return next(validationError("Invalid flow definition", { issues }));
+        }
+        if (definition.key !== key) {
+            return next(validationError("Flow key in the definition does not match the URL"));
+        }
+
+        if (!(await flowModel.exists({ key }))) {
+            return next(notFound(`Flow ${key} not found`));
+        }
+
+        const flow = await flowService.saveDefinition(definition, "api");
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Flow updated successfully",
+            data: flow,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Deletes a flow and cancels its active sessions
+ * @param req - Express request object (params: key)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const deleteFlow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const key = req.params.key as string;
+        const flow = await flowModel.findOneAndDelete({ key });
+
+        if (!flow) {
+            return next(notFound(`Flow ${key} not found`));
+        }
+
+        await flowSessionModel.updateMany(
+            { flowKey: key, status: "active" },
+            { $set: { status: "cancelled", endedAt: new Date(), expiresAt: null } }
+        );
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Flow deleted successfully",
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Starts a flow for a contact, replacing the contact's current session
+ * @param req - Express request object (params: key, body: waId, variables)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const startFlow = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const key = req.params.key as string;
+        const { waId, variables } = req.body ?? {};
+
+        if (typeof waId !== "string" || !/^\d{7,15}$/.test(waId)) {
+            return next(validationError("waId must be a phone number in international format (digits only)"));
+        }
+        if (variables !== undefined && (typeof variables !== "object" || variables === null || Array.isArray(variables))) {
+            return next(validationError("variables must be an object"));
+        }
+
+        const session = await flowService.startFlow(waId, key, variables);
+        if (!session) {
+            return next(notFound(`Flow ${key} not found or inactive`));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Flow started successfully",
+            data: session,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches the flow session of a contact
+ * @param req - Express request object (params: waId)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getFlowSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+        const session = await flowSessionModel.findOne({ contactWaId: waId }).lean();
+
+        if (!session) {
+            return next(notFound(`No flow session for ${waId}`));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Flow session fetched successfully",
+            data: session,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Cancels the active flow session of a contact
+ * @param req - Express request object (params: waId)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const cancelFlowSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const waId = req.params.waId as string;
+
+        if (!(await flowService.cancelSession(waId))) {
+            return next(notFound(`No active flow session for ${waId}`));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Flow session cancelled successfully",
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listFlows, getFlow, createFlow, updateFlow, deleteFlow, startFlow, getFlowSession, cancelFlowSession }
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import config from "../config/app.config";
-import messageService from "../services/message.service";
+import queueService from "../services/queue.service";
+import { JOB_TYPES } from "../types/queue.types";
 // ==================================================
 // Main Controller Functions
 // ==================================================
@@ -39,16 +40,18 @@ const webHookVerify = async (req: Request, res: Response, next: NextFunction): P
 
 
 /**
- * Authentication hook middleware
- * Verifies user credentials and handles login flow with MFA support
- * @param req - Express request object containing email and password
+ * Message webhook handler
+ * Stores the raw WhatsApp webhook payload as a job and acknowledges it right away,
+ * so slow handlers never cause Meta timeouts and redeliveries
+ * The payload is parsed and dispatched by the job worker
+ * @param req - Express request object containing the webhook payload
  * @param res - Express response object
  * @param next - Express next function for error handling
  */
 const getMessageHook = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const {body} = req;
-        const response = await messageService.messageReceived(body);
+        await queueService.enqueue(JOB_TYPES.WEBHOOK_INBOUND, body);
 
         res.status(200).send({
             success:true,
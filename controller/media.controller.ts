@@ -0,0 +1,185 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { mediaModel } from "../models/media.model";
+import mediaService from "../services/media.service";
+import rbacService from "../services/rbac.service";
+import { checkMediaLimits } from "../middleware/upload.middleware";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { normaliseRecipient } from "../utils/message.validator";
+import { getPagination, toPaginatedResult } from "../utils/pagination";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Finds an upload by internal ID or WhatsApp media id
+ */
+const findMedia = (id: string) =>
+    mediaModel.findOne(mongoose.isValidObjectId(id) ? { _id: id } : { mediaId: id });
+
+/**
+ * Builds a not found error for an upload
+ */
+const mediaNotFound = (id: string): CustomError => {
+    const error: CustomError = new Error(`Media ${id} not found`);
+    error.status = 404;
+    error.errorCode = ErrorCode.NOT_FOUND;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Validates the optional recipient and caption of a send
+ * @returns Normalised recipient (null when none was given), or an error message
+ */
+const checkSendFields = (to: unknown, caption: unknown, required: boolean): { to: string | null } | { error: string } => {
+    if (caption !== undefined && (typeof caption !== "string" || caption.length > 1024)) {
+        return { error: "caption must be text of at most 1024 characters" };
+    }
+    if (to === undefined && !required) return { to: null };
+
+    const recipient = normaliseRecipient(to);
+    if (!recipient) return { error: "to must be a phone number in international format (7 to 15 digits, country code first)" };
+    return { to: recipient };
+};
+
+// ==================================================
+// Media Controller Functions
+// ==================================================
+
+/**
+ * Uploads a file to WhatsApp, optionally sending it right away
+ * The media type is inferred from the MIME type unless given
+ * @param req - Express request object (file: file, body: type, to, caption)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const uploadMedia = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { type, to, caption } = req.body ?? {};
+
+        // ===== VALIDATE REQUEST =====
+        if (!req.file) {
+            return next(validationError("A file is required in the 'file' field"));
+        }
+        if (type !== undefined && typeof type !== "string") {
+            return next(validationError("type must be a string"));
+        }
+        const checked = checkMediaLimits(req.file, type || undefined);
+        if ("error" in checked) {
+            return next(validationError(checked.error));
+        }
+        const send = checkSendFields(to, caption, false);
+        if ("error" in send) return next(validationError(send.error));
+        if (send.to && !rbacService.hasPermissions(req.admin!, ["messages:send"])) {
+            const error: CustomError = new Error("You need the messages:send permission to send the upload");
+            error.status = 403;
+            error.errorCode = ErrorCode.FORBIDDEN;
+            error.color = "yellow";
+            return next(error);
+        }
+
+        // ===== UPLOAD AND OPTIONALLY SEND =====
+        const media = await mediaService.upload(req.file, checked.type);
+        const sent = send.to ? await mediaService.sendUploaded(media, send.to, caption) : null;
+
+        const response: ResponseType = {
+            success: true,
+            status: 201,
+            message: sent ? "Media uploaded and sent successfully" : "Media uploaded successfully",
+            data: { media, sent },
+        };
+        res.status(201).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Lists uploaded media
+ * @param req - Express request object (query: type, active, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listMedia = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { type, active } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof type === "string" && type) filter.type = { $in: type.split(",") };
+        if (active === "true") filter.expiresAt = { $gt: new Date() };
+        if (active === "false") filter.expiresAt = { $lte: new Date() };
+
+        // ===== QUERY MEDIA =====
+        const [items, total] = await Promise.all([
+            mediaModel.find(filter).sort({ createdAt: -1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            mediaModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Media fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Sends an uploaded media file to a contact
+ * @param req - Express request object (params: id — internal ID or media id, body: to, caption)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const sendMedia = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const id = req.params.id as string;
+        const { to, caption } = req.body ?? {};
+
+        const send = checkSendFields(to, caption, true);
+        if ("error" in send) return next(validationError(send.error));
+
+        const media = await findMedia(id);
+        if (!media) {
+            return next(mediaNotFound(id));
+        }
+
+        const result = await mediaService.sendUploaded(media, send.to!, caption);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Media sent successfully",
+            data: result,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { uploadMedia, listMedia, sendMedia }
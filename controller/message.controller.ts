@@ -0,0 +1,211 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { messageModel } from "../models/message.model";
+import outboundService from "../services/outbound.service";
+import templateService from "../services/template.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { getPagination, parseDateParam, toPaginatedResult } from "../utils/pagination";
+import { validateOutboundMessage } from "../utils/message.validator";
+
+// ==================================================
+// Message Controller Functions
+// ==================================================
+
+/**
+ * Lists messages with their delivery status
+ * Supports filtering by status, direction, recipient, type and creation date range
+ * @param req - Express request object (query: status, direction, to, type, from, until, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listMessages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { status, direction, to, type, from, until } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof status === "string" && status) filter.status = { $in: status.split(",") };
+        if (typeof direction === "string" && direction) filter.direction = direction;
+        if (typeof to === "string" && to) filter.to = to;
+        if (typeof type === "string" && type) filter.type = type;
+
+        const fromDate = parseDateParam(from);
+        const untilDate = parseDateParam(until);
+        if (fromDate || untilDate) {
+            filter.createdAt = {};
+            if (fromDate) filter.createdAt.$gte = fromDate;
+            if (untilDate) filter.createdAt.$lte = untilDate;
+        }
+
+        // ===== QUERY MESSAGES =====
+        const [items, total] = await Promise.all([
+            messageModel.find(filter).sort({ createdAt: -1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            messageModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Messages fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Full-text search across stored messages
+ * Results are ranked by relevance when a search term is given, otherwise newest first
+ * @param req - Express request object (query: q, from, until, direction, type, contact, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const searchMessages = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { q, from, until, direction, type, contact } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        const hasSearchTerm = typeof q === "string" && q.trim().length > 0;
+        if (hasSearchTerm) filter.$text = { $search: (q as string).trim() };
+
+        if (typeof direction === "string" && direction) {
+            if (!["inbound", "outbound"].includes(direction)) {
+                const error: CustomError = new Error("direction must be inbound or outbound");
+                error.status = 400;
+                error.errorCode = ErrorCode.VALIDATION_ERROR;
+                error.color = "yellow";
+                return next(error);
+            }
+            filter.direction = direction;
+        }
+        if (typeof type === "string" && type) filter.type = { $in: type.split(",") };
+        if (typeof contact === "string" && contact) filter.contactWaId = contact;
+
+        const fromDate = parseDateParam(from);
+        const untilDate = parseDateParam(until);
+        if (fromDate || untilDate) {
+            filter.timestamp = {};
+            if (fromDate) filter.timestamp.$gte = fromDate;
+            if (untilDate) filter.timestamp.$lte = untilDate;
+        }
+
+        // ===== QUERY MESSAGES =====
+        const query = hasSearchTerm
+            ? messageModel
+                  .find(filter, { score: { $meta: "textScore" } })
+                  .sort({ score: { $meta: "textScore" }, timestamp: -1 })
+            : messageModel.find(filter).sort({ timestamp: -1 });
+
+        const [items, total] = await Promise.all([
+            query.skip(pagination.skip).limit(pagination.limit).lean(),
+            messageModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Messages searched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one message with its full status history
+ * Accepts either the internal message ID or the wamid
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getMessage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        // ===== FIND BY INTERNAL ID OR WAMID =====
+        const filter = mongoose.isValidObjectId(id) ? { _id: id } : { wamid: id };
+        const message = await messageModel.findOne(filter).lean();
+
+        if (!message) {
+            const error: CustomError = new Error("Message not found");
+            error.status = 404;
+            error.errorCode = ErrorCode.NOT_FOUND;
+            error.color = "yellow";
+            return next(error);
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Message fetched successfully",
+            data: message,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Sends a message of any supported type
+ * Template payloads are checked against the synced template before sending.
+ * Repeated requests with the same Idempotency-Key replay the first response.
+ * @param req - Express request object
+ *   (headers: Idempotency-Key, body: to, type, <type payload>, context)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const sendMessage = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        // ===== VALIDATE PAYLOAD =====
+        const { message, issues } = validateOutboundMessage(req.body);
+        if (!message) {
+            const error: CustomError = new Error(`Invalid message: ${issues.join("; ")}`);
+            error.status = 400;
+            error.errorCode = ErrorCode.VALIDATION_ERROR;
+            error.details = { issues };
+            error.color = "yellow";
+            return next(error);
+        }
+        if (message.type === "template") {
+            await templateService.validatePayload(message.template);
+        }
+
+        // ===== SEND =====
+        const result = await outboundService.send(message);
+
+        const response: ResponseType = {
+            success: true,
+            status: 201,
+            message: "Message sent successfully",
+            data: {
+                messageId: result.messageId,
+                wamid: result.wamid,
+                to: message.to,
+                waId: result.waId,
+                type: message.type,
+            },
+        };
+        res.status(201).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listMessages, searchMessages, getMessage, sendMessage }
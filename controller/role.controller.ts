@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from "express";
+import { adminModel } from "../models/admin.model";
+import rbacService from "../services/rbac.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ADMIN_ROLES, AdminRole, PERMISSIONS, ROLE_PERMISSIONS } from "../types/rbac.types";
+import { ResponseType } from "../types/response";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string, issues: string[] = []): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.details = issues.length > 0 ? { issues } : undefined;
+    error.color = "yellow";
+    return error;
+};
+
+// ==================================================
+// Role Controller Functions
+// ==================================================
+
+/**
+ * Lists the roles, the permissions each grants and every known permission
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listRoles = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Roles fetched successfully",
+            data: {
+                roles: ADMIN_ROLES.map((role) => ({ role, permissions: ROLE_PERMISSIONS[role] })),
+                permissions: PERMISSIONS,
+            },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Lists admins with their role, individual grants and resulting permissions
+ * @param req - Express request object (query: role)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listRoleAssignments = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { role } = req.query;
+        const filter: Record<string, any> = {};
+        if (typeof role === "string" && role) {
+            if (!ADMIN_ROLES.includes(role as AdminRole)) {
+                return next(validationError(`role must be one of ${ADMIN_ROLES.join(", ")}`));
+            }
+            filter.role = role;
+        }
+
+        const admins = await adminModel.find(filter, { email: 1, displayName: 1, role: 1, permissions: 1, flag: 1 }).sort({ createdAt: 1 }).lean();
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Role assignments fetched successfully",
+            data: admins.map((admin) => ({
+                id: String(admin._id),
+                email: admin.email,
+                displayName: admin.displayName,
+                blocked: admin.flag,
+                role: admin.role,
+                permissions: admin.permissions ?? [],
+                effectivePermissions: rbacService.permissionsOf(admin),
+            })),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Changes the role and individual permissions of an admin
+ * @param req - Express request object (params: id, body: role, permissions)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const assignRole = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { assignment, issues } = rbacService.validateAssignment(req.body);
+        if (!assignment) {
+            return next(validationError(`Invalid role assignment: ${issues.join("; ")}`, issues));
+        }
+
+        const admin = await rbacService.assign(req.admin!, req.params.id as string, assignment);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Role assignment updated successfully",
+            data: { ...admin.toJSON(), effectivePermissions: rbacService.permissionsOf(admin) },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listRoles, listRoleAssignments, assignRole }
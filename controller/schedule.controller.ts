@@ -0,0 +1,210 @@
+import { Request, Response, NextFunction } from "express";
+import { scheduledMessageModel } from "../models/scheduled.message.model";
+import scheduleService from "../services/schedule.service";
+import templateService from "../services/template.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { ScheduledMessageStatus, ScheduleTiming } from "../types/schedule.types";
+import { getPagination, parseDateParam, toPaginatedResult } from "../utils/pagination";
+import { validateOutboundMessage } from "../utils/message.validator";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const SCHEDULE_STATUSES: ScheduledMessageStatus[] = ["pending", "sending", "sent", "failed", "cancelled", "missed"];
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string, issues: string[] = []): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.details = issues.length > 0 ? { issues } : undefined;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Picks the timing fields of a request body
+ */
+const timingOf = (body: Record<string, any>): ScheduleTiming => ({
+    sendAt: body.sendAt,
+    localTime: body.localTime,
+    timezone: body.timezone,
+    after: body.after,
+});
+
+// ==================================================
+// Schedule Controller Functions
+// ==================================================
+
+/**
+ * Lists scheduled messages
+ * @param req - Express request object (query: status, waId, from, until — on sendAt, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listSchedules = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { status, waId, from, until } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof status === "string" && status) {
+            const statuses = status.split(",");
+            if (!statuses.every((item) => SCHEDULE_STATUSES.includes(item as ScheduledMessageStatus))) {
+                return next(validationError(`status must be one of ${SCHEDULE_STATUSES.join(", ")}`));
+            }
+            filter.status = { $in: statuses };
+        }
+        if (typeof waId === "string" && waId) filter.waId = waId;
+
+        const after = parseDateParam(from);
+        const before = parseDateParam(until);
+        if (after || before) {
+            filter.sendAt = {};
+            if (after) filter.sendAt.$gte = after;
+            if (before) filter.sendAt.$lte = before;
+        }
+
+        // ===== QUERY SCHEDULES =====
+        const [items, total] = await Promise.all([
+            scheduledMessageModel.find(filter).sort({ sendAt: 1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            scheduledMessageModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Scheduled messages fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Schedules a message or template
+ * @param req - Express request object
+ *   (body: message — same shape as POST /messages, and one of sendAt, localTime + timezone, after; cancelOnReply)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const createSchedule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const body = req.body ?? {};
+
+        // ===== VALIDATE MESSAGE =====
+        const { message, issues } = validateOutboundMessage(body.message);
+        if (!message) {
+            return next(validationError(`Invalid message: ${issues.join("; ")}`, issues));
+        }
+        if (message.type === "template") {
+            await templateService.validatePayload(message.template);
+        }
+        if (body.cancelOnReply !== undefined && typeof body.cancelOnReply !== "boolean") {
+            return next(validationError("cancelOnReply must be a boolean"));
+        }
+
+        // ===== SCHEDULE =====
+        const schedule = await scheduleService.create(message, timingOf(body), body.cancelOnReply ?? false);
+
+        const response: ResponseType = {
+            success: true,
+            status: 201,
+            message: "Message scheduled successfully",
+            data: schedule,
+        };
+        res.status(201).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one scheduled message
+ * @param req - Express request object (params: id)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getSchedule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const schedule = await scheduleService.getOrFail(req.params.id as string);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Scheduled message fetched successfully",
+            data: schedule,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Moves a pending scheduled message to a new time
+ * @param req - Express request object (params: id, body: one of sendAt, localTime + timezone, after)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const rescheduleSchedule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const schedule = await scheduleService.reschedule(req.params.id as string, timingOf(req.body ?? {}));
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Message rescheduled successfully",
+            data: schedule,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Cancels a pending scheduled message
+ * @param req - Express request object (params: id, body: reason)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const cancelSchedule = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const reason = req.body?.reason;
+        if (reason !== undefined && typeof reason !== "string") {
+            return next(validationError("reason must be a string"));
+        }
+
+        const schedule = await scheduleService.cancel(req.params.id as string, reason || undefined);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Scheduled message cancelled",
+            data: schedule,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listSchedules, createSchedule, getSchedule, rescheduleSchedule, cancelSchedule }
@@ -0,0 +1,236 @@
+import { Request, Response, NextFunction } from "express";
+import mongoose from "mongoose";
+import { contactModel } from "../models/contact.model";
+import { templateModel } from "../models/template.model";
+import templateService from "../services/template.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResponseType } from "../types/response";
+import { getPagination, toPaginatedResult } from "../utils/pagination";
+import { escapeRegex } from "../utils/regex";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Finds a template by internal ID or Meta template ID
+ */
+const findTemplate = (id: string) =>
+    templateModel.findOne(mongoose.isValidObjectId(id) ? { _id: id } : { templateId: id });
+
+/**
+ * Builds a not found error for a template
+ */
+const templateNotFound = (id: string): CustomError => {
+    const error: CustomError = new Error(`Template ${id} not found`);
+    error.status = 404;
+    error.errorCode = ErrorCode.NOT_FOUND;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Reads the optional variables object of a request body
+ */
+const readVariables = (variables: unknown): Record<string, any> | null => {
+    if (variables === undefined) return {};
+    if (typeof variables !== "object" || variables === null || Array.isArray(variables)) return null;
+    return variables as Record<string, any>;
+};
+
+// ==================================================
+// Template Controller Functions
+// ==================================================
+
+/**
+ * Lists synced message templates
+ * @param req - Express request object (query: q, status, language, category, page, limit)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const listTemplates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const { q, status, language, category } = req.query;
+        const pagination = getPagination(req.query);
+
+        // ===== BUILD FILTER =====
+        const filter: Record<string, any> = {};
+        if (typeof q === "string" && q.trim()) filter.name = new RegExp(escapeRegex(q.trim()), "i");
+        if (typeof status === "string" && status) filter.status = { $in: status.toUpperCase().split(",") };
+        if (typeof language === "string" && language) filter.language = language;
+        if (typeof category === "string" && category) filter.category = category.toUpperCase();
+
+        // ===== QUERY TEMPLATES =====
+        const [items, total] = await Promise.all([
+            templateModel.find(filter).sort({ name: 1, language: 1 }).skip(pagination.skip).limit(pagination.limit).lean(),
+            templateModel.countDocuments(filter),
+        ]);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Templates fetched successfully",
+            data: toPaginatedResult(items, total, pagination),
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Syncs message templates from the Graph API
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const syncTemplates = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const result = await templateService.sync();
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Templates synced successfully",
+            data: result,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Fetches one template with the parameters it expects and a preview
+ * @param req - Express request object (params: id — internal or Meta template ID)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const getTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const id = req.params.id as string;
+        const template = await findTemplate(id);
+
+        if (!template) {
+            return next(templateNotFound(id));
+        }
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Template fetched successfully",
+            data: {
+                template,
+                parameters: templateService.slotsOf(template),
+                preview: templateService.render(template),
+            },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Renders a template preview
+ * With a waId, variables are filled from that contact like a real send
+ * @param req - Express request object (params: id, body: variables, waId)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const previewTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const id = req.params.id as string;
+        const { waId } = req.body ?? {};
+        const values = readVariables(req.body?.variables);
+        if (!values) return next(validationError("variables must be an object"));
+        if (waId !== undefined && typeof waId !== "string") return next(validationError("waId must be a string"));
+
+        const template = await findTemplate(id);
+        if (!template) {
+            return next(templateNotFound(id));
+        }
+
+        const variables = waId
+            ? templateService.resolveVariables(template, waId, await contactModel.findOne({ waId }), values)
+            : values;
+        const missing = templateService
+            .slotsOf(template)
+            .filter((slot) => variables[slot.variable] === undefined)
+            .map((slot) => slot.variable);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Template preview rendered successfully",
+            data: {
+                preview: templateService.render(template, variables),
+                variables,
+                missing,
+            },
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+/**
+ * Sends a template to a contact
+ * Named parameters default to the contact attribute of the same name
+ * @param req - Express request object (params: id, body: waId, variables)
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const sendTemplate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const id = req.params.id as string;
+        const { waId } = req.body ?? {};
+        const values = readVariables(req.body?.variables);
+
+        if (typeof waId !== "string" || !/^\d{7,15}$/.test(waId)) {
+            return next(validationError("waId must be a phone number in international format (digits only)"));
+        }
+        if (!values) return next(validationError("variables must be an object"));
+
+        const template = await findTemplate(id);
+        if (!template) {
+            return next(templateNotFound(id));
+        }
+
+        const result = await templateService.send(waId, template.name, template.language, values);
+
+        const response: ResponseType = {
+            success: true,
+            status: 200,
+            message: "Template sent successfully",
+            data: result,
+        };
+        res.status(200).json(response);
+    }
+    catch(error){
+      // Pass error to error handling middleware
+      next(error);
+    }
+}
+
+export { listTemplates, syncTemplates, getTemplate, previewTemplate, sendTemplate }
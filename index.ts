@@ -25,6 +25,19 @@ import { ServerSetup } from './server';
 import { connectDB, closeDB } from "./config/database.config";
 // Application configuration and validation
 import config, { validateConfig } from "./config/app.config";
+// Background job worker
+import queueService from "./services/queue.service";
+import { registerJobHandlers } from "./services/job.handlers";
+// Conversation flow engine
+import flowService from "./services/flow.service";
+// Message templates
+import templateService from "./services/template.service";
+// Customer service window checks
+import windowService from "./services/window.service";
+// Scheduled messages
+import scheduleService from "./services/schedule.service";
+// Admin roles
+import rbacService from "./services/rbac.service";
 
 // ==================================================
 // Server Manager Class
@@ -97,6 +110,19 @@ class ServerManager {
       console.log('🛑 Initiating graceful shutdown...');
       
       try {
+        // ===== STOP JOB WORKER =====
+        // Stop claiming jobs and let in-flight jobs finish before the database closes
+        console.log('⚙️ Stopping job worker...');
+        await queueService.stop();
+
+        // ===== STOP MESSAGE SCHEDULER =====
+        // Let the scheduled message being sent finish before the database closes
+        await scheduleService.stop();
+
+        // ===== STOP FLOW SESSION SWEEP AND WINDOW CHECK =====
+        flowService.stop();
+        windowService.stop();
+
         // ===== CLOSE DATABASE CONNECTION =====
         // Properly close MongoDB connection to prevent data corruption
         console.log('📡 Closing MongoDB connection...');
@@ -159,8 +185,10 @@ class ServerManager {
    * 1. Validate application configuration
    * 2. Setup process handlers for graceful shutdown
    * 3. Connect to MongoDB database
-   * 4. Start the Express server
-   * 5. Handle any startup errors
+   * 4. Load flow definitions, start the flow session sweep and window check, sync templates
+   * 5. Start the job worker
+   * 6. Start the Express server
+   * 7. Handle any startup errors
    */
   public async start(): Promise<void> {
     try {
@@ -182,6 +210,37 @@ class ServerManager {
       await connectDB();
       console.log('✅ MongoDB connection established');
 
+      // ===== ADMIN ROLES =====
+      // Make sure someone can manage roles after upgrading an install without them
+      await rbacService.ensureOwner();
+
+      // ===== FLOW ENGINE =====
+      // Load flow definitions from the flows directory and expire idle sessions periodically
+      console.log('🔀 Loading conversation flows...');
+      const flowCount = await flowService.loadFromDirectory();
+      flowService.start();
+      console.log(`✅ ${flowCount} flow definition(s) loaded`);
+
+      // ===== SERVICE WINDOWS =====
+      // Warn dashboards shortly before customer service windows close
+      windowService.start();
+
+      // ===== MESSAGE TEMPLATES =====
+      // Refresh template definitions in the background; a failed sync does not block startup
+      templateService.sync().catch((error) =>
+        console.error('❌ Initial template sync failed:', error instanceof Error ? error.message : String(error)));
+
+      // ===== JOB WORKER =====
+      // Register job handlers and start processing queued webhook payloads
+      console.log('⚙️ Starting job worker...');
+      registerJobHandlers();
+      queueService.start();
+      console.log('✅ Job worker started');
+
+      // ===== MESSAGE SCHEDULER =====
+      // Send due scheduled messages, catching up on those missed while stopped
+      scheduleService.start();
+
       // ===== SERVER STARTUP =====
       // Start the Express server with all middleware and routes
       console.log('🚀 Starting Prepay24 backend API server...');
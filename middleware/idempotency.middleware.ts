@@ -0,0 +1,105 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { idempotencyKeyModel } from '../models/idempotency.key.model';
+import { CustomError, ErrorCode } from '../types/error.types';
+
+/**
+ * Idempotency Middleware - Honours the Idempotency-Key request header
+ * Keys are scoped to the signed-in admin and endpoint. The first request
+ * with a key is processed and its response stored; retries with the same
+ * key and body get that response back without running the handler again.
+ * Failures release the key for a retry, except DELIVERY_UNKNOWN: the send
+ * reached Meta without an answer and may have gone out, so that outcome is
+ * replayed like a success. Requests without the header are not affected.
+ */
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Builds a conflict or validation error for a rejected key
+ */
+const keyError = (message: string, status: number, errorCode: ErrorCode): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = status;
+    error.errorCode = errorCode;
+    error.color = 'yellow';
+    return error;
+};
+
+/**
+ * Hashes the request body so a key cannot be reused for a different request
+ */
+const hashBody = (body: unknown): string =>
+    crypto.createHash('sha256').update(JSON.stringify(body ?? null)).digest('hex');
+
+// ==================================================
+// Middleware
+// ==================================================
+
+/**
+ * Replays stored responses for repeated Idempotency-Key headers
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+const idempotency = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const key = req.header('Idempotency-Key');
+        if (key === undefined) return next();
+
+        // ===== VALIDATE KEY =====
+        if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+            return next(keyError(`Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`, 400, ErrorCode.VALIDATION_ERROR));
+        }
+
+        const scope = `${String(req.admin?._id ?? 'anonymous')} ${req.method} ${req.baseUrl}${req.path}`;
+        const requestHash = hashBody(req.body);
+
+        // ===== CLAIM KEY =====
+        try {
+            await idempotencyKeyModel.create({ key, scope, requestHash });
+        } catch (error) {
+            if ((error as { code?: number }).code !== 11000) throw error;
+
+            const existing = await idempotencyKeyModel.findOne({ key, scope }).lean();
+            if (existing && existing.requestHash !== requestHash) {
+                return next(keyError('Idempotency-Key was already used with a different request', 409, ErrorCode.CONFLICT));
+            }
+            if (!existing || existing.status !== 'completed') {
+                return next(keyError('A request with this Idempotency-Key is still being processed', 409, ErrorCode.CONFLICT));
+            }
+
+            // ===== REPLAY STORED RESPONSE =====
+            res.setHeader('Idempotent-Replayed', 'true');
+            res.status(existing.responseStatus ?? 200).json(existing.responseBody);
+            return;
+        }
+
+        // ===== STORE OUTCOME =====
+        // Successes and sends with an unknown delivery are kept for replay; other failures release the key
+        const json = res.json.bind(res);
+        res.json = (body: unknown) => {
+            const deliveryUnknown = (body as { errorCode?: string } | null)?.errorCode === ErrorCode.DELIVERY_UNKNOWN;
+            const kept = res.statusCode < 400 || deliveryUnknown;
+            const outcome = kept
+                ? idempotencyKeyModel.updateOne(
+                      { key, scope },
+                      { $set: { status: 'completed', responseStatus: res.statusCode, responseBody: body, completedAt: new Date() } }
+                  )
+                : idempotencyKeyModel.deleteOne({ key, scope });
+            outcome.catch((error) => console.error(`❌ Failed to record Idempotency-Key ${key}:`, error));
+            return json(body);
+        };
+
+        next();
+    } catch (error) {
+        // Pass error to error handling middleware
+        next(error);
+    }
+};
+
+export default idempotency;
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import rbacService from '../services/rbac.service';
+import { CustomError, ErrorCode } from '../types/error.types';
+import { Permission } from '../types/rbac.types';
+
+/**
+ * Permission Middleware - Restricts routes to admins with the given permissions
+ * Runs after verifyToken; the admin's role and individual grants are read
+ * from the admin loaded for the request, so changes apply immediately.
+ */
+
+/**
+ * Builds middleware requiring every given permission
+ * @param permissions - Permissions the admin must have
+ * @returns Express middleware that fails with FORBIDDEN otherwise
+ */
+const requirePermission = (...permissions: Permission[]): RequestHandler =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        // ===== CHECK PERMISSIONS =====
+        if (req.admin && rbacService.hasPermissions(req.admin, permissions)) {
+            return next();
+        }
+
+        const error: CustomError = new Error(`You need the ${permissions.join(', ')} permission${permissions.length > 1 ? 's' : ''} for this action`);
+        error.status = 403;
+        error.errorCode = ErrorCode.FORBIDDEN;
+        error.details = { required: permissions, role: req.admin?.role ?? null };
+        error.color = 'yellow';
+        next(error);
+    };
+
+export default requirePermission;
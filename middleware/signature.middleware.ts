@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import config from '../config/app.config';
+import { CustomError, ErrorCode } from '../types/error.types';
+import { SignatureMetrics } from '../types/server.types';
+
+/**
+ * Webhook Signature Middleware - Verifies Meta's X-Hub-Signature-256 header
+ * Meta signs every webhook POST with an HMAC-SHA256 of the raw request body,
+ * keyed with the app secret. Calls without a valid signature are rejected,
+ * counted and logged before they reach the webhook controller.
+ */
+
+// Extend Express Request type to carry the unparsed request body
+declare global {
+    namespace Express {
+        interface Request {
+            rawBody?: Buffer; // Raw body captured by the JSON parser for signature checks
+        }
+    }
+}
+
+// ==================================================
+// Rejection Metrics
+// ==================================================
+
+/**
+ * Counters for rejected webhook calls since process start
+ */
+const metrics: SignatureMetrics = {
+    rejected: 0,
+    lastRejectedAt: null,
+    reasons: {},
+};
+
+/**
+ * Returns a snapshot of the signature rejection counters
+ * @returns Copy of the current metrics
+ */
+export const getSignatureMetrics = (): SignatureMetrics => ({
+    ...metrics,
+    reasons: { ...metrics.reasons },
+});
+
+/**
+ * Records and logs a rejected webhook call, then builds the error to forward
+ * @param req - Rejected request
+ * @param reason - Short machine readable reason
+ * @param message - Error message returned to the caller
+ */
+const reject = (req: Request, reason: string, message: string): CustomError => {
+    // ===== UPDATE COUNTERS =====
+    metrics.rejected += 1;
+    metrics.lastRejectedAt = new Date().toISOString();
+    metrics.reasons[reason] = (metrics.reasons[reason] || 0) + 1;
+
+    // ===== LOG REJECTION =====
+    console.warn(`🚫 Rejected webhook call from ${req.ip}: ${reason} (total rejected: ${metrics.rejected})`);
+
+    const error: CustomError = new Error(message);
+    error.status = 401;
+    error.errorCode = ErrorCode.INVALID_SIGNATURE;
+    error.color = 'red';
+    return error;
+};
+
+// ==================================================
+// Signature Verification
+// ==================================================
+
+/**
+ * Verifies the X-Hub-Signature-256 header of a webhook call
+ * The expected signature is "sha256=" followed by the hex HMAC of the raw body
+ * @param req - Express request object
+ * @param res - Express response object
+ * @param next - Express next function for error handling
+ */
+const verifyWebhookSignature = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): void => {
+    // ===== VALIDATE APP SECRET =====
+    // Without a secret no call can be verified, so refuse everything
+    const secret = config.whatsapp.appSecret;
+    if (!secret) {
+        const error: CustomError = new Error('Webhook app secret not configured');
+        error.status = 500;
+        error.errorCode = ErrorCode.INTERNAL_SERVER_ERROR;
+        error.color = 'red';
+        return next(error);
+    }
+
+    // ===== EXTRACT SIGNATURE HEADER =====
+    const header = req.get('x-hub-signature-256');
+    if (!header) {
+        return next(reject(req, 'missing_signature', 'Missing X-Hub-Signature-256 header'));
+    }
+
+    const [scheme, signature] = header.split('=');
+    if (scheme !== 'sha256' || !signature || !/^[a-f0-9]{64}$/i.test(signature)) {
+        return next(reject(req, 'malformed_signature', 'Malformed X-Hub-Signature-256 header'));
+    }
+
+    // ===== VALIDATE RAW BODY =====
+    // The raw body is captured by the JSON parser in ServerSetup.setupMiddleware
+    if (!req.rawBody) {
+        return next(reject(req, 'missing_body', 'Webhook body could not be verified'));
+    }
+
+    // ===== COMPARE SIGNATURES =====
+    // timingSafeEqual prevents leaking how many leading bytes matched
+    const expected = crypto.createHmac('sha256', secret).update(req.rawBody).digest();
+    const received = Buffer.from(signature, 'hex');
+
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+        return next(reject(req, 'invalid_signature', 'Invalid X-Hub-Signature-256 signature'));
+    }
+
+    next();
+};
+
+export default verifyWebhookSignature;
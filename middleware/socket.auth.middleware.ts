@@ -0,0 +1,64 @@
+import { Socket } from 'socket.io';
+import authService from '../services/auth.service';
+import rbacService from '../services/rbac.service';
+import { CustomError } from '../types/error.types';
+
+/**
+ * Socket Authentication Middleware - Handles admin token verification for Socket.IO
+ * Runs on the handshake of every WebSocket connection: the admin JWT and its
+ * session are verified exactly like verifyToken does for HTTP routes, and
+ * only admins who may read messages are let in. The socket is closed when
+ * its access token expires, so clients reconnect with a refreshed token.
+ */
+
+/**
+ * Reads the access token from the handshake
+ * Clients pass it as `auth: { token }`, or as a Bearer Authorization header
+ */
+const tokenOf = (socket: Socket): string | null => {
+    const authToken = socket.handshake.auth?.token;
+    if (typeof authToken === 'string' && authToken) return authToken.replace(/^Bearer /, '');
+
+    const authHeader = socket.handshake.headers.authorization;
+    if (authHeader?.startsWith('Bearer ')) return authHeader.split(' ')[1];
+    return null;
+};
+
+/**
+ * Verifies the admin JWT of a WebSocket handshake
+ * @param socket - Connecting socket
+ * @param next - Socket.IO next function; an error refuses the connection
+ */
+const verifySocketToken = async (socket: Socket, next: (error?: Error) => void): Promise<void> => {
+    try {
+        // ===== EXTRACT TOKEN =====
+        const token = tokenOf(socket);
+        if (!token) return next(new Error('No Bearer token provided'));
+
+        // ===== VERIFY TOKEN AND ADMIN =====
+        const { admin, payload } = await authService.verify(token);
+        if (!rbacService.hasPermissions(admin, ['messages:read'])) {
+            return next(new Error('You need the messages:read permission for live updates'));
+        }
+
+        // ===== ATTACH ADMIN TO SOCKET =====
+        socket.data.adminId = String(admin._id);
+        socket.data.auth = payload;
+
+        // ===== DISCONNECT ON EXPIRY =====
+        const expiry = setTimeout(() => socket.disconnect(true), Math.max(payload.exp * 1000 - Date.now(), 0));
+        expiry.unref();
+        socket.once('disconnect', () => clearTimeout(expiry));
+
+        next();
+    } catch (error) {
+        // ===== HANDLE AUTHENTICATION ERRORS =====
+        // Invalid, expired or revoked tokens and blocked admins
+        if ((error as CustomError).errorCode) return next(new Error((error as CustomError).message));
+
+        console.error('❌ WebSocket authentication failed:', error);
+        next(new Error('Authentication failed'));
+    }
+};
+
+export default verifySocketToken;
@@ -1,5 +1,4 @@
 import multer from 'multer';
-import path from 'path';
 
 /**
  * File Upload Middleware - Handles file uploads with validation and error handling
@@ -17,36 +16,124 @@ import path from 'path';
  */
 const storage = multer.memoryStorage();
 
+/**
+ * WhatsApp media limits per media type
+ * MIME types WhatsApp accepts for each type and the largest file it takes
+ */
+export const WHATSAPP_MEDIA_LIMITS = {
+    audio: {
+        mimeTypes: ['audio/aac', 'audio/amr', 'audio/mpeg', 'audio/mp4', 'audio/ogg'],
+        maxBytes: 16 * 1024 * 1024,      // 16MB
+    },
+    document: {
+        mimeTypes: [
+            'text/plain',
+            'application/pdf',
+            'application/msword',
+            'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+            'application/vnd.ms-excel',
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            'application/vnd.ms-powerpoint',
+            'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+        ],
+        maxBytes: 100 * 1024 * 1024,     // 100MB
+    },
+    image: {
+        mimeTypes: ['image/jpeg', 'image/png'],
+        maxBytes: 5 * 1024 * 1024,       // 5MB
+    },
+    sticker: {
+        mimeTypes: ['image/webp'],
+        maxBytes: 500 * 1024,            // 500KB (animated; static stickers are limited to 100KB)
+    },
+    video: {
+        mimeTypes: ['video/3gpp', 'video/mp4'],
+        maxBytes: 16 * 1024 * 1024,      // 16MB
+    },
+} as const;
+
+export type WhatsAppMediaType = keyof typeof WHATSAPP_MEDIA_LIMITS;
+
+/**
+ * Formats a byte count as KB or MB
+ */
+const formatBytes = (bytes: number): string =>
+    bytes >= 1024 * 1024 ? `${bytes / (1024 * 1024)}MB` : `${bytes / 1024}KB`;
+
+/**
+ * Largest file accepted for any media type
+ */
+const MAX_FILE_SIZE = Math.max(...Object.values(WHATSAPP_MEDIA_LIMITS).map((limit) => limit.maxBytes));
+
+/**
+ * Finds the media types that accept a MIME type
+ * @param mimeType - MIME type of the file (parameters such as "; codecs=opus" are ignored)
+ * @returns Matching media types, most specific first
+ */
+export const mediaTypesFor = (mimeType: string): WhatsAppMediaType[] => {
+    const base = mimeType.split(';')[0].trim().toLowerCase();
+    return (Object.keys(WHATSAPP_MEDIA_LIMITS) as WhatsAppMediaType[])
+        .filter((type) => (WHATSAPP_MEDIA_LIMITS[type].mimeTypes as readonly string[]).includes(base));
+};
+
+/**
+ * Checks an uploaded file against the limits of a media type
+ * The size can only be checked once the file is received, so this runs after multer
+ * @param file - Uploaded file
+ * @param type - Requested media type; inferred from the MIME type when omitted
+ * @returns Media type of the file, or an error message
+ */
+export const checkMediaLimits = (
+    file: Express.Multer.File,
+    type?: string
+): { type: WhatsAppMediaType } | { error: string } => {
+    const candidates = mediaTypesFor(file.mimetype);
+    const mediaType = (type ?? candidates[0]) as WhatsAppMediaType | undefined;
+
+    // ===== VALIDATE TYPE =====
+    if (!mediaType || !WHATSAPP_MEDIA_LIMITS[mediaType]) {
+        return { error: `Unsupported media type. Supported types are ${Object.keys(WHATSAPP_MEDIA_LIMITS).join(', ')}.` };
+    }
+    if (!candidates.includes(mediaType)) {
+        return { error: `Invalid file type. ${mediaType} files must be one of ${WHATSAPP_MEDIA_LIMITS[mediaType].mimeTypes.join(', ')}.` };
+    }
+
+    // ===== VALIDATE SIZE =====
+    const { maxBytes } = WHATSAPP_MEDIA_LIMITS[mediaType];
+    if (file.size > maxBytes) {
+        return { error: `File size too large. Maximum size for ${mediaType} is ${formatBytes(maxBytes)}.` };
+    }
+
+    return { type: mediaType };
+};
+
 /**
  * File filter function to validate uploaded files
- * Checks file MIME types and allows only specific file formats
+ * Checks file MIME types and allows only the formats WhatsApp accepts
  * @param req - Express request object
  * @param file - Uploaded file object
  * @param cb - Multer callback function
  */
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-    // ===== DEFINE ALLOWED FILE TYPES =====
-    // List of MIME types that are allowed for upload
-    const allowedMimeTypes = ['application/pdf', 'image/png', 'image/jpg', 'image/jpeg'];
-    
     // ===== VALIDATE FILE TYPE =====
-    // Check if the uploaded file's MIME type is in the allowed list
-    if (allowedMimeTypes.includes(file.mimetype)) {
+    // Check if any WhatsApp media type accepts the uploaded file's MIME type
+    if (mediaTypesFor(file.mimetype).length > 0) {
         cb(null, true); // Accept the file
     } else {
-        cb(new Error('Invalid file type. Only PDF, PNG, JPG, and JPEG files are allowed.'));
+        cb(new Error(`Invalid file type. ${file.mimetype} is not supported by WhatsApp.`));
     }
 };
 
 /**
  * Configure multer with storage, file filter, and limits
  * Sets up the main multer instance with all necessary configurations
+ * Per-type size limits are checked with checkMediaLimits once the file is received
  */
 const upload = multer({
     storage: storage,                    // Use memory storage
     fileFilter: fileFilter,              // Apply file type validation
     limits: {
-        fileSize: 10 * 1024 * 1024,     // 10MB file size limit
+        fileSize: MAX_FILE_SIZE,         // Largest WhatsApp media (100MB documents)
         files: 5                         // Maximum 5 files per request
     }
 });
@@ -86,7 +173,7 @@ export const handleUploadError = (error: any, req: any, res: any, next: any) =>
         if (error.code === 'LIMIT_FILE_SIZE') {
             return res.status(400).json({
                 success: false,
-                message: 'File size too large. Maximum size is 10MB.'
+                message: `File size too large. Maximum size is ${formatBytes(MAX_FILE_SIZE)}.`
             });
         }
         
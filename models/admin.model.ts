@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ADMIN_ROLES, AdminRole, Permission, PERMISSIONS } from '../types/rbac.types';
 
 // ==================================================
 // Types and Interfaces
@@ -8,7 +9,10 @@ import bcrypt from 'bcryptjs';
 
 export interface MFA {
   isEnabled: boolean;
-  secret: string;
+  secret: string;              // AES-encrypted base32 TOTP secret
+  recoveryCodes: string[];     // SHA-256 hashes of unused recovery codes
+  lastUsedStep?: number;       // Time step of the last accepted code, refused again
+  enabledAt?: Date;
 }
 
 export interface LastLogin {
@@ -22,15 +26,22 @@ export interface IUser extends Document {
   email: string;
   password: string;
   passwordScore:number;
+  passwordHistory: string[];
   mfa: MFA;
   flag: boolean;
+  role: AdminRole;
+  permissions: Permission[];
   lastLogin?: LastLogin;
   failedLoginAttempts: number;
+  lockedUntil?: Date | null;
+  tokenVersion: number;
   createdAt: Date;
   updatedAt: Date;
   
   // Instance methods
   comparePassword(candidatePassword: string): Promise<boolean>;
+  isLocked(): boolean;
+  lockFor(ms: number): void;
   resetFailedLoginAttempts(): void;
   incrementFailedLoginAttempts(): void;
   updateLastLogin(ipAddress?: string, agent?: string): void;
@@ -44,6 +55,9 @@ const MFASchema = new Schema<MFA>(
   {
     isEnabled: { type: Boolean, default: false },
     secret: { type: String },
+    recoveryCodes: { type: [String], default: [] },
+    lastUsedStep: { type: Number },
+    enabledAt: { type: Date },
   },
   { _id: false }
 );
@@ -81,14 +95,30 @@ const adminSchema = new Schema<IUser>(
       required: true,
       default: 0,
     },
+    passwordHistory: {
+      type: [String],
+      default: [],
+      select: false, // Hashes of previous passwords, newest first
+    },
     mfa: {
       type: MFASchema,
-      default: { isEnabled: false, secret:"N/A" },
+      default: { isEnabled: false, secret:"N/A", recoveryCodes: [] },
     },
     flag: {
       type: Boolean,
       default: false
     },
+    role: {
+      type: String,
+      enum: ADMIN_ROLES,
+      default: 'viewer',
+      index: true,
+    },
+    permissions: {
+      type: [String],
+      enum: PERMISSIONS,
+      default: [], // Granted on top of the role's permissions
+    },
     lastLogin: {
       type: LastLoginSchema,
       default: null,
@@ -97,6 +127,14 @@ const adminSchema = new Schema<IUser>(
       type: Number,
       default: 0,
     },
+    lockedUntil: {
+      type: Date,
+      default: null, // Set after too many failed logins
+    },
+    tokenVersion: {
+      type: Number,
+      default: 0, // Bumped to invalidate every issued token
+    },
   },
   {
     timestamps: true,
@@ -104,8 +142,9 @@ const adminSchema = new Schema<IUser>(
       virtuals: true,
       transform: (_, ret) => {
         delete (ret as any)._id;
-        delete (ret as any).id;
         delete (ret as any).password;
+        delete (ret as any).passwordHistory;
+        if ((ret as any).mfa) (ret as any).mfa = { isEnabled: (ret as any).mfa.isEnabled, enabledAt: (ret as any).mfa.enabledAt };
         return ret;
       },
     },
@@ -113,8 +152,9 @@ const adminSchema = new Schema<IUser>(
       virtuals: true,
       transform: (_, ret) => {
         delete (ret as any)._id;
-        delete (ret as any).id;
         delete (ret as any).password;
+        delete (ret as any).passwordHistory;
+        if ((ret as any).mfa) (ret as any).mfa = { isEnabled: (ret as any).mfa.isEnabled, enabledAt: (ret as any).mfa.enabledAt };
         return ret;
       },
     },
@@ -183,10 +223,28 @@ adminSchema.methods.comparePassword = async function (candidatePassword: string)
 };
 
 /**
- * Reset failed login attempts
+ * Check whether the account is locked after failed logins
+ * @returns boolean - True while the lock has not expired
+ */
+adminSchema.methods.isLocked = function (): boolean {
+  return !!this.lockedUntil && this.lockedUntil.getTime() > Date.now();
+};
+
+/**
+ * Lock the account and start counting failed attempts again
+ * @param ms - Lock duration in milliseconds
+ */
+adminSchema.methods.lockFor = function (ms: number): void {
+  this.lockedUntil = new Date(Date.now() + ms);
+  this.failedLoginAttempts = 0;
+};
+
+/**
+ * Reset failed login attempts and clear any lock
  */
 adminSchema.methods.resetFailedLoginAttempts = function (): void {
   this.failedLoginAttempts = 0;
+  this.lockedUntil = null;
 };
 
 /**
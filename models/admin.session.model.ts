@@ -0,0 +1,111 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export type SessionRevokeReason = 'logout' | 'revoked' | 'reuse' | 'outdated';
+
+export interface IAdminSession extends Document {
+  adminId: Types.ObjectId;
+  refreshTokenHash: string;
+  rotatedTokenHashes: string[];
+  tokenVersion: number;
+  ipAddress?: string;
+  userAgent?: string;
+  label: string;
+  rotations: number;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const adminSessionSchema = new Schema<IAdminSession>(
+  {
+    adminId: {
+      type: Schema.Types.ObjectId,
+      ref: 'admins',
+      required: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false, // SHA-256 of the current refresh token
+    },
+    rotatedTokenHashes: {
+      type: [String],
+      default: [],
+      select: false, // Recently replaced refresh tokens; presenting one again revokes the session
+    },
+    tokenVersion: {
+      type: Number,
+      required: true, // Admin tokenVersion at sign-in; the session dies when it changes
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    label: {
+      type: String,
+      default: 'Unknown Browser on Unknown OS', // getBrowserOnOS summary of the user agent
+    },
+    rotations: {
+      type: Number,
+      default: 0,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true, // Extended on every refresh
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'reuse', 'outdated'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_, ret) => {
+        delete (ret as any)._id;
+        delete (ret as any).refreshTokenHash;
+        delete (ret as any).rotatedTokenHashes;
+        return ret;
+      },
+    },
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+adminSessionSchema.index({ adminId: 1, revokedAt: 1 });
+
+// Drop sessions once they can no longer be refreshed
+adminSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const adminSessionModel = mongoose.model<IAdminSession>('admin_sessions', adminSessionSchema);
+
+export { adminSessionModel };
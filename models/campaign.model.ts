@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CampaignAudience, CampaignStatus, CampaignTemplate } from '../types/campaign.types';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface ICampaign extends Document {
+  name: string;
+  description?: string;
+  status: CampaignStatus;
+  audience: CampaignAudience;
+  template: CampaignTemplate;
+  messagesPerSecond?: number;
+  scheduledAt?: Date | null;
+  startedAt?: Date;
+  pausedAt?: Date | null;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  audienceResolvedAt?: Date;
+  recipientCount: number;
+  leaseUntil?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const campaignSchema = new Schema<ICampaign>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ['draft', 'scheduled', 'running', 'paused', 'completed', 'cancelled'],
+      default: 'draft',
+      index: true,
+    },
+    audience: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    template: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    messagesPerSecond: {
+      type: Number, // Lower than the phone number's throughput to spread a campaign out
+    },
+    scheduledAt: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    pausedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    audienceResolvedAt: {
+      type: Date, // Recipients are stored once, when the campaign first starts
+    },
+    recipientCount: {
+      type: Number,
+      default: 0,
+    },
+    leaseUntil: {
+      type: Date, // Held by the instance sending the campaign
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+campaignSchema.index({ createdAt: -1 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const campaignModel = mongoose.model<ICampaign>('campaigns', campaignSchema);
+
+export { campaignModel };
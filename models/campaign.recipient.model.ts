@@ -0,0 +1,98 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CampaignRecipientStatus } from '../types/campaign.types';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface ICampaignRecipient extends Document {
+  campaignId: Types.ObjectId;
+  waId: string;
+  status: CampaignRecipientStatus;
+  messageId?: Types.ObjectId;
+  wamid?: string;
+  errorCode?: number | null;
+  errorMessage?: string;
+  claimedAt?: Date;
+  sentAt?: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+  failedAt?: Date;
+  repliedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const campaignRecipientSchema = new Schema<ICampaignRecipient>(
+  {
+    campaignId: {
+      type: Schema.Types.ObjectId,
+      ref: 'campaigns',
+      required: true,
+    },
+    waId: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sending', 'sent', 'delivered', 'read', 'failed', 'skipped'],
+      default: 'pending',
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'messages',
+    },
+    wamid: {
+      type: String,
+      index: true, // Delivery statuses are matched by wamid
+      sparse: true,
+    },
+    errorCode: {
+      type: Number,
+    },
+    errorMessage: {
+      type: String,
+    },
+    claimedAt: { type: Date },
+    sentAt: { type: Date },
+    deliveredAt: { type: Date },
+    readAt: { type: Date },
+    failedAt: { type: Date },
+    repliedAt: { type: Date },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * One recipient per contact and campaign
+ */
+campaignRecipientSchema.index({ campaignId: 1, waId: 1 }, { unique: true });
+
+/**
+ * Send order and report aggregation
+ */
+campaignRecipientSchema.index({ campaignId: 1, status: 1 });
+
+/**
+ * Reply attribution - recent sends to a contact
+ */
+campaignRecipientSchema.index({ waId: 1, sentAt: -1 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const campaignRecipientModel = mongoose.model<ICampaignRecipient>('campaign_recipients', campaignRecipientSchema);
+
+export { campaignRecipientModel };
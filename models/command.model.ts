@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { CommandAction } from '../types/command.types';
+import { ReceiptOptions } from '../types/receipt.types';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface ICommand extends Document {
+  name: string;
+  description?: string;
+  keywords: string[];
+  aliases: string[];
+  pattern?: string;
+  flags: string;
+  priority: number;
+  action: CommandAction;
+  receipts?: ReceiptOptions;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const commandSchema = new Schema<ICommand>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+    },
+    keywords: {
+      type: [String],
+      default: [], // Exact, case-sensitive matches
+    },
+    aliases: {
+      type: [String],
+      default: [], // Case-insensitive matches
+    },
+    pattern: {
+      type: String, // Regular expression source
+    },
+    flags: {
+      type: String,
+      default: 'i',
+    },
+    priority: {
+      type: Number,
+      default: 100, // Lower runs first
+    },
+    action: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    receipts: {
+      type: Schema.Types.Mixed, // Overrides of config.receipts
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const commandModel = mongoose.model<ICommand>('commands', commandSchema);
+
+export { commandModel };
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export type OptInStatus = 'opted_in' | 'opted_out' | 'unknown';
+
+export interface OptIn {
+  status: OptInStatus;
+  updatedAt?: Date;
+  source?: string;
+}
+
+export interface IContact extends Document {
+  waId: string;
+  profileName?: string;
+  name?: string;
+  language?: string;
+  timezone?: string;
+  tags: string[];
+  attributes: Record<string, any>;
+  optIn: OptIn;
+  firstSeenAt?: Date;
+  lastSeenAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const OptInSchema = new Schema<OptIn>(
+  {
+    status: {
+      type: String,
+      enum: ['opted_in', 'opted_out', 'unknown'],
+      default: 'unknown',
+    },
+    updatedAt: { type: Date },
+    source: { type: String },
+  },
+  { _id: false }
+);
+
+const contactSchema = new Schema<IContact>(
+  {
+    waId: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    profileName: {
+      type: String,
+      trim: true,
+    },
+    name: {
+      type: String,
+      trim: true,
+    },
+    language: {
+      type: String,
+      trim: true,
+    },
+    timezone: {
+      type: String, // IANA timezone used for scheduled messages (e.g. Asia/Kolkata)
+    },
+    tags: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    attributes: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    optIn: {
+      type: OptInSchema,
+      default: { status: 'unknown' },
+    },
+    firstSeenAt: {
+      type: Date,
+    },
+    lastSeenAt: {
+      type: Date,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false, // Keep an empty attributes object on new contacts
+  }
+);
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const contactModel = mongoose.model<IContact>('contacts', contactSchema);
+
+export { contactModel };
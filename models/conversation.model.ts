@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MessageDirection } from './message.model';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface IConversation extends Document {
+  contactWaId: string;
+  lastMessageAt?: Date;
+  lastMessagePreview?: string;
+  lastMessageType?: string;
+  lastDirection?: MessageDirection;
+  lastInboundAt?: Date;
+  lastOutboundAt?: Date;
+  windowWarnedAt?: Date;
+  messageCount: number;
+  unreadCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const conversationSchema = new Schema<IConversation>(
+  {
+    contactWaId: {
+      type: String,
+      required: true,
+      unique: true, // One conversation thread per contact
+    },
+    lastMessageAt: {
+      type: Date,
+      index: true,
+    },
+    lastMessagePreview: {
+      type: String,
+    },
+    lastMessageType: {
+      type: String,
+    },
+    lastDirection: {
+      type: String,
+      enum: ['inbound', 'outbound'],
+    },
+    lastInboundAt: {
+      type: Date,
+      index: true, // Service window checks
+    },
+    lastOutboundAt: {
+      type: Date,
+    },
+    windowWarnedAt: {
+      type: Date, // Last service window expiry warning
+    },
+    messageCount: {
+      type: Number,
+      default: 0,
+    },
+    unreadCount: {
+      type: Number,
+      default: 0, // Inbound messages since an admin last opened the thread
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const conversationModel = mongoose.model<IConversation>('conversations', conversationSchema);
+
+export { conversationModel };
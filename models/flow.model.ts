@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { FlowMessage, FlowNode } from '../types/flow.types';
+import { ReceiptOptions } from '../types/receipt.types';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export type FlowSource = 'api' | 'file';
+
+export interface IFlow extends Document {
+  key: string;
+  name: string;
+  description?: string;
+  triggers: string[];
+  isMenu: boolean;
+  isActive: boolean;
+  timeoutMinutes?: number;
+  timeoutMessage?: FlowMessage;
+  receipts?: ReceiptOptions;
+  start: string;
+  nodes: Record<string, FlowNode>;
+  source: FlowSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const flowSchema = new Schema<IFlow>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+    },
+    triggers: {
+      type: [String],
+      default: [],
+      index: true, // Lowercase keywords that start the flow
+    },
+    isMenu: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    timeoutMinutes: {
+      type: Number,
+    },
+    timeoutMessage: {
+      type: Schema.Types.Mixed,
+    },
+    receipts: {
+      type: Schema.Types.Mixed, // Overrides of config.receipts
+    },
+    start: {
+      type: String,
+      required: true,
+    },
+    nodes: {
+      type: Schema.Types.Mixed, // Validated by utils/flow.parser before saving
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ['api', 'file'],
+      default: 'api', // File flows are reloaded from the flows directory on startup
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const flowModel = mongoose.model<IFlow>('flows', flowSchema);
+
+export { flowModel };
@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export type FlowSessionStatus = 'active' | 'completed' | 'expired' | 'cancelled';
+
+export interface IFlowSession extends Document {
+  contactWaId: string;
+  flowKey: string;
+  nodeId: string;
+  variables: Record<string, unknown>;
+  status: FlowSessionStatus;
+  retries: number;
+  startedAt: Date;
+  lastInteractionAt: Date;
+  expiresAt?: Date;
+  endedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const flowSessionSchema = new Schema<IFlowSession>(
+  {
+    contactWaId: {
+      type: String,
+      required: true,
+      unique: true, // One flow session per contact; a new flow replaces the previous session
+    },
+    flowKey: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    nodeId: {
+      type: String,
+      required: true, // Ask node waiting for a reply while active, last node once ended
+    },
+    variables: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ['active', 'completed', 'expired', 'cancelled'],
+      default: 'active',
+    },
+    retries: {
+      type: Number,
+      default: 0, // Invalid replies to the current ask node
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastInteractionAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    endedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false, // Keep an empty variables object
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * Expiry sweep - finds active sessions past their inactivity timeout
+ */
+flowSessionSchema.index({ status: 1, expiresAt: 1 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const flowSessionModel = mongoose.model<IFlowSession>('flow_sessions', flowSessionSchema);
+
+export { flowSessionModel };
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import config from '../config/app.config';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export type IdempotencyKeyStatus = 'processing' | 'completed';
+
+export interface IIdempotencyKey extends Document {
+  key: string;
+  scope: string;
+  requestHash: string;
+  status: IdempotencyKeyStatus;
+  responseStatus?: number;
+  responseBody?: any;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    scope: {
+      type: String,
+      required: true, // Admin and endpoint the key was used on (e.g. "<adminId> POST /messages")
+    },
+    requestHash: {
+      type: String,
+      required: true, // SHA-256 of the request body
+    },
+    status: {
+      type: String,
+      enum: ['processing', 'completed'],
+      default: 'processing',
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * One record per key and endpoint
+ */
+idempotencyKeySchema.index({ key: 1, scope: 1 }, { unique: true });
+
+/**
+ * TTL index - keys can be reused once they expire
+ */
+idempotencyKeySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: config.idempotency.ttlSeconds }
+);
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const idempotencyKeyModel = mongoose.model<IIdempotencyKey>('idempotency_keys', idempotencyKeySchema);
+
+export { idempotencyKeyModel };
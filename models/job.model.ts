@@ -0,0 +1,110 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import config from '../config/app.config';
+import { JobStatus } from '../types/queue.types';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface IJob extends Document {
+  type: string;
+  payload: any;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt?: Date | null;
+  lockedBy?: string | null;
+  lastError?: string | null;
+  completedAt?: Date | null;
+  deadAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const jobSchema = new Schema<IJob>(
+  {
+    type: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'completed', 'dead'],
+      default: 'pending',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: config.queue.maxAttempts,
+    },
+    runAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedAt: {
+      type: Date,
+      default: null,
+    },
+    lockedBy: {
+      type: String,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    deadAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false, // Keep empty payload objects intact
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * Claim index - workers pick the oldest due pending job
+ */
+jobSchema.index({ status: 1, runAt: 1 });
+
+/**
+ * Stale lock index - recovery finds processing jobs by lock time
+ */
+jobSchema.index({ status: 1, lockedAt: 1 });
+
+/**
+ * TTL index - completed jobs are removed after the retention period
+ * Dead jobs have no completedAt and are kept for inspection
+ */
+jobSchema.index({ completedAt: 1 }, { expireAfterSeconds: config.queue.completedTtlSeconds });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const jobModel = mongoose.model<IJob>('jobs', jobSchema);
+
+export { jobModel };
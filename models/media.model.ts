@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export type UploadedMediaType = 'audio' | 'document' | 'image' | 'sticker' | 'video';
+
+export interface IMedia extends Document {
+  mediaId: string;
+  phoneNumberId: string;
+  type: UploadedMediaType;
+  mimeType: string;
+  filename: string;
+  size: number;
+  sha256: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const mediaSchema = new Schema<IMedia>(
+  {
+    mediaId: {
+      type: String,
+      required: true,
+      unique: true, // Media id returned by the /media endpoint
+    },
+    phoneNumberId: {
+      type: String,
+      required: true, // Media ids only work for the number that uploaded them
+    },
+    type: {
+      type: String,
+      enum: ['audio', 'document', 'image', 'sticker', 'video'],
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    filename: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    sha256: {
+      type: String, // Hex SHA-256 of the uploaded file
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true, // WhatsApp deletes uploaded media after 30 days
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * Listing index - newest uploads first, per type
+ */
+mediaSchema.index({ type: 1, createdAt: -1 });
+
+/**
+ * Expiry index - finds media that can still be sent
+ */
+mediaSchema.index({ expiresAt: 1 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const mediaModel = mongoose.model<IMedia>('media', mediaSchema);
+
+export { mediaModel };
@@ -0,0 +1,297 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+/**
+ * Delivery lifecycle of an outbound message
+ * pending → accepted (by the Graph API) → sent → delivered → read, or failed
+ * Inbound messages are stored as "received"
+ */
+export type MessageStatus = 'received' | 'pending' | 'accepted' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type MessageDirection = 'inbound' | 'outbound';
+
+export interface StatusHistoryEntry {
+  status: MessageStatus;
+  timestamp: Date;
+}
+
+export interface MessageError {
+  code?: number;
+  title?: string;
+  message?: string;
+  details?: string;
+}
+
+export interface MessagePricing {
+  billable?: boolean;
+  pricingModel?: string;
+  category?: string;
+}
+
+export interface MessageConversation {
+  id?: string;
+  category?: string;
+  expiresAt?: Date;
+}
+
+export interface MessageMedia {
+  id?: string;
+  link?: string;
+  mimeType?: string;
+  sha256?: string;
+  caption?: string;
+  filename?: string;
+  size?: number;
+  storage?: string;
+  storageKey?: string;
+  url?: string;
+  storedAt?: Date;
+}
+
+export interface MessageContext {
+  messageId?: string;
+  from?: string;
+  forwarded?: boolean;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  from: string;
+  direction: MessageDirection;
+  reactedAt: Date;
+}
+
+export interface IMessage extends Document {
+  wamid?: string;
+  direction: MessageDirection;
+  conversationId?: Types.ObjectId;
+  contactWaId?: string;
+  from?: string;
+  to: string;
+  waId?: string;
+  type: string;
+  text?: string;
+  media?: MessageMedia;
+  context?: MessageContext;
+  reactions: MessageReaction[];
+  timestamp: Date;
+  payload: any;
+  replyHandler?: string;
+  sendAttempts?: number;
+  status: MessageStatus;
+  statusHistory: StatusHistoryEntry[];
+  acceptedAt?: Date;
+  sentAt?: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+  failedAt?: Date;
+  pricing?: MessagePricing;
+  conversation?: MessageConversation;
+  failures: MessageError[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const StatusHistorySchema = new Schema<StatusHistoryEntry>(
+  {
+    status: { type: String, required: true },
+    timestamp: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const MessageErrorSchema = new Schema<MessageError>(
+  {
+    code: { type: Number },
+    title: { type: String },
+    message: { type: String },
+    details: { type: String },
+  },
+  { _id: false }
+);
+
+const PricingSchema = new Schema<MessagePricing>(
+  {
+    billable: { type: Boolean },
+    pricingModel: { type: String },
+    category: { type: String },
+  },
+  { _id: false }
+);
+
+const ConversationSchema = new Schema<MessageConversation>(
+  {
+    id: { type: String },
+    category: { type: String },
+    expiresAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const MediaSchema = new Schema<MessageMedia>(
+  {
+    id: { type: String },
+    link: { type: String },
+    mimeType: { type: String },
+    sha256: { type: String },
+    caption: { type: String },
+    filename: { type: String },
+    size: { type: Number },
+    storage: { type: String },    // Backend holding the downloaded file
+    storageKey: { type: String },
+    url: { type: String },        // Where admins fetch the downloaded file
+    storedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const ContextSchema = new Schema<MessageContext>(
+  {
+    messageId: { type: String },
+    from: { type: String },
+    forwarded: { type: Boolean },
+  },
+  { _id: false }
+);
+
+const ReactionSchema = new Schema<MessageReaction>(
+  {
+    emoji: { type: String, required: true },
+    from: { type: String, required: true },
+    direction: { type: String, enum: ['inbound', 'outbound'], required: true },
+    reactedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+const messageSchema = new Schema<IMessage>(
+  {
+    wamid: {
+      type: String,
+      unique: true,
+      sparse: true, // Messages rejected before reaching Meta have no wamid
+    },
+    direction: {
+      type: String,
+      enum: ['inbound', 'outbound'],
+      default: 'outbound',
+    },
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'conversations',
+    },
+    contactWaId: {
+      type: String,
+    },
+    from: {
+      type: String,
+    },
+    to: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    waId: {
+      type: String,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String, // Searchable text: body, caption, button/row title, etc.
+    },
+    media: {
+      type: MediaSchema,
+      default: undefined,
+    },
+    context: {
+      type: ContextSchema,
+      default: undefined,
+    },
+    reactions: {
+      type: [ReactionSchema],
+      default: [],
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    replyHandler: {
+      type: String, // Interactive reply handler that receives answers to this message
+    },
+    sendAttempts: {
+      type: Number, // Graph API calls made, including rate limit retries
+    },
+    status: {
+      type: String,
+      enum: ['received', 'pending', 'accepted', 'sent', 'delivered', 'read', 'failed'],
+      default: 'pending',
+      index: true,
+    },
+    statusHistory: {
+      type: [StatusHistorySchema],
+      default: [],
+    },
+    acceptedAt: { type: Date },
+    sentAt: { type: Date },
+    deliveredAt: { type: Date },
+    readAt: { type: Date },
+    failedAt: { type: Date },
+    pricing: {
+      type: PricingSchema,
+      default: undefined,
+    },
+    conversation: {
+      type: ConversationSchema,
+      default: undefined,
+    },
+    failures: {
+      type: [MessageErrorSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+messageSchema.index({ createdAt: -1 });
+
+/**
+ * Thread index - messages of a conversation in time order
+ */
+messageSchema.index({ conversationId: 1, timestamp: -1 });
+
+/**
+ * Contact index - messages exchanged with one contact
+ */
+messageSchema.index({ contactWaId: 1, timestamp: -1 });
+
+/**
+ * Full-text search index on message content
+ */
+messageSchema.index({ text: 'text' });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const messageModel = mongoose.model<IMessage>('messages', messageSchema);
+
+export { messageModel };
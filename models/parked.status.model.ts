@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface IParkedStatus extends Document {
+  wamid: string;
+  event: Record<string, any>;
+  receivedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const parkedStatusSchema = new Schema<IParkedStatus>(
+  {
+    wamid: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    event: {
+      type: Schema.Types.Mixed,
+      required: true, // Normalised StatusEvent, applied once the wamid is stored
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * TTL index - statuses of messages this application never stores (sent elsewhere) are dropped after a day
+ */
+parkedStatusSchema.index({ receivedAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const parkedStatusModel = mongoose.model<IParkedStatus>('parked_statuses', parkedStatusSchema);
+
+export { parkedStatusModel };
@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import config from '../config/app.config';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export type ProcessedEventKind = 'message' | 'status';
+
+export type ProcessedEventState = 'processing' | 'completed';
+
+export interface IProcessedEvent extends Document {
+  eventKey: string;
+  kind: ProcessedEventKind;
+  wamid: string;
+  state: ProcessedEventState;
+  leaseUntil?: Date;
+  duplicates: number;
+  lastDuplicateAt?: Date;
+  processedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const processedEventSchema = new Schema<IProcessedEvent>(
+  {
+    eventKey: {
+      type: String,
+      required: true,
+      unique: true, // One record per inbound message / status transition
+    },
+    kind: {
+      type: String,
+      enum: ['message', 'status'],
+      required: true,
+    },
+    wamid: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    state: {
+      type: String,
+      enum: ['processing', 'completed'],
+      default: 'completed', // Records written before claims had a state were completed
+    },
+    leaseUntil: {
+      type: Date, // While processing: after this the claim may be taken over
+    },
+    duplicates: {
+      type: Number,
+      default: 0,
+    },
+    lastDuplicateAt: {
+      type: Date,
+    },
+    processedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    versionKey: false,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * TTL index - records expire once Meta can no longer redeliver the event
+ */
+processedEventSchema.index(
+  { processedAt: 1 },
+  { expireAfterSeconds: config.webhook.dedupTtlSeconds }
+);
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const processedEventModel = mongoose.model<IProcessedEvent>('processed_events', processedEventSchema);
+
+export { processedEventModel };
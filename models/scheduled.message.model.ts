@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ScheduleDelay, ScheduledMessageStatus } from '../types/schedule.types';
+import { OutboundMessage } from '../types/whatsapp.client.types';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface IScheduledMessage extends Document {
+  waId: string;
+  message: OutboundMessage;
+  sendAt: Date;
+  localTime?: string;
+  timezone?: string;
+  delay?: ScheduleDelay;
+  cancelOnReply: boolean;
+  replyAfter: Date;
+  status: ScheduledMessageStatus;
+  claimedAt?: Date;
+  claimedBy?: string;
+  messageId?: Types.ObjectId;
+  wamid?: string;
+  sentAt?: Date;
+  failedAt?: Date;
+  errorCode?: string;
+  errorMessage?: string;
+  cancelledAt?: Date;
+  cancelReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const scheduledMessageSchema = new Schema<IScheduledMessage>(
+  {
+    waId: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: Schema.Types.Mixed,
+      required: true, // Validated outbound message payload
+    },
+    sendAt: {
+      type: Date,
+      required: true,
+    },
+    localTime: {
+      type: String, // Wall-clock time requested in timezone
+    },
+    timezone: {
+      type: String,
+    },
+    delay: {
+      type: Schema.Types.Mixed, // Event and delay the send time was derived from
+    },
+    cancelOnReply: {
+      type: Boolean,
+      default: false,
+    },
+    replyAfter: {
+      type: Date,
+      required: true, // Inbound messages after this time cancel the schedule when cancelOnReply is set
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sending', 'sent', 'failed', 'cancelled', 'missed'],
+      default: 'pending',
+    },
+    claimedAt: {
+      type: Date,
+    },
+    claimedBy: {
+      type: String, // Scheduler instance that sends the message
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'messages',
+    },
+    wamid: {
+      type: String,
+    },
+    sentAt: { type: Date },
+    failedAt: { type: Date },
+    errorCode: { type: String },
+    errorMessage: { type: String },
+    cancelledAt: { type: Date },
+    cancelReason: { type: String },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * Due index - pending schedules in send order, and stale claims
+ */
+scheduledMessageSchema.index({ status: 1, sendAt: 1 });
+
+/**
+ * Contact index - schedules of a contact, cancelled by replies
+ */
+scheduledMessageSchema.index({ waId: 1, status: 1 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const scheduledMessageModel = mongoose.model<IScheduledMessage>('scheduled_messages', scheduledMessageSchema);
+
+export { scheduledMessageModel };
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { GraphTemplateComponent } from '../types/template.types';
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+export interface ITemplate extends Document {
+  templateId: string;
+  businessAccountId: string;
+  name: string;
+  language: string;
+  status: string;
+  category?: string;
+  parameterFormat: 'NAMED' | 'POSITIONAL';
+  components: GraphTemplateComponent[];
+  rejectedReason?: string | null;
+  statusUpdatedAt?: Date;
+  lastSyncedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ==================================================
+// Schema Definitions
+// ==================================================
+
+const templateSchema = new Schema<ITemplate>(
+  {
+    templateId: {
+      type: String,
+      required: true,
+      unique: true, // Meta template ID
+    },
+    businessAccountId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    language: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      index: true, // APPROVED, PENDING, REJECTED, PAUSED, DISABLED, DELETED, ...
+    },
+    category: {
+      type: String,
+    },
+    parameterFormat: {
+      type: String,
+      enum: ['NAMED', 'POSITIONAL'],
+      default: 'POSITIONAL',
+    },
+    components: {
+      type: Schema.Types.Mixed,
+      default: [],
+    },
+    rejectedReason: {
+      type: String,
+    },
+    statusUpdatedAt: {
+      type: Date,
+    },
+    lastSyncedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// ==================================================
+// Indexes
+// ==================================================
+
+/**
+ * Lookup by name and language, as used when sending
+ */
+templateSchema.index({ name: 1, language: 1 });
+
+// ==================================================
+// Model Export
+// ==================================================
+
+const templateModel = mongoose.model<ITemplate>('templates', templateSchema);
+
+export { templateModel };
@@ -0,0 +1,90 @@
+import express, { Router } from "express";
+import {
+    listAdmins,
+    inviteAdmin,
+    getAdmin,
+    updateAdmin,
+    blockAdmin,
+    unblockAdmin,
+    deleteAdmin,
+} from "../controller/admin.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Admin Routes
+ *
+ * Defines owner routes for admin accounts
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/admins
+ * @desc    List admin accounts
+ * @access  Private (admins:manage)
+ */
+router.get("/", requirePermission("admins:manage"), listAdmins);
+
+
+/**
+ * @route   POST /api/admins
+ * @desc    Invite an admin; a temporary password is generated when none is given
+ * @access  Private (admins:manage)
+ */
+router.post("/", requirePermission("admins:manage"), inviteAdmin);
+
+
+/**
+ * @route   GET /api/admins/:id
+ * @desc    Get one admin with their permissions
+ * @access  Private (admins:manage)
+ */
+router.get("/:id", requirePermission("admins:manage"), getAdmin);
+
+
+/**
+ * @route   PATCH /api/admins/:id
+ * @desc    Edit an admin's name, email or password
+ * @access  Private (admins:manage)
+ */
+router.patch("/:id", requirePermission("admins:manage"), updateAdmin);
+
+
+/**
+ * @route   POST /api/admins/:id/block
+ * @desc    Block an admin and sign them out
+ * @access  Private (admins:manage)
+ */
+router.post("/:id/block", requirePermission("admins:manage"), blockAdmin);
+
+
+/**
+ * @route   POST /api/admins/:id/unblock
+ * @desc    Unblock an admin and clear any login lockout
+ * @access  Private (admins:manage)
+ */
+router.post("/:id/unblock", requirePermission("admins:manage"), unblockAdmin);
+
+
+/**
+ * @route   DELETE /api/admins/:id
+ * @desc    Delete an admin
+ * @access  Private (admins:manage)
+ */
+router.delete("/:id", requirePermission("admins:manage"), deleteAdmin);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as adminRouter };
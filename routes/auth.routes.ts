@@ -0,0 +1,135 @@
+import express, { Router } from "express";
+import {
+    login,
+    refresh,
+    logout,
+    me,
+    listSessions,
+    revokeSession,
+    revokeSessions,
+    changePassword,
+    verifyMfa,
+    setupMfa,
+    enableMfa,
+    disableMfa,
+} from "../controller/auth.controller";
+import verifyToken from "../middleware/auth.middleware";
+
+
+/**
+ * Auth Routes
+ *
+ * Defines admin login, logout, session and account routes
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   POST /api/auth/login
+ * @desc    Sign in with email and password; returns an MFA challenge when MFA is enabled
+ * @access  Public
+ */
+router.post("/login", login);
+
+
+/**
+ * @route   POST /api/auth/mfa/verify
+ * @desc    Complete an MFA login with an authenticator or recovery code
+ * @access  Public (MFA challenge token)
+ */
+router.post("/mfa/verify", verifyMfa);
+
+
+/**
+ * @route   POST /api/auth/refresh
+ * @desc    Swap a refresh token for a new access and refresh token
+ * @access  Public (refresh token)
+ */
+router.post("/refresh", refresh);
+
+
+/**
+ * @route   POST /api/auth/logout
+ * @desc    End the session of the token used for the request
+ * @access  Private (admin)
+ */
+router.post("/logout", verifyToken, logout);
+
+
+/**
+ * @route   GET /api/auth/me
+ * @desc    Get the signed-in admin
+ * @access  Private (admin)
+ */
+router.get("/me", verifyToken, me);
+
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List the signed-in admin's active device sessions
+ * @access  Private (admin)
+ */
+router.get("/sessions", verifyToken, listSessions);
+
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Revoke the other sessions, or every session with ?includeCurrent=true
+ * @access  Private (admin)
+ */
+router.delete("/sessions", verifyToken, revokeSessions);
+
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke one of the signed-in admin's sessions
+ * @access  Private (admin)
+ */
+router.delete("/sessions/:id", verifyToken, revokeSession);
+
+
+/**
+ * @route   POST /api/auth/change-password
+ * @desc    Change the signed-in admin's password and sign out other sessions
+ * @access  Private (admin)
+ */
+router.post("/change-password", verifyToken, changePassword);
+
+
+/**
+ * @route   POST /api/auth/mfa/setup
+ * @desc    Start MFA enrollment and get the secret and otpauth URI
+ * @access  Private (admin)
+ */
+router.post("/mfa/setup", verifyToken, setupMfa);
+
+
+/**
+ * @route   POST /api/auth/mfa/enable
+ * @desc    Enable MFA with a code from the authenticator app and get recovery codes
+ * @access  Private (admin)
+ */
+router.post("/mfa/enable", verifyToken, enableMfa);
+
+
+/**
+ * @route   POST /api/auth/mfa/disable
+ * @desc    Disable MFA with the account password
+ * @access  Private (admin)
+ */
+router.post("/mfa/disable", verifyToken, disableMfa);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as authRouter };
@@ -0,0 +1,144 @@
+import express, { Router } from "express";
+import {
+    listCampaigns,
+    createCampaign,
+    getCampaign,
+    updateCampaign,
+    deleteCampaign,
+    previewAudience,
+    startCampaign,
+    scheduleCampaign,
+    pauseCampaign,
+    resumeCampaign,
+    cancelCampaign,
+    getReport,
+    listRecipients,
+} from "../controller/campaign.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Campaign Routes
+ *
+ * Defines admin routes for template broadcasts to contact segments
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/campaigns
+ * @desc    List campaigns
+ * @access  Private (campaigns:read)
+ */
+router.get("/", requirePermission("campaigns:read"), listCampaigns);
+
+
+/**
+ * @route   POST /api/campaigns
+ * @desc    Create a draft campaign (audience, template and variable mapping)
+ * @access  Private (campaigns:manage)
+ */
+router.post("/", requirePermission("campaigns:manage"), createCampaign);
+
+
+/**
+ * @route   GET /api/campaigns/:id
+ * @desc    Get a campaign with its report
+ * @access  Private (campaigns:read)
+ */
+router.get("/:id", requirePermission("campaigns:read"), getCampaign);
+
+
+/**
+ * @route   PATCH /api/campaigns/:id
+ * @desc    Update a draft or scheduled campaign
+ * @access  Private (campaigns:manage)
+ */
+router.patch("/:id", requirePermission("campaigns:manage"), updateCampaign);
+
+
+/**
+ * @route   DELETE /api/campaigns/:id
+ * @desc    Delete a draft campaign
+ * @access  Private (campaigns:manage)
+ */
+router.delete("/:id", requirePermission("campaigns:manage"), deleteCampaign);
+
+
+/**
+ * @route   GET /api/campaigns/:id/audience
+ * @desc    Count and sample the opted-in contacts the audience matches
+ * @access  Private (campaigns:read)
+ */
+router.get("/:id/audience", requirePermission("campaigns:read"), previewAudience);
+
+
+/**
+ * @route   POST /api/campaigns/:id/start
+ * @desc    Start sending a campaign now
+ * @access  Private (campaigns:manage)
+ */
+router.post("/:id/start", requirePermission("campaigns:manage"), startCampaign);
+
+
+/**
+ * @route   POST /api/campaigns/:id/schedule
+ * @desc    Schedule a campaign (body: scheduledAt)
+ * @access  Private (campaigns:manage)
+ */
+router.post("/:id/schedule", requirePermission("campaigns:manage"), scheduleCampaign);
+
+
+/**
+ * @route   POST /api/campaigns/:id/pause
+ * @desc    Pause a running or scheduled campaign
+ * @access  Private (campaigns:manage)
+ */
+router.post("/:id/pause", requirePermission("campaigns:manage"), pauseCampaign);
+
+
+/**
+ * @route   POST /api/campaigns/:id/resume
+ * @desc    Resume a paused campaign
+ * @access  Private (campaigns:manage)
+ */
+router.post("/:id/resume", requirePermission("campaigns:manage"), resumeCampaign);
+
+
+/**
+ * @route   POST /api/campaigns/:id/cancel
+ * @desc    Cancel a campaign; unsent recipients are skipped
+ * @access  Private (campaigns:manage)
+ */
+router.post("/:id/cancel", requirePermission("campaigns:manage"), cancelCampaign);
+
+
+/**
+ * @route   GET /api/campaigns/:id/report
+ * @desc    Sent, delivered, read, failed and replied counts
+ * @access  Private (campaigns:read)
+ */
+router.get("/:id/report", requirePermission("campaigns:read"), getReport);
+
+
+/**
+ * @route   GET /api/campaigns/:id/recipients
+ * @desc    List recipients and their results
+ * @access  Private (campaigns:read)
+ */
+router.get("/:id/recipients", requirePermission("campaigns:read"), listRecipients);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as campaignRouter };
@@ -0,0 +1,81 @@
+import express, { Router } from "express";
+import {
+    listCommands,
+    getCommand,
+    createCommand,
+    updateCommand,
+    deleteCommand,
+    testCommand,
+} from "../controller/command.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Command Routes
+ *
+ * Defines admin routes for keyword and regex commands
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/commands
+ * @desc    List stored commands and the commands registered in code
+ * @access  Private (commands:read)
+ */
+router.get("/", requirePermission("commands:read"), listCommands);
+
+
+/**
+ * @route   POST /api/commands
+ * @desc    Create a stored command
+ * @access  Private (commands:manage)
+ */
+router.post("/", requirePermission("commands:manage"), createCommand);
+
+
+/**
+ * @route   POST /api/commands/test
+ * @desc    Show which command a text would run
+ * @access  Private (commands:read)
+ */
+router.post("/test", requirePermission("commands:read"), testCommand);
+
+
+/**
+ * @route   GET /api/commands/:name
+ * @desc    Get one stored command
+ * @access  Private (commands:read)
+ */
+router.get("/:name", requirePermission("commands:read"), getCommand);
+
+
+/**
+ * @route   PATCH /api/commands/:name
+ * @desc    Edit a stored command
+ * @access  Private (commands:manage)
+ */
+router.patch("/:name", requirePermission("commands:manage"), updateCommand);
+
+
+/**
+ * @route   DELETE /api/commands/:name
+ * @desc    Delete a stored command
+ * @access  Private (commands:manage)
+ */
+router.delete("/:name", requirePermission("commands:manage"), deleteCommand);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as commandRouter };
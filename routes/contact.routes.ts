@@ -0,0 +1,72 @@
+import express, { Router } from "express";
+import {
+    listContacts,
+    getContact,
+    updateContact,
+    addContactTags,
+    removeContactTag,
+} from "../controller/contact.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Contact Routes
+ *
+ * Defines admin routes for the contact (customer) store
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/contacts
+ * @desc    List, search and filter contacts
+ * @access  Private (contacts:read)
+ */
+router.get("/", requirePermission("contacts:read"), listContacts);
+
+
+/**
+ * @route   GET /api/contacts/:waId
+ * @desc    Get one contact by wa_id
+ * @access  Private (contacts:read)
+ */
+router.get("/:waId", requirePermission("contacts:read"), getContact);
+
+
+/**
+ * @route   PATCH /api/contacts/:waId
+ * @desc    Edit name, language, tags, attributes or opt-in state
+ * @access  Private (contacts:write)
+ */
+router.patch("/:waId", requirePermission("contacts:write"), updateContact);
+
+
+/**
+ * @route   POST /api/contacts/:waId/tags
+ * @desc    Add tags to a contact
+ * @access  Private (contacts:write)
+ */
+router.post("/:waId/tags", requirePermission("contacts:write"), addContactTags);
+
+
+/**
+ * @route   DELETE /api/contacts/:waId/tags/:tag
+ * @desc    Remove a tag from a contact
+ * @access  Private (contacts:write)
+ */
+router.delete("/:waId/tags/:tag", requirePermission("contacts:write"), removeContactTag);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as contactRouter };
@@ -0,0 +1,54 @@
+import express, { Router } from "express";
+import {
+    listConversations,
+    getConversationMessages,
+    markConversationRead,
+} from "../controller/conversation.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Conversation Routes
+ *
+ * Defines admin routes for conversation threads and message history
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/conversations
+ * @desc    List conversations, most recent first
+ * @access  Private (messages:read)
+ */
+router.get("/", requirePermission("messages:read"), listConversations);
+
+
+/**
+ * @route   GET /api/conversations/:waId/messages
+ * @desc    Get a paginated conversation thread
+ * @access  Private (messages:read)
+ */
+router.get("/:waId/messages", requirePermission("messages:read"), getConversationMessages);
+
+
+/**
+ * @route   POST /api/conversations/:waId/read
+ * @desc    Reset the unread counter of a conversation
+ * @access  Private (messages:read)
+ */
+router.post("/:waId/read", requirePermission("messages:read"), markConversationRead);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as conversationRouter };
@@ -0,0 +1,99 @@
+import express, { Router } from "express";
+import {
+    listFlows,
+    getFlow,
+    createFlow,
+    updateFlow,
+    deleteFlow,
+    startFlow,
+    getFlowSession,
+    cancelFlowSession,
+} from "../controller/flow.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Flow Routes
+ *
+ * Defines admin routes for conversation flow definitions and contact sessions
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/flows
+ * @desc    List flows
+ * @access  Private (flows:read)
+ */
+router.get("/", requirePermission("flows:read"), listFlows);
+
+
+/**
+ * @route   POST /api/flows
+ * @desc    Create a flow from a JSON definition or a YAML/JSON source
+ * @access  Private (flows:manage)
+ */
+router.post("/", requirePermission("flows:manage"), createFlow);
+
+
+/**
+ * @route   GET /api/flows/sessions/:waId
+ * @desc    Get the flow session of a contact
+ * @access  Private (flows:read)
+ */
+router.get("/sessions/:waId", requirePermission("flows:read"), getFlowSession);
+
+
+/**
+ * @route   DELETE /api/flows/sessions/:waId
+ * @desc    Cancel the active flow session of a contact
+ * @access  Private (messages:send)
+ */
+router.delete("/sessions/:waId", requirePermission("messages:send"), cancelFlowSession);
+
+
+/**
+ * @route   GET /api/flows/:key
+ * @desc    Get one flow with its nodes
+ * @access  Private (flows:read)
+ */
+router.get("/:key", requirePermission("flows:read"), getFlow);
+
+
+/**
+ * @route   PUT /api/flows/:key
+ * @desc    Replace a flow definition
+ * @access  Private (flows:manage)
+ */
+router.put("/:key", requirePermission("flows:manage"), updateFlow);
+
+
+/**
+ * @route   DELETE /api/flows/:key
+ * @desc    Delete a flow and cancel its active sessions
+ * @access  Private (flows:manage)
+ */
+router.delete("/:key", requirePermission("flows:manage"), deleteFlow);
+
+
+/**
+ * @route   POST /api/flows/:key/start
+ * @desc    Start a flow for a contact
+ * @access  Private (messages:send)
+ */
+router.post("/:key/start", requirePermission("messages:send"), startFlow);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as flowRouter };
@@ -1,5 +1,6 @@
 import express, { Router } from "express";
 import { webHookVerify, getMessageHook } from "../controller/main.controller";
+import verifyWebhookSignature from "../middleware/signature.middleware";
 
 
 /**
@@ -29,9 +30,9 @@ router.get("/hook", webHookVerify);
 /**
  * @route   POST /api/main/hook
  * @desc    Receive message from whatsapp
- * @access  Public
+ * @access  Public (requires a valid X-Hub-Signature-256 signature)
  */
-router.post("/hook", getMessageHook);
+router.post("/hook", verifyWebhookSignature, getMessageHook);
 
 
 // ==================================================
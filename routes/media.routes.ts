@@ -0,0 +1,55 @@
+import express, { Router } from "express";
+import {
+    uploadMedia,
+    listMedia,
+    sendMedia,
+} from "../controller/media.controller";
+import { uploadSingle, handleUploadError } from "../middleware/upload.middleware";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Media Routes
+ *
+ * Defines admin routes for media uploaded to WhatsApp
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/media
+ * @desc    List uploaded media and their expiry
+ * @access  Private (media:read)
+ */
+router.get("/", requirePermission("media:read"), listMedia);
+
+
+/**
+ * @route   POST /api/media
+ * @desc    Upload a file (multipart field "file") to WhatsApp, optionally sending it to a contact
+ * @access  Private (media:upload)
+ */
+router.post("/", requirePermission("media:upload"), uploadSingle, handleUploadError, uploadMedia);
+
+
+/**
+ * @route   POST /api/media/:id/send
+ * @desc    Send uploaded media to a contact
+ * @access  Private (messages:send)
+ */
+router.post("/:id/send", requirePermission("messages:send"), sendMedia);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as mediaRouter };
@@ -0,0 +1,59 @@
+import express, { Router } from "express";
+import { listMessages, searchMessages, getMessage, sendMessage } from "../controller/message.controller";
+import idempotency from "../middleware/idempotency.middleware";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Message Routes
+ *
+ * Defines admin routes for sending messages, stored messages, their delivery status and search
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/messages
+ * @desc    List messages with delivery status
+ * @access  Private (messages:read)
+ */
+router.get("/", requirePermission("messages:read"), listMessages);
+
+
+/**
+ * @route   POST /api/messages
+ * @desc    Send a message of any supported type (honours the Idempotency-Key header)
+ * @access  Private (messages:send)
+ */
+router.post("/", requirePermission("messages:send"), idempotency, sendMessage);
+
+
+/**
+ * @route   GET /api/messages/search
+ * @desc    Full-text search across messages with date, direction, type and contact filters
+ * @access  Private (messages:read)
+ */
+router.get("/search", requirePermission("messages:read"), searchMessages);
+
+
+/**
+ * @route   GET /api/messages/:id
+ * @desc    Get one message by internal ID or wamid
+ * @access  Private (messages:read)
+ */
+router.get("/:id", requirePermission("messages:read"), getMessage);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as messageRouter };
@@ -0,0 +1,54 @@
+import express, { Router } from "express";
+import {
+    listRoles,
+    listRoleAssignments,
+    assignRole,
+} from "../controller/role.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Role Routes
+ *
+ * Defines owner routes for admin roles and permissions
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/roles
+ * @desc    List roles and the permissions they grant
+ * @access  Private (roles:manage)
+ */
+router.get("/", requirePermission("roles:manage"), listRoles);
+
+
+/**
+ * @route   GET /api/roles/admins
+ * @desc    List admins with their role and permissions
+ * @access  Private (roles:manage)
+ */
+router.get("/admins", requirePermission("roles:manage"), listRoleAssignments);
+
+
+/**
+ * @route   PUT /api/roles/admins/:id
+ * @desc    Change the role and individual permissions of an admin
+ * @access  Private (roles:manage)
+ */
+router.put("/admins/:id", requirePermission("roles:manage"), assignRole);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as roleRouter };
@@ -0,0 +1,73 @@
+import express, { Router } from "express";
+import {
+    listSchedules,
+    createSchedule,
+    getSchedule,
+    rescheduleSchedule,
+    cancelSchedule,
+} from "../controller/schedule.controller";
+import idempotency from "../middleware/idempotency.middleware";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Schedule Routes
+ *
+ * Defines admin routes for messages sent at a later time
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/schedules
+ * @desc    List scheduled messages
+ * @access  Private (messages:read)
+ */
+router.get("/", requirePermission("messages:read"), listSchedules);
+
+
+/**
+ * @route   POST /api/schedules
+ * @desc    Schedule a message at a time, a local time in the contact's timezone, or after a conversation event
+ * @access  Private (messages:send)
+ */
+router.post("/", requirePermission("messages:send"), idempotency, createSchedule);
+
+
+/**
+ * @route   GET /api/schedules/:id
+ * @desc    Get a scheduled message
+ * @access  Private (messages:read)
+ */
+router.get("/:id", requirePermission("messages:read"), getSchedule);
+
+
+/**
+ * @route   POST /api/schedules/:id/reschedule
+ * @desc    Move a pending scheduled message to a new time
+ * @access  Private (messages:send)
+ */
+router.post("/:id/reschedule", requirePermission("messages:send"), rescheduleSchedule);
+
+
+/**
+ * @route   POST /api/schedules/:id/cancel
+ * @desc    Cancel a pending scheduled message
+ * @access  Private (messages:send)
+ */
+router.post("/:id/cancel", requirePermission("messages:send"), cancelSchedule);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as scheduleRouter };
@@ -0,0 +1,72 @@
+import express, { Router } from "express";
+import {
+    listTemplates,
+    syncTemplates,
+    getTemplate,
+    previewTemplate,
+    sendTemplate,
+} from "../controller/template.controller";
+import requirePermission from "../middleware/permission.middleware";
+
+
+/**
+ * Template Routes
+ *
+ * Defines admin routes for WhatsApp message templates
+ */
+
+// ==================================================
+// Route Configuration
+// ==================================================
+
+const router: Router = express.Router();
+
+// ==================================================
+// Route Definitions
+// ==================================================
+
+/**
+ * @route   GET /api/templates
+ * @desc    List synced message templates
+ * @access  Private (templates:read)
+ */
+router.get("/", requirePermission("templates:read"), listTemplates);
+
+
+/**
+ * @route   POST /api/templates/sync
+ * @desc    Sync message templates from the WhatsApp Business Account
+ * @access  Private (templates:manage)
+ */
+router.post("/sync", requirePermission("templates:manage"), syncTemplates);
+
+
+/**
+ * @route   GET /api/templates/:id
+ * @desc    Get one template with its parameters and a preview
+ * @access  Private (templates:read)
+ */
+router.get("/:id", requirePermission("templates:read"), getTemplate);
+
+
+/**
+ * @route   POST /api/templates/:id/preview
+ * @desc    Render a template preview with variables or a contact's attributes
+ * @access  Private (templates:read)
+ */
+router.post("/:id/preview", requirePermission("templates:read"), previewTemplate);
+
+
+/**
+ * @route   POST /api/templates/:id/send
+ * @desc    Send a template to a contact
+ * @access  Private (messages:send)
+ */
+router.post("/:id/send", requirePermission("messages:send"), sendTemplate);
+
+
+// ==================================================
+// Exports
+// ==================================================
+
+export { router as templateRouter };
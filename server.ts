@@ -58,11 +58,22 @@ import config from "./config/app.config";
 import errorHandler from './middleware/error.middleware';
 // Authentication middleware for user routes
 import verifyToken from './middleware/auth.middleware';
+import verifySocketToken from './middleware/socket.auth.middleware';
+// Permission checks for admin roles
+import requirePermission from './middleware/permission.middleware';
 
 // ==================================================
 // Type Definitions
 // ==================================================
 
+// Webhook signature rejection metrics
+import { getSignatureMetrics } from './middleware/signature.middleware';
+// Webhook deduplication metrics
+import dedupService from './services/dedup.service';
+// Job queue metrics
+import queueService from './services/queue.service';
+import outboundDispatcher from './services/outbound.dispatcher.service';
+
 // Server-related TypeScript interfaces
 import { ServerMetrics, HealthCheckResponse, RouteInfo } from './types/server.types';
 
@@ -72,6 +83,37 @@ import { ServerMetrics, HealthCheckResponse, RouteInfo } from './types/server.ty
 
 // Main routes (facebook/whatsapp webhooks)
 import { mainRouter } from './routes/main.routes';
+// Auth routes (admin login and account)
+import { authRouter } from './routes/auth.routes';
+// Admin routes (admin accounts)
+import { adminRouter } from './routes/admin.routes';
+// Role routes (admin roles and permissions)
+import { roleRouter } from './routes/role.routes';
+// Message routes (outbound messages and delivery status)
+import { messageRouter } from './routes/message.routes';
+// Contact routes (customer CRM)
+import { contactRouter } from './routes/contact.routes';
+// Conversation routes (threads and message history)
+import { conversationRouter } from './routes/conversation.routes';
+// Flow routes (conversation flow definitions and sessions)
+import { flowRouter } from './routes/flow.routes';
+// Command routes (keyword and regex commands)
+import { commandRouter } from './routes/command.routes';
+// Template routes (WhatsApp message templates)
+import { templateRouter } from './routes/template.routes';
+// Media routes (uploads to WhatsApp)
+import { mediaRouter } from './routes/media.routes';
+// Campaign routes (template broadcasts)
+import { campaignRouter } from './routes/campaign.routes';
+// Schedule routes (messages sent later)
+import { scheduleRouter } from './routes/schedule.routes';
+
+// ==================================================
+// Service Imports
+// ==================================================
+
+// Shared Socket.IO access for live updates
+import socketService, { ADMIN_ROOM } from './services/socket.service';
 
 // ==================================================
 // Server Setup Class
@@ -199,14 +241,20 @@ export class ServerSetup {
 
     // ===== BODY PARSER MIDDLEWARE =====
     // Parse JSON payloads with size limit
-    this.app.use(express.json({ limit: '10mb' }));
+    // The raw body is kept on the request so webhook signatures can be verified
+    this.app.use(express.json({
+      limit: '10mb',
+      verify: (req, res, buf) => {
+        (req as Request).rawBody = buf;
+      },
+    }));
     
     // Parse URL-encoded payloads with size limit
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // ===== STATIC FILE SERVING =====
-    // Serve uploaded files from the uploads directory under admin routes
-    this.app.use(`/api/${config.server.apiVersion}/kingdom/uploads`, express.static('uploads'));
+    // Serve stored media and uploads to authenticated admins only
+    this.app.use(`/api/${config.server.apiVersion}/kingdom/uploads`, verifyToken, requirePermission('media:read'), express.static(config.media.directory));
   }
 
   // ==================================================
@@ -219,15 +267,26 @@ export class ServerSetup {
    * 
    * WebSocket Features:
    * - Real-time notifications
-   * - Live payment status updates
+   * - Live message delivery status updates
    * - Admin dashboard updates
    * - User activity monitoring
    */
   private setupWebSocket(): void {
+    // ===== SHARE SOCKET SERVER =====
+    // Let services emit live updates (e.g. message:status) without a server reference
+    socketService.attach(this.io);
+
+    // ===== AUTHENTICATION =====
+    // Refuse handshakes without a valid admin token, like verifyToken does for HTTP routes
+    this.io.use(verifySocketToken);
+
     // ===== CONNECTION EVENT HANDLER =====
     // Handle new WebSocket connections
     this.io.on('connection', (socket) => {
-      console.log(`✅ New WebSocket Connection Established: ${socket.id}`);
+      console.log(`✅ New WebSocket Connection Established: ${socket.id} (admin ${socket.data.adminId})`);
+
+      // Live updates are only sent to authenticated admins
+      socket.join(ADMIN_ROOM);
 
       // ===== DISCONNECTION EVENT HANDLER =====
       // Handle WebSocket disconnections
@@ -274,6 +333,24 @@ export class ServerSetup {
     // Main routes (facebook/whatsapp webhooks)
     this.app.use(`/${webhookPrefix}/main`, mainRouter);
 
+    // ===== AUTH ROUTES =====
+    // Login is public; the other auth routes verify the token themselves
+    this.app.use(`/${apiPrefix}/auth`, authRouter);
+
+    // ===== PROTECTED ROUTES =====
+    // Admin routes (authentication required)
+    this.app.use(`/${apiPrefix}/messages`, verifyToken, messageRouter);
+    this.app.use(`/${apiPrefix}/contacts`, verifyToken, contactRouter);
+    this.app.use(`/${apiPrefix}/conversations`, verifyToken, conversationRouter);
+    this.app.use(`/${apiPrefix}/flows`, verifyToken, flowRouter);
+    this.app.use(`/${apiPrefix}/commands`, verifyToken, commandRouter);
+    this.app.use(`/${apiPrefix}/templates`, verifyToken, templateRouter);
+    this.app.use(`/${apiPrefix}/media`, verifyToken, mediaRouter);
+    this.app.use(`/${apiPrefix}/campaigns`, verifyToken, campaignRouter);
+    this.app.use(`/${apiPrefix}/schedules`, verifyToken, scheduleRouter);
+    this.app.use(`/${apiPrefix}/admins`, verifyToken, adminRouter);
+    this.app.use(`/${apiPrefix}/roles`, verifyToken, roleRouter);
+
 
     // ===== 404 HANDLER =====
     // Handle unmatched routes with proper error response
@@ -352,7 +429,13 @@ export class ServerSetup {
       node: {
         version: process.version,                                    // Node.js version
         npm_package_version: process.env.npm_package_version || 'unknown', // Package version
-      }
+      },
+      webhook: {
+        signatures: getSignatureMetrics(),                           // Rejected webhook signatures
+        duplicates: dedupService.getMetrics(),                       // Skipped webhook redeliveries
+      },
+      queue: await queueService.getMetrics(),                        // Job queue state
+      outbound: outboundDispatcher.getMetrics(),                     // Outbound queue depth and throttling
     };
 
     // ===== SEND RESPONSE =====
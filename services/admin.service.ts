@@ -0,0 +1,251 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import mongoose from "mongoose";
+import config from "../config/app.config";
+import { adminModel, IUser } from "../models/admin.model";
+import rbacService from "./rbac.service";
+import sessionService from "./session.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { AdminRole } from "../types/rbac.types";
+import { scorePassword } from "../utils/password.score";
+
+/**
+ * Admin Service - Admin accounts and the password policy
+ * Owners invite, edit, block and delete admins. Every new password is
+ * scored with scorePassword and must reach the configured minimum, and may
+ * not match the current password or any of the last few; the score is kept
+ * in passwordScore. Blocking an admin or changing their password revokes
+ * their sessions.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Fields of a new admin
+ */
+export interface AdminInvite {
+    displayName: string;
+    email: string;
+    role?: AdminRole;
+    password?: string;               // Generated and returned once when omitted
+}
+
+/**
+ * Editable fields of an admin
+ */
+export interface AdminChanges {
+    displayName?: string;
+    email?: string;
+    password?: string;
+}
+
+// ==================================================
+// Constants
+// ==================================================
+
+const GENERATED_PASSWORD_BYTES = 18;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const adminError = (message: string, status: number, errorCode: ErrorCode): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = status;
+    error.errorCode = errorCode;
+    error.color = "yellow";
+    return error;
+};
+
+const adminNotFound = (id: string): CustomError => adminError(`Admin ${id} not found`, 404, ErrorCode.NOT_FOUND);
+
+const emailTaken = (email: string): CustomError => adminError(`An admin with email ${email} already exists`, 409, ErrorCode.CONFLICT);
+
+/**
+ * Generates a temporary password that passes the policy
+ * Base64url of random bytes plus one character of each class
+ */
+const generatePassword = (): string => `${crypto.randomBytes(GENERATED_PASSWORD_BYTES).toString("base64url")}aA1!`;
+
+// ==================================================
+// Admin Service
+// ==================================================
+
+const adminService = {
+
+    /**
+     * Checks a new password against the policy
+     * @param password - New password
+     * @param admin - Admin changing their password, loaded with +password +passwordHistory
+     * @returns Password score
+     * @throws CustomError - VALIDATION_ERROR for weak or reused passwords
+     */
+    checkPassword: async (password: string, admin?: IUser): Promise<number> => {
+        const score = scorePassword(password);
+        if (score < config.security.minPasswordScore) {
+            const error = adminError(
+                `Password is too weak (score ${score} of ${config.security.minPasswordScore} required); use a longer password mixing letters, digits and symbols`,
+                400,
+                ErrorCode.VALIDATION_ERROR,
+            );
+            error.details = { score, minScore: config.security.minPasswordScore };
+            throw error;
+        }
+
+        // ===== REFUSE REUSE =====
+        if (admin) {
+            const previous = [admin.password, ...(admin.passwordHistory ?? [])].filter(Boolean);
+            for (const hash of previous.slice(0, config.security.passwordHistory + 1)) {
+                if (await bcrypt.compare(password, hash)) {
+                    throw adminError(
+                        `Password was used recently; choose one that differs from the last ${config.security.passwordHistory}`,
+                        400,
+                        ErrorCode.VALIDATION_ERROR,
+                    );
+                }
+            }
+        }
+
+        return score;
+    },
+
+    /**
+     * Sets a checked password, moving the current hash into the history
+     * Does not save the admin
+     * @param admin - Admin loaded with +password +passwordHistory
+     * @param password - New password
+     * @param score - Score returned by checkPassword
+     */
+    setPassword: (admin: IUser, password: string, score: number): void => {
+        if (admin.password) {
+            admin.passwordHistory = [admin.password, ...(admin.passwordHistory ?? [])].slice(0, config.security.passwordHistory);
+        }
+        // The save hook hashes the new password
+        admin.password = password;
+        admin.passwordScore = score;
+        admin.tokenVersion = (admin.tokenVersion ?? 0) + 1;
+    },
+
+    /**
+     * Gets an admin, failing when it does not exist
+     * @param id - Admin document id
+     * @param withPasswords - Also load the password hash and history
+     * @throws CustomError - NOT_FOUND
+     */
+    getOrFail: async (id: string, withPasswords: boolean = false): Promise<IUser> => {
+        if (!mongoose.isValidObjectId(id)) throw adminNotFound(id);
+        const query = adminModel.findById(id);
+        const admin = await (withPasswords ? query.select("+password +passwordHistory") : query);
+        if (!admin) throw adminNotFound(id);
+        return admin;
+    },
+
+    /**
+     * Creates an admin account
+     * @param invite - Name, email, role and optional password
+     * @returns Admin, and the generated password when none was given
+     * @throws CustomError - VALIDATION_ERROR for weak passwords, CONFLICT for taken emails
+     */
+    invite: async (invite: AdminInvite): Promise<{ admin: IUser; temporaryPassword?: string }> => {
+        const email = invite.email.trim().toLowerCase();
+        if (await adminModel.exists({ email })) throw emailTaken(email);
+
+        const password = invite.password ?? generatePassword();
+        const score = await adminService.checkPassword(password);
+
+        try {
+            // The save hook hashes the password
+            const admin = await adminModel.create({
+                displayName: invite.displayName.trim(),
+                email,
+                password,
+                passwordScore: score,
+                role: invite.role ?? "viewer",
+            });
+
+            console.log(`👤 Invited admin ${admin.email} as ${admin.role}`);
+            return { admin, ...(invite.password ? {} : { temporaryPassword: password }) };
+        } catch (error) {
+            if ((error as { code?: number } | null)?.code === 11000) throw emailTaken(email);
+            throw error;
+        }
+    },
+
+    /**
+     * Edits an admin's name, email or password
+     * A new password signs the admin out everywhere
+     * @param id - Admin document id
+     * @param changes - Fields to change
+     * @throws CustomError - NOT_FOUND, CONFLICT for taken emails, VALIDATION_ERROR for weak or reused passwords
+     */
+    update: async (id: string, changes: AdminChanges): Promise<IUser> => {
+        const admin = await adminService.getOrFail(id, changes.password !== undefined);
+
+        if (changes.displayName !== undefined) admin.displayName = changes.displayName.trim();
+        if (changes.email !== undefined) {
+            const email = changes.email.trim().toLowerCase();
+            if (email !== admin.email && (await adminModel.exists({ email }))) throw emailTaken(email);
+            admin.email = email;
+        }
+        if (changes.password !== undefined) {
+            const score = await adminService.checkPassword(changes.password, admin);
+            adminService.setPassword(admin, changes.password, score);
+        }
+
+        try {
+            await admin.save();
+        } catch (error) {
+            if ((error as { code?: number } | null)?.code === 11000) throw emailTaken(admin.email);
+            throw error;
+        }
+        if (changes.password !== undefined) await sessionService.revokeAll(String(admin._id), "outdated");
+        return admin;
+    },
+
+    /**
+     * Blocks or unblocks an admin
+     * Blocking signs them out everywhere; unblocking also clears a login lockout
+     * @param id - Admin document id
+     * @param blocked - New state
+     * @param actorId - Admin making the change, who cannot block themselves
+     * @throws CustomError - NOT_FOUND, CONFLICT for self-blocks and the last owner
+     */
+    setBlocked: async (id: string, blocked: boolean, actorId: string): Promise<IUser> => {
+        const admin = await adminService.getOrFail(id);
+        if (blocked) {
+            if (String(admin._id) === actorId) throw adminError("You cannot block yourself", 409, ErrorCode.CONFLICT);
+            await rbacService.assertNotLastOwner(admin, "blocked");
+            admin.tokenVersion = (admin.tokenVersion ?? 0) + 1;
+        } else {
+            admin.resetFailedLoginAttempts();
+        }
+
+        admin.flag = blocked;
+        await admin.save();
+        if (blocked) await sessionService.revokeAll(String(admin._id));
+
+        console.log(`👤 ${blocked ? "Blocked" : "Unblocked"} admin ${admin.email}`);
+        return admin;
+    },
+
+    /**
+     * Deletes an admin account
+     * @param id - Admin document id
+     * @param actorId - Admin making the change, who cannot delete themselves
+     * @throws CustomError - NOT_FOUND, CONFLICT for self-deletes and the last owner
+     */
+    remove: async (id: string, actorId: string): Promise<void> => {
+        const admin = await adminService.getOrFail(id);
+        if (String(admin._id) === actorId) throw adminError("You cannot delete yourself", 409, ErrorCode.CONFLICT);
+        await rbacService.assertNotLastOwner(admin, "deleted");
+
+        await adminModel.deleteOne({ _id: admin._id });
+        await sessionService.revokeAll(String(admin._id));
+        console.log(`👤 Deleted admin ${admin.email}`);
+    },
+
+}
+
+export default adminService;
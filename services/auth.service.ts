@@ -0,0 +1,293 @@
+import { randomUUID } from "crypto";
+import jwt, { SignOptions } from "jsonwebtoken";
+import config from "../config/app.config";
+import { adminModel, IUser } from "../models/admin.model";
+import { IAdminSession } from "../models/admin.session.model";
+import adminService from "./admin.service";
+import mfaService from "./mfa.service";
+import sessionService from "./session.service";
+import {
+    AdminJwtPayload,
+    AuthToken,
+    LoginContext,
+    LoginResult,
+    MfaChallenge,
+    MfaChallengePayload,
+    SessionTokens,
+    SignedIn,
+} from "../types/auth.types";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { getBrowserOnOS } from "../utils/browser.on.os";
+
+/**
+ * Auth Service - Admin login, tokens and passwords
+ * Admins sign in with email and password and receive a short-lived JWT and
+ * a refresh token for a new device session; admins with MFA first get a
+ * short-lived challenge token to exchange along with a TOTP or recovery code.
+ * Too many wrong passwords or codes lock the account for a while. Tokens are
+ * checked against the admin on every request: blocked admins, revoked
+ * sessions (logout) and tokens issued before a password change are refused.
+ */
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const authError = (message: string, status: number = 401, errorCode: ErrorCode = ErrorCode.UNAUTHORIZED): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = status;
+    error.errorCode = errorCode;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Refuses logins to a locked account, telling when the lock ends
+ */
+const lockedError = (admin: IUser): CustomError => {
+    const error = authError("Account is locked after too many failed logins; try again later", 423, ErrorCode.FORBIDDEN);
+    error.details = { lockedUntil: admin.lockedUntil };
+    return error;
+};
+
+/**
+ * Gets the JWT secret, failing when it is not configured
+ */
+const jwtSecret = (): string => {
+    if (!config.jwt.secret) {
+        const error: CustomError = new Error("JWT secret not configured");
+        error.status = 500;
+        error.errorCode = ErrorCode.INTERNAL_SERVER_ERROR;
+        error.color = "red";
+        throw error;
+    }
+    return config.jwt.secret;
+};
+
+/**
+ * Counts a wrong password or code, locking the account once the limit is reached
+ * @returns The error to throw
+ */
+const recordFailure = async (admin: IUser, message: string): Promise<CustomError> => {
+    admin.incrementFailedLoginAttempts();
+    const locked = admin.failedLoginAttempts >= config.security.maxFailedLogins;
+    if (locked) admin.lockFor(config.security.lockoutMinutes * 60 * 1000);
+    await admin.save();
+
+    if (!locked) return authError(message);
+    console.warn(`⚠️ Locked admin ${admin.email} after ${config.security.maxFailedLogins} failed logins`);
+    return lockedError(admin);
+};
+
+/**
+ * Records a successful login and opens a device session
+ */
+const completeLogin = async (admin: IUser, context: LoginContext): Promise<SignedIn> => {
+    admin.resetFailedLoginAttempts();
+    admin.updateLastLogin(context.ipAddress, context.userAgent ? getBrowserOnOS(context.userAgent) : undefined);
+    await admin.save();
+
+    const { session, refreshToken } = await sessionService.create(admin, context);
+
+    console.log(`🔑 Admin ${admin.email} signed in from ${admin.lastLogin?.ipAddress ?? "unknown IP"}`);
+    return { mfaRequired: false, admin, token: authService.issueTokens(admin, session, refreshToken) };
+};
+
+// ==================================================
+// Auth Service
+// ==================================================
+
+const authService = {
+
+    /**
+     * Issues an access token for an admin
+     * @param admin - Admin document
+     * @param sessionId - Device session the token belongs to
+     */
+    issueToken: (admin: IUser, sessionId: string): AuthToken => {
+        const payload = {
+            purpose: "access",
+            adminId: String(admin._id),
+            email: admin.email,
+            displayName: admin.displayName,
+            tokenVersion: admin.tokenVersion ?? 0,
+            sid: sessionId,
+        };
+        const token = jwt.sign(payload, jwtSecret(), {
+            expiresIn: config.jwt.validity as SignOptions["expiresIn"],
+            jwtid: randomUUID(),
+        });
+        const { exp } = jwt.decode(token) as AdminJwtPayload;
+        return { token, tokenType: "Bearer", expiresAt: new Date(exp * 1000) };
+    },
+
+    /**
+     * Issues an access token along with the refresh token of its session
+     * @param admin - Admin document
+     * @param session - Device session
+     * @param refreshToken - Current refresh token of the session
+     */
+    issueTokens: (admin: IUser, session: IAdminSession, refreshToken: string): SessionTokens => ({
+        ...authService.issueToken(admin, String(session._id)),
+        refreshToken,
+        refreshExpiresAt: session.expiresAt,
+        sessionId: String(session._id),
+    }),
+
+    /**
+     * Issues the challenge token exchanged for an access token in the MFA step
+     * @param admin - Admin whose password checked out
+     */
+    issueChallenge: (admin: IUser): MfaChallenge => {
+        const challengeToken = jwt.sign({ purpose: "mfa", adminId: String(admin._id) }, jwtSecret(), {
+            expiresIn: config.mfa.challengeValidity as SignOptions["expiresIn"],
+            jwtid: randomUUID(),
+        });
+        const { exp } = jwt.decode(challengeToken) as MfaChallengePayload;
+        return { challengeToken, expiresAt: new Date(exp * 1000) };
+    },
+
+    /**
+     * Signs an admin in with email and password
+     * Wrong passwords count towards the lockout; a successful login records the client.
+     * Admins with MFA get a challenge to complete with verifyMfa instead of a token.
+     * @param email - Admin email
+     * @param password - Admin password
+     * @param context - IP address and user agent of the client
+     * @returns Admin and session tokens, or the MFA challenge
+     * @throws CustomError - UNAUTHORIZED for wrong credentials, FORBIDDEN for blocked or locked accounts
+     */
+    login: async (email: string, password: string, context: LoginContext = {}): Promise<LoginResult> => {
+        const admin = await adminModel.findOne({ email: email.trim().toLowerCase() }).select("+password");
+        if (!admin) throw authError("Invalid email or password");
+        if (admin.isLocked()) throw lockedError(admin);
+
+        // ===== CHECK PASSWORD =====
+        if (!(await admin.comparePassword(password))) {
+            throw await recordFailure(admin, "Invalid email or password");
+        }
+
+        if (admin.flag) throw authError("Account is blocked", 403, ErrorCode.FORBIDDEN);
+
+        // ===== ASK FOR THE SECOND FACTOR =====
+        if (admin.mfa?.isEnabled) {
+            return { mfaRequired: true, challenge: authService.issueChallenge(admin) };
+        }
+
+        return completeLogin(admin, context);
+    },
+
+    /**
+     * Completes an MFA login with a code from the authenticator app or a recovery code
+     * Wrong codes count towards the lockout
+     * @param challengeToken - Token returned by login
+     * @param codes - TOTP code, or a one-time recovery code
+     * @param context - IP address and user agent of the client
+     * @returns Admin and session tokens
+     * @throws CustomError - UNAUTHORIZED for invalid challenges or codes, FORBIDDEN for blocked or locked accounts
+     */
+    verifyMfa: async (
+        challengeToken: string,
+        codes: { code?: string; recoveryCode?: string },
+        context: LoginContext = {},
+    ): Promise<SignedIn> => {
+        let payload: MfaChallengePayload;
+        try {
+            payload = jwt.verify(challengeToken, jwtSecret()) as MfaChallengePayload;
+        } catch {
+            throw authError("Invalid or expired MFA challenge; sign in again");
+        }
+        if (payload.purpose !== "mfa") throw authError("Invalid or expired MFA challenge; sign in again");
+
+        const admin = await adminModel.findById(payload.adminId);
+        if (!admin || !admin.mfa?.isEnabled) throw authError("Invalid or expired MFA challenge; sign in again");
+        if (admin.isLocked()) throw lockedError(admin);
+        if (admin.flag) throw authError("Account is blocked", 403, ErrorCode.FORBIDDEN);
+
+        // ===== CHECK CODE =====
+        const accepted = codes.recoveryCode
+            ? await mfaService.useRecoveryCode(admin, codes.recoveryCode)
+            : await mfaService.verifyCode(admin, codes.code ?? "");
+        if (!accepted) throw await recordFailure(admin, "Invalid authentication code");
+
+        return completeLogin(admin, context);
+    },
+
+    /**
+     * Swaps a refresh token for a new access and refresh token
+     * Reusing a refresh token that was already swapped revokes its session
+     * @param refreshToken - Current refresh token of the session
+     * @param context - IP address and user agent of the client
+     * @returns New session tokens
+     * @throws CustomError - UNAUTHORIZED for invalid, reused, revoked or expired tokens
+     */
+    refresh: async (refreshToken: string, context: LoginContext = {}): Promise<SessionTokens> => {
+        const rotated = await sessionService.rotate(refreshToken, context);
+        return authService.issueTokens(rotated.admin, rotated.session, rotated.refreshToken);
+    },
+
+    /**
+     * Verifies an access token and loads its admin
+     * @param token - JWT from the Authorization header
+     * @returns Admin and decoded token
+     * @throws CustomError - UNAUTHORIZED for invalid, expired, revoked or outdated tokens and blocked admins
+     */
+    verify: async (token: string): Promise<{ admin: IUser; payload: AdminJwtPayload }> => {
+        let payload: AdminJwtPayload;
+        try {
+            payload = jwt.verify(token, jwtSecret()) as AdminJwtPayload;
+        } catch (jwtError) {
+            const error = authError("Invalid or expired token", 403);
+            error.details = jwtError instanceof Error ? jwtError.message : undefined;
+            throw error;
+        }
+
+        if (payload.purpose !== "access") throw authError("Unauthorized");
+
+        const [admin, sessionActive] = await Promise.all([
+            adminModel.findOne({ _id: payload.adminId, flag: { $ne: true } }),
+            sessionService.isActive(payload.sid, payload.adminId),
+        ]);
+        if (!admin || !sessionActive || (admin.tokenVersion ?? 0) !== payload.tokenVersion) {
+            throw authError("Unauthorized");
+        }
+
+        return { admin, payload };
+    },
+
+    /**
+     * Ends the session of an access token, invalidating its access and refresh tokens
+     * @param payload - Decoded token
+     */
+    logout: async (payload: AdminJwtPayload): Promise<void> => {
+        await sessionService.revoke(payload.adminId, payload.sid, "logout");
+    },
+
+    /**
+     * Changes an admin's password, ending every other session
+     * @param adminId - Admin document id
+     * @param sessionId - Caller's session, which stays signed in
+     * @param currentPassword - Current password
+     * @param newPassword - New password, checked against the password policy
+     * @returns Fresh session tokens for the caller
+     * @throws CustomError - UNAUTHORIZED when the current password is wrong, VALIDATION_ERROR for weak or reused passwords
+     */
+    changePassword: async (adminId: string, sessionId: string, currentPassword: string, newPassword: string): Promise<SessionTokens> => {
+        const admin = await adminModel.findById(adminId).select("+password +passwordHistory");
+        if (!admin) throw authError("Unauthorized");
+
+        if (!(await admin.comparePassword(currentPassword))) throw authError("Current password is incorrect");
+        const score = await adminService.checkPassword(newPassword, admin);
+        adminService.setPassword(admin, newPassword, score);
+        await admin.save();
+
+        await sessionService.revokeAll(adminId, "outdated", sessionId);
+        const { session, refreshToken } = await sessionService.renew(sessionId, admin);
+
+        console.log(`🔑 Admin ${admin.email} changed their password`);
+        return authService.issueTokens(admin, session, refreshToken);
+    },
+
+}
+
+export default authService;
@@ -0,0 +1,565 @@
+import mongoose from "mongoose";
+import config from "../config/app.config";
+import outboundService from "./outbound.service";
+import queueService from "./queue.service";
+import templateService from "./template.service";
+import socketService, { SOCKET_EVENTS } from "./socket.service";
+import { campaignModel, ICampaign } from "../models/campaign.model";
+import { campaignRecipientModel, ICampaignRecipient } from "../models/campaign.recipient.model";
+import { contactModel, IContact } from "../models/contact.model";
+import { ITemplate } from "../models/template.model";
+import {
+    CampaignAudience,
+    CampaignRecipientStatus,
+    CampaignReport,
+    CampaignStatus,
+} from "../types/campaign.types";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { GraphErrorDetails } from "../types/whatsapp.client.types";
+import { InboundMessageEvent, StatusEvent } from "../types/whatsapp.webhook.types";
+import { JOB_TYPES } from "../types/queue.types";
+
+/**
+ * Campaign Service - Sends a template to every opted-in contact of an audience
+ * Recipients are stored when a campaign first starts, then sent in batches
+ * by campaign.run jobs. Each job holds a lease on its campaign so only one
+ * instance sends it, paces sends to the phone number's throughput and
+ * re-queues itself after a slice of sending time until no recipient is
+ * pending. Delivery statuses and replies are recorded per recipient.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+const INSERT_CHUNK = 1000;
+const AUDIENCE_SAMPLE = 10;
+const TOP_FAILURES = 10;
+
+/**
+ * Rank of each recipient status; statuses never move a recipient backwards
+ */
+const RECIPIENT_RANK: Record<CampaignRecipientStatus, number> = {
+    pending: 0,
+    sending: 1,
+    sent: 2,
+    delivered: 3,
+    read: 4,
+    failed: 5,
+    skipped: 5,
+};
+
+/**
+ * Timestamp field recorded for each webhook status
+ */
+const TIMESTAMP_FIELD: Record<StatusEvent["status"]["status"], string> = {
+    sent: "sentAt",
+    delivered: "deliveredAt",
+    read: "readAt",
+    failed: "failedAt",
+};
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Builds an error for a lifecycle change the campaign's status does not allow
+ */
+const invalidTransition = (campaign: Pick<ICampaign, "name" | "status">, action: string): CustomError => {
+    const error: CustomError = new Error(`Campaign "${campaign.name}" is ${campaign.status} and cannot be ${action}`);
+    error.status = 409;
+    error.errorCode = ErrorCode.CONFLICT;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Builds the contact filter of an audience
+ * Contacts that have not opted in are never included
+ */
+const audienceFilterOf = (audience: CampaignAudience = {}): Record<string, any> => {
+    const filter: Record<string, any> = { "optIn.status": "opted_in" };
+    const tagConditions: Record<string, unknown> = {};
+
+    if (audience.tags?.length) tagConditions.$all = audience.tags;
+    if (audience.excludeTags?.length) tagConditions.$nin = audience.excludeTags;
+    if (Object.keys(tagConditions).length > 0) filter.tags = tagConditions;
+    if (audience.anyTags?.length) filter.$and = [{ tags: { $in: audience.anyTags } }];
+
+    if (audience.language) filter.language = audience.language;
+    for (const [key, value] of Object.entries(audience.attributes ?? {})) {
+        filter[`attributes.${key}`] = value;
+    }
+    return filter;
+};
+
+/**
+ * Sends per second for a campaign, capped by the phone number's throughput
+ */
+const rateOf = (campaign: Pick<ICampaign, "messagesPerSecond">): number =>
+    Math.max(1, Math.min(campaign.messagesPerSecond || Infinity, config.whatsapp.messagesPerSecond));
+
+/**
+ * Lease held by the instance sending a campaign; outlives one slice
+ */
+const leaseMs = (): number => config.campaigns.sliceMs * 2;
+
+/**
+ * Pushes a campaign lifecycle change to dashboard clients
+ */
+const announce = (campaign: Pick<ICampaign, "_id" | "name">, status: CampaignStatus): void => {
+    socketService.emit(SOCKET_EVENTS.CAMPAIGN_STATUS, { campaignId: String(campaign._id), name: campaign.name, status });
+};
+
+// ==================================================
+// Campaign Service
+// ==================================================
+
+const campaignService = {
+
+    /**
+     * Counts and samples the contacts an audience currently matches
+     * @param audience - Audience definition
+     */
+    previewAudience: async (audience: CampaignAudience): Promise<{ count: number; sample: IContact[] }> => {
+        const filter = audienceFilterOf(audience);
+        const [count, sample] = await Promise.all([
+            contactModel.countDocuments(filter),
+            contactModel.find(filter).sort({ lastSeenAt: -1 }).limit(AUDIENCE_SAMPLE).lean<IContact[]>(),
+        ]);
+        return { count, sample };
+    },
+
+    // ==================================================
+    // Lifecycle
+    // ==================================================
+
+    /**
+     * Starts a draft or scheduled campaign now
+     * @param id - Campaign ID
+     * @throws CustomError - CONFLICT when the campaign is not a draft or scheduled
+     */
+    start: async (id: string): Promise<ICampaign> => {
+        const campaign = await campaignModel.findOneAndUpdate(
+            { _id: id, status: { $in: ["draft", "scheduled"] } },
+            { $set: { status: "running", startedAt: new Date(), scheduledAt: null } },
+            { new: true }
+        );
+        if (!campaign) throw invalidTransition(await campaignService.getOrFail(id), "started");
+
+        await queueService.enqueue(JOB_TYPES.CAMPAIGN_RUN, { campaignId: id });
+        announce(campaign, "running");
+        return campaign;
+    },
+
+    /**
+     * Schedules a draft campaign, or moves the time of a scheduled one
+     * @param id - Campaign ID
+     * @param scheduledAt - Start time, in the future
+     * @throws CustomError - CONFLICT when the campaign is not a draft or scheduled
+     */
+    schedule: async (id: string, scheduledAt: Date): Promise<ICampaign> => {
+        const campaign = await campaignModel.findOneAndUpdate(
+            { _id: id, status: { $in: ["draft", "scheduled"] } },
+            { $set: { status: "scheduled", scheduledAt } },
+            { new: true }
+        );
+        if (!campaign) throw invalidTransition(await campaignService.getOrFail(id), "scheduled");
+
+        // Jobs of an earlier, sooner schedule find the campaign not yet due and do nothing
+        await queueService.enqueue(JOB_TYPES.CAMPAIGN_RUN, { campaignId: id }, { runAt: scheduledAt });
+        announce(campaign, "scheduled");
+        return campaign;
+    },
+
+    /**
+     * Pauses a running or scheduled campaign; sends in flight complete
+     * @param id - Campaign ID
+     * @throws CustomError - CONFLICT when the campaign is not running or scheduled
+     */
+    pause: async (id: string): Promise<ICampaign> => {
+        const campaign = await campaignModel.findOneAndUpdate(
+            { _id: id, status: { $in: ["running", "scheduled"] } },
+            { $set: { status: "paused", pausedAt: new Date(), scheduledAt: null } },
+            { new: true }
+        );
+        if (!campaign) throw invalidTransition(await campaignService.getOrFail(id), "paused");
+
+        announce(campaign, "paused");
+        return campaign;
+    },
+
+    /**
+     * Resumes a paused campaign
+     * @param id - Campaign ID
+     * @throws CustomError - CONFLICT when the campaign is not paused
+     */
+    resume: async (id: string): Promise<ICampaign> => {
+        const campaign = await campaignModel.findOneAndUpdate(
+            { _id: id, status: "paused" },
+            { $set: { status: "running", pausedAt: null }, $min: { startedAt: new Date() } },
+            { new: true }
+        );
+        if (!campaign) throw invalidTransition(await campaignService.getOrFail(id), "resumed");
+
+        await queueService.enqueue(JOB_TYPES.CAMPAIGN_RUN, { campaignId: id });
+        announce(campaign, "running");
+        return campaign;
+    },
+
+    /**
+     * Cancels a campaign; recipients not sent yet are skipped
+     * @param id - Campaign ID
+     * @throws CustomError - CONFLICT when the campaign already completed or was cancelled
+     */
+    cancel: async (id: string): Promise<ICampaign> => {
+        const campaign = await campaignModel.findOneAndUpdate(
+            { _id: id, status: { $in: ["draft", "scheduled", "running", "paused"] } },
+            { $set: { status: "cancelled", cancelledAt: new Date(), scheduledAt: null } },
+            { new: true }
+        );
+        if (!campaign) throw invalidTransition(await campaignService.getOrFail(id), "cancelled");
+
+        await campaignRecipientModel.updateMany(
+            { campaignId: campaign._id, status: "pending" },
+            { $set: { status: "skipped", errorMessage: "Campaign cancelled" } }
+        );
+        announce(campaign, "cancelled");
+        return campaign;
+    },
+
+    /**
+     * Finds a campaign
+     * @param id - Campaign ID
+     * @throws CustomError - NOT_FOUND when it does not exist
+     */
+    getOrFail: async (id: string): Promise<ICampaign> => {
+        const campaign = mongoose.isValidObjectId(id) ? await campaignModel.findById(id) : null;
+        if (!campaign) {
+            const error: CustomError = new Error(`Campaign ${id} not found`);
+            error.status = 404;
+            error.errorCode = ErrorCode.NOT_FOUND;
+            error.color = "yellow";
+            throw error;
+        }
+        return campaign;
+    },
+
+    // ==================================================
+    // Sending
+    // ==================================================
+
+    /**
+     * Sends the next slice of a campaign (campaign.run job)
+     * Does nothing when the campaign is not due or running; when another job holds
+     * the lease, runs again once that lease ends so the campaign is never left undriven
+     * @param campaignId - Campaign ID
+     */
+    run: async (campaignId: string): Promise<void> => {
+        const now = new Date();
+
+        // ===== START A DUE SCHEDULED CAMPAIGN =====
+        const due = await campaignModel.findOneAndUpdate(
+            { _id: campaignId, status: "scheduled", scheduledAt: { $lte: now } },
+            { $set: { status: "running", startedAt: now, scheduledAt: null } },
+            { new: true }
+        );
+        if (due) announce(due, "running");
+
+        // ===== TAKE THE LEASE =====
+        const leaseUntil = new Date(now.getTime() + leaseMs());
+        const campaign = await campaignModel.findOneAndUpdate(
+            {
+                _id: campaignId,
+                status: "running",
+                $or: [{ leaseUntil: null }, { leaseUntil: { $exists: false } }, { leaseUntil: { $lte: now } }],
+            },
+            { $set: { leaseUntil } },
+            { new: true }
+        );
+        if (!campaign) {
+            const busy = await campaignModel.findOne({ _id: campaignId, status: "running", leaseUntil: { $gt: now } }, { leaseUntil: 1 });
+            if (busy?.leaseUntil) {
+                await queueService.enqueue(JOB_TYPES.CAMPAIGN_RUN, { campaignId }, { runAt: busy.leaseUntil });
+            }
+            return;
+        }
+
+        try {
+            if (!campaign.audienceResolvedAt) await campaignService.resolveAudience(campaign);
+            await campaignService.failInterrupted(campaign);
+
+            const template = await templateService.findSendable(campaign.template.name, campaign.template.language);
+            const more = await campaignService.sendSlice(campaign, template);
+
+            if (more) {
+                await queueService.enqueue(JOB_TYPES.CAMPAIGN_RUN, { campaignId });
+            } else {
+                await campaignService.completeIfDone(campaign);
+            }
+        } catch (error) {
+            // A template that is no longer sendable pauses the campaign instead of retrying forever
+            const customError = error as CustomError;
+            if (customError.errorCode === ErrorCode.NOT_FOUND || customError.errorCode === ErrorCode.VALIDATION_ERROR) {
+                console.error(`❌ Campaign "${campaign.name}" paused: ${customError.message}`);
+                await campaignModel.updateOne({ _id: campaign._id, status: "running" }, { $set: { status: "paused", pausedAt: new Date() } });
+                announce(campaign, "paused");
+                return;
+            }
+            throw error;
+        } finally {
+            // Only release the lease this run holds; an overrun lease may already belong to another run
+            await campaignModel.updateOne({ _id: campaign._id, leaseUntil }, { $set: { leaseUntil: null } });
+        }
+    },
+
+    /**
+     * Stores a recipient for every contact the audience matches
+     * @param campaign - Running campaign
+     */
+    resolveAudience: async (campaign: ICampaign): Promise<number> => {
+        const cursor = contactModel.find(audienceFilterOf(campaign.audience), { waId: 1 }).lean().cursor();
+
+        let chunk: Array<{ campaignId: unknown; waId: string }> = [];
+        const flush = async (): Promise<void> => {
+            if (chunk.length === 0) return;
+            // Unordered so recipients stored by an interrupted run are skipped as duplicates
+            await campaignRecipientModel.insertMany(chunk, { ordered: false }).catch((error) => {
+                const { code, writeErrors } = (error ?? {}) as { code?: number; writeErrors?: unknown };
+                if (code !== 11000 && !writeErrors) throw error;
+            });
+            chunk = [];
+        };
+
+        for await (const contact of cursor) {
+            chunk.push({ campaignId: campaign._id, waId: contact.waId });
+            if (chunk.length >= INSERT_CHUNK) await flush();
+        }
+        await flush();
+
+        const recipientCount = await campaignRecipientModel.countDocuments({ campaignId: campaign._id });
+        await campaignModel.updateOne({ _id: campaign._id }, { $set: { recipientCount, audienceResolvedAt: new Date() } });
+        console.log(`📣 Campaign "${campaign.name}" resolved ${recipientCount} recipient(s)`);
+        return recipientCount;
+    },
+
+    /**
+     * Fails recipients a crashed instance claimed but never finished
+     * Their message may have been sent, so they are not sent again
+     * @param campaign - Running campaign
+     */
+    failInterrupted: async (campaign: ICampaign): Promise<void> => {
+        await campaignRecipientModel.updateMany(
+            { campaignId: campaign._id, status: "sending", claimedAt: { $lt: new Date(Date.now() - leaseMs()) } },
+            { $set: { status: "failed", failedAt: new Date(), errorMessage: "Interrupted before the send was confirmed" } }
+        );
+    },
+
+    /**
+     * Sends batches of pending recipients for up to one slice
+     * @param campaign - Running campaign holding the lease
+     * @param template - Approved template of the campaign
+     * @returns Whether recipients remain pending
+     */
+    sendSlice: async (campaign: ICampaign, template: ITemplate): Promise<boolean> => {
+        const interval = 1000 / rateOf(campaign);
+        const sliceEnd = Date.now() + config.campaigns.sliceMs;
+        let nextSlot = Date.now();
+
+        while (Date.now() < sliceEnd) {
+            // ===== STOP WHEN PAUSED OR CANCELLED =====
+            const current = await campaignModel.findById(campaign._id, { status: 1 }).lean();
+            if (current?.status !== "running") return false;
+
+            // ===== CLAIM A BATCH =====
+            const pending = await campaignRecipientModel
+                .find({ campaignId: campaign._id, status: "pending" }, { _id: 1 })
+                .sort({ _id: 1 })
+                .limit(config.campaigns.batchSize)
+                .lean();
+            if (pending.length === 0) return false;
+
+            const claimedAt = new Date();
+            await campaignRecipientModel.updateMany(
+                { _id: { $in: pending.map((recipient) => recipient._id) }, status: "pending" },
+                { $set: { status: "sending", claimedAt } }
+            );
+            const batch = await campaignRecipientModel
+                .find({ _id: { $in: pending.map((recipient) => recipient._id) }, status: "sending", claimedAt })
+                .lean<ICampaignRecipient[]>();
+
+            const contacts = await contactModel.find({ waId: { $in: batch.map((recipient) => recipient.waId) } });
+            const contactOf = new Map(contacts.map((contact) => [contact.waId, contact]));
+
+            // ===== SEND AT THE CAMPAIGN'S PACE =====
+            const sends: Promise<void>[] = [];
+            for (const recipient of batch) {
+                const wait = nextSlot - Date.now();
+                if (wait > 0) await sleep(wait);
+                nextSlot = Math.max(nextSlot, Date.now()) + interval;
+                sends.push(campaignService.sendOne(campaign, template, recipient, contactOf.get(recipient.waId) ?? null));
+            }
+            await Promise.all(sends);
+        }
+
+        return (await campaignRecipientModel.exists({ campaignId: campaign._id, status: "pending" })) !== null;
+    },
+
+    /**
+     * Sends the campaign template to one recipient and records the result
+     * Contacts that opted out since the audience was resolved are skipped
+     */
+    sendOne: async (campaign: ICampaign, template: ITemplate, recipient: ICampaignRecipient, contact: IContact | null): Promise<void> => {
+        if (contact?.optIn?.status !== "opted_in") {
+            await campaignRecipientModel.updateOne(
+                { _id: recipient._id },
+                { $set: { status: "skipped", errorMessage: "Contact is no longer opted in" } }
+            );
+            return;
+        }
+
+        try {
+            const variables = templateService.resolveVariables(template, recipient.waId, contact, campaign.template.variables);
+            const components = templateService.buildComponents(template, variables);
+
+            await outboundService.send({
+                to: recipient.waId,
+                type: "template",
+                template: {
+                    name: template.name,
+                    language: { code: template.language },
+                    ...(components.length > 0 ? { components } : {}),
+                },
+            }, {
+                // Stored before the message gets its wamid, so parked statuses find the recipient when replayed
+                onAccepted: async (result) => {
+                    await campaignRecipientModel.updateOne(
+                        { _id: recipient._id, status: "sending" },
+                        { $set: { status: "sent", messageId: result.messageId, wamid: result.wamid, sentAt: new Date() } }
+                    );
+                },
+            });
+        } catch (error) {
+            const customError = error as CustomError;
+            const details = customError.details as GraphErrorDetails | undefined;
+            await campaignRecipientModel.updateOne(
+                { _id: recipient._id },
+                {
+                    $set: {
+                        status: "failed",
+                        failedAt: new Date(),
+                        errorCode: details?.graphCode ?? null,
+                        errorMessage: customError.message,
+                    },
+                }
+            );
+        }
+    },
+
+    /**
+     * Completes a running campaign once no recipient is pending or sending
+     * @param campaign - Campaign to check
+     */
+    completeIfDone: async (campaign: Pick<ICampaign, "_id" | "name">): Promise<void> => {
+        const open = await campaignRecipientModel.exists({ campaignId: campaign._id, status: { $in: ["pending", "sending"] } });
+        if (open) return;
+
+        const result = await campaignModel.updateOne(
+            { _id: campaign._id, status: "running" },
+            { $set: { status: "completed", completedAt: new Date() } }
+        );
+        if (result.modifiedCount > 0) {
+            console.log(`✅ Campaign "${campaign.name}" completed`);
+            announce(campaign, "completed");
+        }
+    },
+
+    // ==================================================
+    // Results
+    // ==================================================
+
+    /**
+     * Applies a webhook delivery status to the matching recipient
+     * Statuses of messages that were not sent by a campaign are ignored
+     * @param event - Normalised status event
+     */
+    applyStatus: async (event: StatusEvent): Promise<void> => {
+        const { status } = event;
+        const next = status.status as CampaignRecipientStatus;
+
+        const lowerStatuses = (Object.keys(RECIPIENT_RANK) as CampaignRecipientStatus[]).filter(
+            (candidate) => candidate !== "skipped" && RECIPIENT_RANK[candidate] < RECIPIENT_RANK[next]
+        );
+
+        const set: Record<string, unknown> = { status: next };
+        if (next === "failed") {
+            set.errorCode = status.errors?.[0]?.code ?? null;
+            set.errorMessage = status.errors?.[0]?.message ?? status.errors?.[0]?.title;
+        }
+
+        await campaignRecipientModel.updateOne({ wamid: status.id, status: { $in: lowerStatuses } }, { $set: set });
+        await campaignRecipientModel.updateOne(
+            { wamid: status.id, [TIMESTAMP_FIELD[status.status]]: { $exists: false } },
+            { $set: { [TIMESTAMP_FIELD[status.status]]: event.timestamp } }
+        );
+    },
+
+    /**
+     * Counts an inbound message as a reply to the contact's latest campaign send
+     * Only the first message within the reply window counts
+     * @param event - Normalised inbound message event
+     */
+    recordReply: async (event: InboundMessageEvent): Promise<void> => {
+        const since = new Date(event.timestamp.getTime() - config.campaigns.replyWindowHours * 60 * 60 * 1000);
+        const recipient = await campaignRecipientModel
+            .findOne({ waId: event.message.from, sentAt: { $gte: since, $lte: event.timestamp } }, { repliedAt: 1 })
+            .sort({ sentAt: -1 })
+            .lean();
+        if (!recipient || recipient.repliedAt) return;
+
+        await campaignRecipientModel.updateOne(
+            { _id: recipient._id, repliedAt: { $exists: false } },
+            { $set: { repliedAt: event.timestamp } }
+        );
+    },
+
+    /**
+     * Summarises the results of a campaign
+     * @param campaignId - Campaign ID
+     */
+    report: async (campaignId: string): Promise<CampaignReport> => {
+        const _id = new mongoose.Types.ObjectId(campaignId);
+        const [byStatus, replied, failures] = await Promise.all([
+            campaignRecipientModel.aggregate<{ _id: CampaignRecipientStatus; count: number }>([
+                { $match: { campaignId: _id } },
+                { $group: { _id: "$status", count: { $sum: 1 } } },
+            ]),
+            campaignRecipientModel.countDocuments({ campaignId: _id, repliedAt: { $exists: true } }),
+            campaignRecipientModel.aggregate<{ _id: { code: number | null; message: string }; count: number }>([
+                { $match: { campaignId: _id, status: "failed" } },
+                { $group: { _id: { code: "$errorCode", message: "$errorMessage" }, count: { $sum: 1 } } },
+                { $sort: { count: -1 } },
+                { $limit: TOP_FAILURES },
+            ]),
+        ]);
+
+        const count = (status: CampaignRecipientStatus): number => byStatus.find((item) => item._id === status)?.count ?? 0;
+        return {
+            total: byStatus.reduce((sum, item) => sum + item.count, 0),
+            pending: count("pending") + count("sending"),
+            sent: count("sent") + count("delivered") + count("read"),
+            delivered: count("delivered") + count("read"),
+            read: count("read"),
+            failed: count("failed"),
+            skipped: count("skipped"),
+            replied,
+            failures: failures.map((item) => ({ code: item._id.code ?? null, message: item._id.message ?? "Unknown error", count: item.count })),
+        };
+    },
+
+}
+
+export default campaignService;
@@ -0,0 +1,294 @@
+import config from "../config/app.config";
+import outboundService from "./outbound.service";
+import flowService from "./flow.service";
+import receiptService from "./receipt.service";
+import { commandModel, ICommand } from "../models/command.model";
+import {
+    CommandContext,
+    CommandDefinition,
+    CommandHandler,
+    CommandMatch,
+    CommandMatchKind,
+    CommandSource,
+} from "../types/command.types";
+import { ReceiptOptions } from "../types/receipt.types";
+import { InboundMessageEvent, TextMessage } from "../types/whatsapp.webhook.types";
+import { interpolate } from "../utils/interpolate";
+
+/**
+ * Command Service - Maps inbound text to command handlers
+ * Commands registered in code and commands stored in Mongo are matched in
+ * one priority-ordered list. Stored commands are cached and reloaded after
+ * admin changes (and periodically, so every instance picks them up). Text
+ * that matches nothing goes to the fallback handler, which runs as the last
+ * pipeline stage.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Command ready for matching
+ */
+interface CompiledCommand {
+    name: string;
+    source: CommandSource;
+    priority: number;
+    keywords: Set<string>;
+    aliases: Set<string>;
+    pattern?: RegExp;
+    receipts?: ReceiptOptions;
+    handler: CommandHandler;
+}
+
+// ==================================================
+// Registry
+// ==================================================
+
+const DEFAULT_PRIORITY = 100;
+
+/**
+ * Match kinds in the order they are tried within one priority
+ */
+const MATCH_ORDER: Array<Exclude<CommandMatchKind, "fallback">> = ["keyword", "alias", "regex"];
+
+const codeCommands = new Map<string, CompiledCommand>();
+const namedHandlers = new Map<string, CommandHandler>();
+
+let storedCommands: CompiledCommand[] = [];
+let storedLoadedAt = 0;
+
+/**
+ * Default fallback: answers with the configured "didn't understand" message
+ */
+let fallbackHandler: CommandHandler | null = async (context) => {
+    if (config.commands.fallbackMessage) await context.reply(config.commands.fallbackMessage);
+};
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds the handler of a stored command from its action
+ */
+const handlerOf = (command: ICommand): CommandHandler => {
+    const { action } = command;
+    switch (action.type) {
+        case "reply":
+            return async (context) => {
+                await context.reply(interpolate(action.message, { text: context.text, captures: context.captures, groups: context.groups }));
+            };
+        case "flow":
+            return async (context) => {
+                if (!(await flowService.startFlow(context.waId, action.flowKey, {}, context.event.message.id))) {
+                    console.warn(`⚠️ Command ${command.name} refers to unknown or inactive flow ${action.flowKey}`);
+                }
+            };
+        case "handler":
+            return async (context) => {
+                const handler = namedHandlers.get(action.handler);
+                if (!handler) {
+                    console.warn(`⚠️ Command ${command.name} refers to unregistered handler ${action.handler}`);
+                    return;
+                }
+                await handler(context);
+            };
+    }
+};
+
+/**
+ * Loads active stored commands, reusing the cache while it is fresh
+ */
+const loadStoredCommands = async (): Promise<CompiledCommand[]> => {
+    if (Date.now() - storedLoadedAt < config.commands.cacheTtlMs) return storedCommands;
+
+    const commands = await commandModel.find({ isActive: true }).lean<ICommand[]>();
+    storedCommands = commands.flatMap((command) => {
+        try {
+            return [{
+                name: command.name,
+                source: "database" as const,
+                priority: command.priority ?? DEFAULT_PRIORITY,
+                keywords: new Set(command.keywords ?? []),
+                aliases: new Set((command.aliases ?? []).map((alias) => alias.toLowerCase())),
+                pattern: command.pattern ? new RegExp(command.pattern, command.flags) : undefined,
+                handler: handlerOf(command),
+                receipts: command.receipts,
+            }];
+        } catch (error) {
+            console.error(`❌ Skipped command ${command.name}: ${(error as Error).message}`);
+            return [];
+        }
+    });
+    storedLoadedAt = Date.now();
+    return storedCommands;
+};
+
+/**
+ * Builds the handler context for a text message
+ */
+const contextOf = (
+    event: InboundMessageEvent<TextMessage>,
+    text: string,
+    command: string,
+    matchedBy: CommandMatchKind,
+    captures: string[] = [],
+    groups: Record<string, string> = {},
+): CommandContext => ({
+    event,
+    waId: event.message.from,
+    text,
+    command,
+    matchedBy,
+    captures,
+    groups,
+    reply: (content) => outboundService.reply(event.message.from, content),
+});
+
+// ==================================================
+// Command Service
+// ==================================================
+
+const commandService = {
+
+    /**
+     * Registers a command in code
+     * Registering a name twice replaces the previous command
+     * @param definition - Command definition
+     */
+    register: (definition: CommandDefinition): void => {
+        codeCommands.set(definition.name, {
+            name: definition.name,
+            source: "code",
+            priority: definition.priority ?? DEFAULT_PRIORITY,
+            keywords: new Set(definition.keywords ?? []),
+            aliases: new Set((definition.aliases ?? []).map((alias) => alias.toLowerCase())),
+            pattern: definition.pattern,
+            receipts: definition.receipts,
+            handler: definition.handler,
+        });
+    },
+
+    /**
+     * Registers a named handler that stored commands can run
+     * @param name - Handler name referenced by `action.handler`
+     * @param handler - Handler
+     */
+    registerHandler: (name: string, handler: CommandHandler): void => {
+        namedHandlers.set(name, handler);
+    },
+
+    /**
+     * Checks whether a named handler is registered
+     * @param name - Handler name
+     */
+    hasHandler: (name: string): boolean => namedHandlers.has(name),
+
+    /**
+     * Replaces the fallback handler; null disables the fallback
+     * @param handler - Handler receiving unmatched text
+     */
+    onFallback: (handler: CommandHandler | null): void => {
+        fallbackHandler = handler;
+    },
+
+    /**
+     * Drops the stored command cache so the next match reloads it
+     */
+    invalidate: (): void => {
+        storedLoadedAt = 0;
+    },
+
+    /**
+     * Lists code-registered commands and handlers
+     */
+    listRegistered: () => ({
+        commands: [...codeCommands.values()].map((command) => ({
+            name: command.name,
+            priority: command.priority,
+            keywords: [...command.keywords],
+            aliases: [...command.aliases],
+            pattern: command.pattern?.toString(),
+        })),
+        handlers: [...namedHandlers.keys()],
+    }),
+
+    /**
+     * Finds the first command matching a text
+     * @param text - Message text
+     * @returns Match, or null when no command matches
+     */
+    match: async (text: string): Promise<(CommandMatch & { handler: CommandHandler; receipts?: ReceiptOptions }) | null> => {
+        const trimmed = text.trim();
+        const lower = trimmed.toLowerCase();
+        const commands = [...codeCommands.values(), ...(await loadStoredCommands())]
+            .sort((a, b) => a.priority - b.priority);
+
+        // Walk priorities in order; within one priority keywords beat aliases beat patterns
+        let index = 0;
+        while (index < commands.length) {
+            const priority = commands[index].priority;
+            const group: CompiledCommand[] = [];
+            while (index < commands.length && commands[index].priority === priority) group.push(commands[index++]);
+
+            for (const kind of MATCH_ORDER) {
+                for (const command of group) {
+                    const base = { command: command.name, source: command.source, matchedBy: kind, priority, handler: command.handler, receipts: command.receipts };
+
+                    if (kind === "keyword" && command.keywords.has(trimmed)) {
+                        return { ...base, captures: [], groups: {} };
+                    }
+                    if (kind === "alias" && command.aliases.has(lower)) {
+                        return { ...base, captures: [], groups: {} };
+                    }
+                    if (kind === "regex" && command.pattern) {
+                        command.pattern.lastIndex = 0;
+                        const result = command.pattern.exec(trimmed);
+                        if (result) {
+                            return { ...base, captures: result.slice(1), groups: { ...result.groups } };
+                        }
+                    }
+                }
+            }
+        }
+
+        return null;
+    },
+
+    /**
+     * Inbound pipeline stage running the first matching command
+     * @param event - Normalised inbound message event
+     * @returns true when a command handled the message
+     */
+    handleInbound: async (event: InboundMessageEvent): Promise<boolean> => {
+        if (event.message.type !== "text") return false;
+        const textEvent = event as InboundMessageEvent<TextMessage>;
+        const text = textEvent.message.text.body.trim();
+
+        const match = await commandService.match(text);
+        if (!match) return false;
+
+        console.log(`⌨️ Command ${match.command} (${match.matchedBy}) for ${event.message.from}`);
+        receiptService.configure(event.message.id, match.receipts);
+        await match.handler(contextOf(textEvent, text, match.command, match.matchedBy, match.captures, match.groups));
+        return true;
+    },
+
+    /**
+     * Last inbound pipeline stage answering text nothing else handled
+     * @param event - Normalised inbound message event
+     * @returns true when the fallback handler ran
+     */
+    handleFallback: async (event: InboundMessageEvent): Promise<boolean> => {
+        if (event.message.type !== "text" || !fallbackHandler) return false;
+        const textEvent = event as InboundMessageEvent<TextMessage>;
+
+        await fallbackHandler(contextOf(textEvent, textEvent.message.text.body.trim(), "fallback", "fallback"));
+        return true;
+    },
+
+}
+
+export default commandService;
@@ -0,0 +1,35 @@
+import { contactModel, IContact } from "../models/contact.model";
+import { InboundMessageEvent } from "../types/whatsapp.webhook.types";
+
+/**
+ * Contact Service - Keeps the contact (customer) store in sync with inbound traffic
+ * Every inbound message upserts the sender by wa_id, captures the profile
+ * name from the webhook contacts block and tracks first/last seen times
+ */
+
+const contactService = {
+
+    /**
+     * Creates or updates the sender of an inbound message
+     * @param event - Normalised inbound message event
+     * @returns Updated contact document
+     */
+    recordInbound: async (event: InboundMessageEvent): Promise<IContact> => {
+        const waId = event.message.from;
+        const profileName = event.contact?.wa_id === waId ? event.contact.profile?.name : undefined;
+
+        // ===== BUILD UPDATE =====
+        // $min/$max keep first/last seen correct when webhooks arrive out of order
+        const update: Record<string, unknown> = {
+            $min: { firstSeenAt: event.timestamp },
+            $max: { lastSeenAt: event.timestamp },
+            $setOnInsert: { tags: [], attributes: {}, optIn: { status: "unknown" } },
+        };
+        if (profileName) update.$set = { profileName };
+
+        return contactModel.findOneAndUpdate({ waId }, update, { upsert: true, new: true });
+    },
+
+}
+
+export default contactService;
@@ -0,0 +1,295 @@
+import { Types } from "mongoose";
+import { conversationModel } from "../models/conversation.model";
+import { messageModel, MessageContext, MessageDirection, MessageMedia } from "../models/message.model";
+import { OutboundMessage } from "../types/whatsapp.client.types";
+import { InboundMessageEvent, ReactionMessage, WebhookMessage } from "../types/whatsapp.webhook.types";
+
+/**
+ * Conversation Service - Persists the message history of every contact
+ * Inbound and outbound messages are stored with searchable text, media
+ * references, reply context and reactions, and grouped into one
+ * conversation thread per contact
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Searchable content extracted from a message
+ */
+interface MessageContent {
+    text?: string;                   // Body, caption or title used for search and previews
+    media?: MessageMedia;            // Media reference for media messages
+}
+
+/**
+ * Fields attached to an outbound message record before it is stored
+ */
+export interface OutboundThreadFields extends MessageContent {
+    direction: MessageDirection;
+    conversationId: Types.ObjectId;
+    contactWaId: string;
+    context?: MessageContext;
+    timestamp: Date;
+}
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const PREVIEW_LENGTH = 100;
+
+/**
+ * Extracts searchable text and media from an inbound message
+ */
+const inboundContent = (message: WebhookMessage): MessageContent => {
+    switch (message.type) {
+        case "text":
+            return { text: message.text.body };
+        case "image":
+        case "video":
+        case "audio":
+        case "sticker": {
+            const media = (message as any)[message.type];
+            return {
+                text: media.caption,
+                media: { id: media.id, mimeType: media.mime_type, sha256: media.sha256, caption: media.caption },
+            };
+        }
+        case "document":
+            return {
+                text: message.document.caption ?? message.document.filename,
+                media: {
+                    id: message.document.id,
+                    mimeType: message.document.mime_type,
+                    sha256: message.document.sha256,
+                    caption: message.document.caption,
+                    filename: message.document.filename,
+                },
+            };
+        case "location":
+            return { text: [message.location.name, message.location.address].filter(Boolean).join(", ") || undefined };
+        case "contacts":
+            return { text: message.contacts.map((contact) => contact.name.formatted_name).join(", ") };
+        case "interactive":
+            return {
+                text: message.interactive.type === "button_reply"
+                    ? message.interactive.button_reply.title
+                    : message.interactive.list_reply.title,
+            };
+        case "button":
+            return { text: message.button.text };
+        case "order":
+            return { text: message.order.text };
+        case "system":
+            return { text: message.system.body };
+        default:
+            return {};
+    }
+};
+
+/**
+ * Extracts searchable text and media from an outbound message
+ */
+const outboundContent = (message: OutboundMessage): MessageContent => {
+    switch (message.type) {
+        case "text":
+            return { text: message.text.body };
+        case "image":
+        case "video":
+        case "document":
+        case "audio":
+        case "sticker": {
+            const media = (message as any)[message.type];
+            return {
+                text: media.caption ?? media.filename,
+                media: { id: media.id, link: media.link, caption: media.caption, filename: media.filename },
+            };
+        }
+        case "location":
+            return { text: [message.location.name, message.location.address].filter(Boolean).join(", ") || undefined };
+        case "contacts":
+            return { text: message.contacts.map((contact) => contact.name.formatted_name).join(", ") };
+        case "template":
+            return { text: message.template.name };
+        case "interactive":
+            return { text: message.interactive.body.text };
+        default:
+            return {};
+    }
+};
+
+/**
+ * Builds the conversation preview of a message
+ */
+const previewOf = (type: string, content: MessageContent): string => {
+    const preview = content.text || `[${type}]`;
+    return preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH - 1)}…` : preview;
+};
+
+/**
+ * Normalises a recipient number to a wa_id (digits only)
+ */
+export const toWaId = (recipient: string): string => recipient.replace(/\D/g, "");
+
+// ==================================================
+// Conversation Service
+// ==================================================
+
+const conversationService = {
+
+    /**
+     * Stores an inbound message in its contact's conversation
+     * Reactions are applied to the message they react to instead of being stored
+     * @param event - Normalised inbound message event
+     */
+    recordInbound: async (event: InboundMessageEvent): Promise<void> => {
+        const { message } = event;
+
+        // ===== REACTIONS =====
+        if (message.type === "reaction") {
+            await conversationService.applyReaction(
+                (message as ReactionMessage).reaction.message_id,
+                message.from,
+                "inbound",
+                (message as ReactionMessage).reaction.emoji,
+                event.timestamp,
+            );
+            return;
+        }
+
+        const content = inboundContent(message);
+
+        // ===== FIND OR CREATE CONVERSATION =====
+        const conversation = await conversationModel.findOneAndUpdate(
+            { contactWaId: message.from },
+            { $setOnInsert: { contactWaId: message.from } },
+            { upsert: true, new: true }
+        );
+
+        // ===== STORE MESSAGE =====
+        // Upsert by wamid keeps retried jobs from storing the message twice
+        const result = await messageModel.updateOne(
+            { wamid: message.id },
+            {
+                $setOnInsert: {
+                    wamid: message.id,
+                    direction: "inbound",
+                    conversationId: conversation._id,
+                    contactWaId: message.from,
+                    from: message.from,
+                    to: event.displayPhoneNumber || event.phoneNumberId,
+                    waId: message.from,
+                    type: message.type,
+                    text: content.text,
+                    media: content.media,
+                    context: message.context
+                        ? {
+                              messageId: message.context.id,
+                              from: message.context.from,
+                              forwarded: message.context.forwarded || message.context.frequently_forwarded,
+                          }
+                        : undefined,
+                    timestamp: event.timestamp,
+                    payload: message,
+                    status: "received",
+                    statusHistory: [{ status: "received", timestamp: event.timestamp }],
+                },
+            },
+            { upsert: true }
+        );
+
+        // ===== UPDATE CONVERSATION =====
+        // Only a newly stored message moves the thread and its counters forward
+        if (result.upsertedCount === 0) return;
+
+        await conversationModel.updateOne(
+            { _id: conversation._id },
+            {
+                $set: {
+                    lastMessagePreview: previewOf(message.type, content),
+                    lastMessageType: message.type,
+                    lastDirection: "inbound",
+                },
+                $max: { lastMessageAt: event.timestamp, lastInboundAt: event.timestamp },
+                $inc: { messageCount: 1, unreadCount: 1 },
+            }
+        );
+    },
+
+    /**
+     * Prepares the thread fields of an outbound message and updates its conversation
+     * @param message - Outbound message payload
+     * @returns Fields to store on the outbound message record
+     */
+    prepareOutbound: async (message: OutboundMessage): Promise<OutboundThreadFields> => {
+        const contactWaId = toWaId(message.to);
+        const content = outboundContent(message);
+        const timestamp = new Date();
+
+        // ===== UPDATE CONVERSATION =====
+        // Reactions annotate an existing message and do not move the thread forward
+        const update: Record<string, unknown> =
+            message.type === "reaction"
+                ? { $setOnInsert: { messageCount: 0 } }
+                : {
+                      $set: {
+                          lastMessageAt: timestamp,
+                          lastMessagePreview: previewOf(message.type, content),
+                          lastMessageType: message.type,
+                          lastDirection: "outbound",
+                          lastOutboundAt: timestamp,
+                      },
+                      $inc: { messageCount: 1 },
+                  };
+
+        const conversation = await conversationModel.findOneAndUpdate({ contactWaId }, update, { upsert: true, new: true });
+
+        return {
+            ...content,
+            direction: "outbound",
+            conversationId: conversation._id as Types.ObjectId,
+            contactWaId,
+            context: message.context ? { messageId: message.context.message_id } : undefined,
+            timestamp,
+        };
+    },
+
+    /**
+     * Adds, replaces or removes a reaction on a stored message
+     * Each sender keeps at most one reaction per message
+     * @param targetWamid - wamid of the message reacted to
+     * @param from - Reacting wa_id (or business phone number)
+     * @param direction - Whether the customer or the business reacted
+     * @param emoji - Reaction emoji; empty or missing removes the reaction
+     * @param reactedAt - Reaction time
+     */
+    applyReaction: async (
+        targetWamid: string,
+        from: string,
+        direction: MessageDirection,
+        emoji: string | undefined,
+        reactedAt: Date,
+    ): Promise<void> => {
+        await messageModel.updateOne({ wamid: targetWamid }, { $pull: { reactions: { from } } });
+
+        if (emoji) {
+            await messageModel.updateOne(
+                { wamid: targetWamid },
+                { $push: { reactions: { emoji, from, direction, reactedAt } } }
+            );
+        }
+    },
+
+    /**
+     * Resets the unread counter of a contact's conversation
+     * @param contactWaId - Contact wa_id
+     */
+    markRead: async (contactWaId: string): Promise<void> => {
+        await conversationModel.updateOne({ contactWaId }, { $set: { unreadCount: 0 } });
+    },
+
+}
+
+export default conversationService;
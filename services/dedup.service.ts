@@ -0,0 +1,161 @@
+import config from "../config/app.config";
+import { processedEventModel } from "../models/processed.event.model";
+import { DedupMetrics } from "../types/server.types";
+import { WebhookEvent } from "../types/whatsapp.webhook.types";
+
+/**
+ * Dedup Service - Makes inbound webhook processing idempotent
+ * Meta retries webhooks, so the same message or status can arrive several
+ * times. Each message id (and each status transition of a message) is
+ * claimed in the processed_events collection with a short lease and marked
+ * completed once handled. Later copies of completed events, or of events
+ * still inside their lease, are acknowledged and skipped; a claim whose
+ * lease ran out (the worker died mid-dispatch) is taken over.
+ */
+
+// ==================================================
+// Metrics
+// ==================================================
+
+/**
+ * Duplicate counters since process start
+ */
+const metrics: DedupMetrics = {
+    checked: 0,
+    duplicateMessages: 0,
+    duplicateStatuses: 0,
+    lastDuplicateAt: null,
+};
+
+/**
+ * MongoDB duplicate key error code
+ */
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * End of the lease of a new or taken-over claim
+ */
+const leaseEnd = (): Date => new Date(Date.now() + config.webhook.dedupLeaseSeconds * 1000);
+
+/**
+ * Builds the dedup key for an event
+ * Statuses are keyed per transition, because one wamid legitimately
+ * receives sent, delivered and read updates
+ * @returns Key, or null for events that are never deduplicated
+ */
+const eventKeyOf = (event: WebhookEvent): string | null => {
+    if (event.kind === "message") return `message:${event.message.id}`;
+    if (event.kind === "status") return `status:${event.status.id}:${event.status.status}`;
+    return null;
+};
+
+// ==================================================
+// Dedup Service
+// ==================================================
+
+const dedupService = {
+
+    /**
+     * Claims an event for processing
+     * The claim stays "processing" until complete() or release() is called
+     * @param event - Normalised webhook event
+     * @returns True when this copy should be processed
+     */
+    claim: async (event: WebhookEvent): Promise<boolean> => {
+        const eventKey = eventKeyOf(event);
+        if (!eventKey || (event.kind !== "message" && event.kind !== "status")) return true;
+
+        metrics.checked += 1;
+
+        try {
+            // ===== RECORD FIRST COPY =====
+            // The unique index on eventKey rejects every later copy
+            await processedEventModel.create({
+                eventKey,
+                kind: event.kind,
+                wamid: event.kind === "message" ? event.message.id : event.status.id,
+                state: "processing",
+                leaseUntil: leaseEnd(),
+            });
+            return true;
+        } catch (error) {
+            if ((error as { code?: number } | null)?.code !== DUPLICATE_KEY_ERROR) {
+                // ===== FAIL OPEN =====
+                // Processing a copy twice is safer than dropping a message
+                console.error(`❌ Dedup check failed for ${eventKey}, processing anyway:`, error);
+                return true;
+            }
+
+            // ===== TAKE OVER ABANDONED CLAIM =====
+            // The copy that claimed the event never finished, e.g. its worker crashed
+            const reclaimed = await processedEventModel
+                .findOneAndUpdate(
+                    { eventKey, state: "processing", leaseUntil: { $lte: new Date() } },
+                    { $set: { leaseUntil: leaseEnd() } }
+                )
+                .catch((reclaimError) => {
+                    console.error(`❌ Failed to reclaim ${eventKey}, processing anyway:`, reclaimError);
+                    return true;
+                });
+            if (reclaimed) {
+                console.log(`♻️ Reclaiming unfinished webhook ${eventKey}`);
+                return true;
+            }
+
+            // ===== RECORD DUPLICATE =====
+            if (event.kind === "message") metrics.duplicateMessages += 1;
+            else metrics.duplicateStatuses += 1;
+            metrics.lastDuplicateAt = new Date().toISOString();
+
+            await processedEventModel
+                .updateOne({ eventKey }, { $inc: { duplicates: 1 }, $set: { lastDuplicateAt: new Date() } })
+                .catch((updateError) => console.error(`❌ Failed to count duplicate ${eventKey}:`, updateError));
+
+            console.log(`🔁 Skipping duplicate webhook ${eventKey}`);
+            return false;
+        }
+    },
+
+    /**
+     * Marks a claimed event as handled, so every later copy is a duplicate
+     * @param event - Normalised webhook event
+     */
+    complete: async (event: WebhookEvent): Promise<void> => {
+        const eventKey = eventKeyOf(event);
+        if (!eventKey) return;
+
+        try {
+            await processedEventModel.updateOne(
+                { eventKey },
+                { $set: { state: "completed", processedAt: new Date() }, $unset: { leaseUntil: 1 } }
+            );
+        } catch (error) {
+            console.error(`❌ Failed to complete dedup claim ${eventKey}:`, error);
+        }
+    },
+
+    /**
+     * Releases a claim so a later redelivery is processed again
+     * Used when the handler for a claimed event fails
+     * @param event - Normalised webhook event
+     */
+    release: async (event: WebhookEvent): Promise<void> => {
+        const eventKey = eventKeyOf(event);
+        if (!eventKey) return;
+
+        try {
+            await processedEventModel.deleteOne({ eventKey });
+        } catch (error) {
+            console.error(`❌ Failed to release dedup claim ${eventKey}:`, error);
+        }
+    },
+
+    /**
+     * Returns a snapshot of the duplicate counters
+     * @returns Copy of the current metrics
+     */
+    getMetrics: (): DedupMetrics => ({ ...metrics }),
+
+}
+
+export default dedupService;
@@ -0,0 +1,200 @@
+import {
+    DispatchOutcome,
+    DispatchSummary,
+    ErrorHandler,
+    MessageHandler,
+    MessageInterceptor,
+    StatusHandler,
+    TemplateStatusHandler,
+    WebhookEvent,
+    WebhookMessageType,
+} from "../types/whatsapp.webhook.types";
+
+/**
+ * Dispatcher Service - Routes normalised webhook events to registered handlers
+ * One handler is registered per inbound message type, plus handlers for
+ * status updates, template status updates and value-level errors. Inbound
+ * messages first pass through the interceptors in priority order; the type
+ * handler only runs when none of them consumed the message. A failing handler is logged and never stops
+ * the remaining events from being dispatched.
+ */
+
+// ==================================================
+// Handler Registry
+// ==================================================
+
+const messageHandlers = new Map<WebhookMessageType, MessageHandler<any>>();
+const statusHandlers: StatusHandler[] = [];
+const errorHandlers: ErrorHandler[] = [];
+const templateStatusHandlers: TemplateStatusHandler[] = [];
+
+/**
+ * Interceptors sorted by ascending priority
+ */
+const interceptors: Array<{ name: string; priority: number; interceptor: MessageInterceptor }> = [];
+
+/**
+ * Handler used for message types without a dedicated handler
+ */
+let fallbackHandler: MessageHandler | null = null;
+
+// ==================================================
+// Dispatcher Service
+// ==================================================
+
+const dispatcherService = {
+
+    /**
+     * Registers the handler for one inbound message type
+     * Registering a type twice replaces the previous handler
+     * @param type - Message type to handle
+     * @param handler - Handler receiving the typed event
+     */
+    onMessage: <T extends WebhookMessageType>(type: T, handler: MessageHandler<T>): void => {
+        messageHandlers.set(type, handler);
+    },
+
+    /**
+     * Registers the handler used when no type-specific handler exists
+     * @param handler - Handler receiving any inbound message event
+     */
+    onUnhandledMessage: (handler: MessageHandler): void => {
+        fallbackHandler = handler;
+    },
+
+    /**
+     * Registers an inbound stage that runs before the type handlers
+     * Lower priorities run first; registering a name twice replaces the stage
+     * @param name - Stage name used in logs
+     * @param priority - Position in the pipeline
+     * @param interceptor - Stage returning true when it consumed the message
+     */
+    useInterceptor: (name: string, priority: number, interceptor: MessageInterceptor): void => {
+        const existing = interceptors.findIndex((entry) => entry.name === name);
+        if (existing !== -1) interceptors.splice(existing, 1);
+
+        interceptors.push({ name, priority, interceptor });
+        interceptors.sort((a, b) => a.priority - b.priority);
+    },
+
+    /**
+     * Registers a handler for status events
+     * @param handler - Handler receiving status events
+     */
+    onStatus: (handler: StatusHandler): void => {
+        statusHandlers.push(handler);
+    },
+
+    /**
+     * Registers a handler for value-level error events
+     * @param handler - Handler receiving error events
+     */
+    onError: (handler: ErrorHandler): void => {
+        errorHandlers.push(handler);
+    },
+
+    /**
+     * Registers a handler for message template status updates
+     * @param handler - Handler receiving template status events
+     */
+    onTemplateStatus: (handler: TemplateStatusHandler): void => {
+        templateStatusHandlers.push(handler);
+    },
+
+    /**
+     * Dispatches a single event to its handlers
+     * Handler errors are logged and reported as "failed", never thrown
+     * @param event - Normalised webhook event
+     * @returns Outcome of the dispatch
+     */
+    dispatchOne: async (event: WebhookEvent): Promise<DispatchOutcome> => {
+        // ===== RUN INTERCEPTORS =====
+        if (event.kind === "message") {
+            for (const { name, interceptor } of interceptors) {
+                try {
+                    if (await interceptor(event)) return "dispatched";
+                } catch (error) {
+                    console.error(`❌ ${name} stage failed for ${describeEvent(event)}:`, error);
+                    return "failed";
+                }
+            }
+        }
+
+        // ===== RESOLVE HANDLERS =====
+        let handlers: Array<(event: any) => Promise<void> | void> = [];
+        if (event.kind === "message") {
+            const handler = messageHandlers.get(event.message.type) ?? fallbackHandler;
+            handlers = handler ? [handler] : [];
+        } else if (event.kind === "status") {
+            handlers = statusHandlers;
+        } else if (event.kind === "template_status") {
+            handlers = templateStatusHandlers;
+        } else {
+            handlers = errorHandlers;
+        }
+
+        if (handlers.length === 0) {
+            console.warn(`⚠️ No webhook handler registered for ${describeEvent(event)}`);
+            return "unhandled";
+        }
+
+        // ===== RUN HANDLERS =====
+        try {
+            for (const handler of handlers) {
+                await handler(event);
+            }
+            return "dispatched";
+        } catch (error) {
+            console.error(`❌ Webhook handler failed for ${describeEvent(event)}:`, error);
+            return "failed";
+        }
+    },
+
+    /**
+     * Dispatches events to their handlers, one after another
+     * @param events - Normalised webhook events
+     * @returns Counts of dispatched, unhandled and failed events
+     */
+    dispatch: async (events: WebhookEvent[]): Promise<DispatchSummary> => {
+        const summary = createDispatchSummary();
+
+        for (const event of events) {
+            recordOutcome(summary, await dispatcherService.dispatchOne(event));
+        }
+
+        return summary;
+    },
+
+};
+
+/**
+ * Creates an empty dispatch summary
+ */
+export const createDispatchSummary = (): DispatchSummary => ({
+    dispatched: 0,
+    unhandled: 0,
+    failed: 0,
+    duplicates: 0,
+});
+
+/**
+ * Adds a dispatch outcome to a summary
+ */
+export const recordOutcome = (summary: DispatchSummary, outcome: DispatchOutcome): void => {
+    if (outcome === "dispatched") summary.dispatched += 1;
+    else if (outcome === "unhandled") summary.unhandled += 1;
+    else if (outcome === "failed") summary.failed += 1;
+    else summary.duplicates += 1;
+};
+
+/**
+ * Short description of an event for log lines
+ */
+const describeEvent = (event: WebhookEvent): string => {
+    if (event.kind === "message") return `message ${event.message.id} (${event.message.type})`;
+    if (event.kind === "status") return `status ${event.status.id} (${event.status.status})`;
+    if (event.kind === "template_status") return `template ${event.name} (${event.event})`;
+    return `error ${event.error.code} (${event.error.title})`;
+};
+
+export default dispatcherService;
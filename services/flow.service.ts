@@ -0,0 +1,661 @@
+import fs from "fs/promises";
+import path from "path";
+import axios from "axios";
+import config from "../config/app.config";
+import outboundService from "./outbound.service";
+import receiptService from "./receipt.service";
+import { contactModel } from "../models/contact.model";
+import { flowModel, FlowSource, IFlow } from "../models/flow.model";
+import { flowSessionModel, FlowSessionStatus, IFlowSession } from "../models/flow.session.model";
+import {
+    AskNode,
+    AskValidation,
+    BranchNode,
+    FlowCondition,
+    FlowDefinition,
+    FlowMessage,
+    FlowScope,
+    SetNode,
+    WebhookNode,
+} from "../types/flow.types";
+import { InboundMessageEvent, WebhookMessage } from "../types/whatsapp.webhook.types";
+import { parseFlowSource } from "../utils/flow.parser";
+import { hasPlaceholders, interpolate, resolvePath } from "../utils/interpolate";
+
+/**
+ * Flow Service - Executes declarative conversation flows
+ * Each contact has at most one active flow session holding the current node
+ * and the collected variables. Inbound messages continue the active session,
+ * start a flow whose trigger keyword matches, or are left to the next
+ * pipeline stage. Sessions expire after a period of inactivity and the
+ * "restart"/"menu" keywords always escape the current flow.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Reply extracted from an inbound message
+ */
+interface ReplyInput {
+    text?: string;                   // Text body, caption or button/list title
+    id?: string;                     // Button/list reply id, button payload or media id
+}
+
+/**
+ * State of a session after a run
+ */
+interface RunResult {
+    flow: IFlow;
+    nodeId: string;
+    variables: Record<string, unknown>;
+    status: FlowSessionStatus;
+}
+
+// ==================================================
+// Constants
+// ==================================================
+
+const DEFAULT_RETRY_MESSAGE = "Sorry, that doesn't look right. Please try again.";
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CONTACT_ATTRIBUTE_PREFIX = "contact.attributes.";
+const SWEEP_BATCH_SIZE = 100;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Extracts the reply of an inbound message
+ * @returns Reply, or null for messages that never take part in a flow (reactions, system, ...)
+ */
+const replyOf = (message: WebhookMessage): ReplyInput | null => {
+    switch (message.type) {
+        case "text":
+            return { text: message.text.body.trim() };
+        case "interactive": {
+            const reply = message.interactive.type === "button_reply"
+                ? message.interactive.button_reply
+                : message.interactive.list_reply;
+            return { id: reply.id, text: reply.title };
+        }
+        case "button":
+            return { id: message.button.payload, text: message.button.text };
+        case "location":
+            return { text: `${message.location.latitude},${message.location.longitude}` };
+        case "image":
+        case "video":
+        case "audio":
+        case "document":
+        case "sticker": {
+            const media = (message as any)[message.type];
+            return { id: media.id, text: media.caption };
+        }
+        default:
+            return null;
+    }
+};
+
+/**
+ * Loads an active flow by key
+ */
+const getFlow = (key: string): Promise<IFlow | null> => flowModel.findOne({ key, isActive: true });
+
+/**
+ * Builds the scope used by placeholders and conditions
+ */
+const buildScope = async (
+    waId: string,
+    variables: Record<string, unknown>,
+    reply?: ReplyInput,
+): Promise<FlowScope> => {
+    const contact = await contactModel.findOne({ waId }).lean();
+    return {
+        vars: variables,
+        contact: {
+            waId,
+            name: contact?.name,
+            profileName: contact?.profileName,
+            language: contact?.language,
+            tags: contact?.tags ?? [],
+            attributes: contact?.attributes ?? {},
+        },
+        reply: reply ? reply.id ?? reply.text : undefined,
+    };
+};
+
+/**
+ * Sends a flow message to a contact with placeholders resolved
+ */
+const sendFlowMessage = async (waId: string, message: FlowMessage, scope: FlowScope): Promise<void> => {
+    await outboundService.reply(waId, interpolate(message, scope));
+};
+
+/**
+ * Validates a reply against an ask node's rules
+ * @returns Value to store, or undefined when the reply is invalid
+ */
+const validateReply = (input: ReplyInput, validation?: AskValidation): unknown => {
+    const raw = input.id ?? input.text;
+    if (raw === undefined || raw === "") return undefined;
+    if (!validation) return raw;
+
+    const { min, max } = validation;
+    switch (validation.type) {
+        case "text": {
+            const text = input.text ?? raw;
+            if (min !== undefined && text.length < min) return undefined;
+            if (max !== undefined && text.length > max) return undefined;
+            return text;
+        }
+        case "number": {
+            const value = Number(raw.replace(",", "."));
+            if (!Number.isFinite(value)) return undefined;
+            if (min !== undefined && value < min) return undefined;
+            if (max !== undefined && value > max) return undefined;
+            return value;
+        }
+        case "email":
+            return EMAIL_PATTERN.test(raw) ? raw.toLowerCase() : undefined;
+        case "phone": {
+            const digits = raw.replace(/[\s()+-]/g, "");
+            return /^\d{7,15}$/.test(digits) ? digits : undefined;
+        }
+        case "regex":
+            return new RegExp(validation.pattern ?? "", "i").test(raw) ? raw : undefined;
+        case "choice": {
+            const candidates = [input.id, input.text].filter(Boolean).map((value) => value!.toLowerCase());
+            return validation.options?.find((option) => candidates.includes(option.toLowerCase()));
+        }
+    }
+};
+
+/**
+ * Compares a scope value with a condition operand, ignoring case and type
+ */
+const looselyEquals = (value: unknown, operand: unknown): boolean =>
+    value !== undefined && value !== null && String(value).toLowerCase() === String(operand).toLowerCase();
+
+/**
+ * Evaluates a branch condition; every operator present must hold
+ */
+const evaluateCondition = (condition: FlowCondition, scope: FlowScope): boolean => {
+    if (condition.all) return condition.all.every((nested) => evaluateCondition(nested, scope));
+    if (condition.any) return condition.any.some((nested) => evaluateCondition(nested, scope));
+
+    const value = resolvePath(scope, condition.var ?? "");
+    const present = value !== undefined && value !== null && value !== "";
+    const numeric = Number(value);
+
+    if (condition.exists !== undefined && present !== condition.exists) return false;
+    if (condition.equals !== undefined && !looselyEquals(value, condition.equals)) return false;
+    if (condition.notEquals !== undefined && looselyEquals(value, condition.notEquals)) return false;
+    if (condition.in !== undefined && !condition.in.some((operand) => looselyEquals(value, operand))) return false;
+    if (condition.matches !== undefined && !new RegExp(condition.matches, "i").test(present ? String(value) : "")) return false;
+    if (condition.gt !== undefined && !(present && numeric > condition.gt)) return false;
+    if (condition.gte !== undefined && !(present && numeric >= condition.gte)) return false;
+    if (condition.lt !== undefined && !(present && numeric < condition.lt)) return false;
+    if (condition.lte !== undefined && !(present && numeric <= condition.lte)) return false;
+    return true;
+};
+
+/**
+ * Picks the next node of a branch node
+ */
+const pickBranch = (node: BranchNode, scope: FlowScope): string | undefined =>
+    node.branches.find((branch) => evaluateCondition(branch.when, scope))?.next ?? node.default;
+
+/**
+ * Applies a set node to the variables and the contact's attributes
+ */
+const applySet = async (
+    waId: string,
+    node: SetNode,
+    scope: FlowScope,
+    variables: Record<string, unknown>,
+): Promise<void> => {
+    const attributes: Record<string, unknown> = {};
+
+    for (const [key, rawValue] of Object.entries(node.values)) {
+        const value = interpolate(rawValue, scope, true);
+        if (key.startsWith(CONTACT_ATTRIBUTE_PREFIX)) {
+            const name = key.slice(CONTACT_ATTRIBUTE_PREFIX.length);
+            attributes[`attributes.${name}`] = value;
+            scope.contact.attributes[name] = value;
+        } else {
+            variables[key] = value;
+        }
+    }
+
+    if (Object.keys(attributes).length > 0) {
+        await contactModel.updateOne({ waId }, { $set: attributes });
+    }
+};
+
+/**
+ * Calls the endpoint of a webhook node
+ * The scope holds free-text replies, so it only fills URL-encoded query values and
+ * the body; the URL and headers are used as written and the origin never changes
+ * @returns Id of the next node
+ */
+const callWebhook = async (
+    node: WebhookNode,
+    scope: FlowScope,
+    variables: Record<string, unknown>,
+): Promise<string | undefined> => {
+    try {
+        // ===== BUILD URL =====
+        const headers = node.headers ?? {};
+        if (hasPlaceholders(node.url) || Object.values(headers).some((value) => hasPlaceholders(String(value)))) {
+            throw new Error("placeholders are only allowed in query and body");
+        }
+        const configured = new URL(node.url);
+        const url = new URL(node.url);
+        for (const [key, value] of Object.entries(interpolate(node.query ?? {}, scope))) {
+            url.searchParams.append(key, value === undefined || value === null ? "" : String(value));
+        }
+        if (url.origin !== configured.origin) throw new Error(`resolved origin ${url.origin} differs from ${configured.origin}`);
+
+        const response = await axios.request({
+            url: url.toString(),
+            method: node.method ?? (node.body !== undefined ? "POST" : "GET"),
+            headers,
+            data: node.body !== undefined ? interpolate(node.body, scope, true) : undefined,
+            timeout: node.timeoutMs ?? config.flows.webhookTimeoutMs,
+        });
+        if (node.saveAs) variables[node.saveAs] = response.data;
+        return node.next;
+    } catch (error) {
+        console.warn(`⚠️ Flow webhook ${node.url} failed: ${(error as Error).message}`);
+        return node.onError ?? node.next;
+    }
+};
+
+/**
+ * Runs a flow from a node until it waits for a reply or ends
+ * Failures are logged and end the session instead of being thrown, so a
+ * retried webhook never replays messages that were already sent
+ * @param waId - Contact wa_id
+ * @param flow - Flow to run
+ * @param nodeId - First node to execute; the flow ends when missing
+ * @param variables - Session variables (mutated)
+ * @param reply - Reply that led to this run
+ * @returns State to persist
+ */
+const run = async (
+    waId: string,
+    flow: IFlow,
+    nodeId: string | undefined,
+    variables: Record<string, unknown>,
+    reply?: ReplyInput,
+): Promise<RunResult> => {
+    let current = flow;
+    let currentId = nodeId;
+    let lastId = nodeId ?? flow.start;
+
+    try {
+        const scope = await buildScope(waId, variables, reply);
+
+        for (let step = 0; step < config.flows.maxStepsPerMessage; step++) {
+            if (!currentId) return { flow: current, nodeId: lastId, variables, status: "completed" };
+
+            const node = current.nodes[currentId];
+            if (!node) {
+                console.error(`❌ Flow ${current.key} has no node "${currentId}"`);
+                return { flow: current, nodeId: lastId, variables, status: "cancelled" };
+            }
+            lastId = currentId;
+
+            switch (node.type) {
+                case "send":
+                    await sendFlowMessage(waId, node.message, scope);
+                    currentId = node.next;
+                    break;
+
+                case "ask":
+                    await sendFlowMessage(waId, node.prompt, scope);
+                    return { flow: current, nodeId: currentId, variables, status: "active" };
+
+                case "branch":
+                    currentId = pickBranch(node, scope);
+                    break;
+
+                case "set":
+                    await applySet(waId, node, scope, variables);
+                    currentId = node.next;
+                    break;
+
+                case "webhook":
+                    currentId = await callWebhook(node, scope, variables);
+                    break;
+
+                case "goto":
+                    if (node.flow && node.flow !== current.key) {
+                        const target = await getFlow(node.flow);
+                        if (!target) {
+                            console.error(`❌ Flow ${current.key} jumps to unknown or inactive flow "${node.flow}"`);
+                            return { flow: current, nodeId: lastId, variables, status: "cancelled" };
+                        }
+                        current = target;
+                    }
+                    currentId = node.node ?? current.start;
+                    break;
+
+                case "end":
+                    if (node.message) await sendFlowMessage(waId, node.message, scope);
+                    return { flow: current, nodeId: currentId, variables, status: "completed" };
+            }
+        }
+
+        console.error(`❌ Flow ${current.key} stopped after ${config.flows.maxStepsPerMessage} steps at "${lastId}"`);
+        return { flow: current, nodeId: lastId, variables, status: "cancelled" };
+    } catch (error) {
+        console.error(`❌ Flow ${current.key} failed at "${lastId}" for ${waId}:`, error);
+        return { flow: current, nodeId: lastId, variables, status: "cancelled" };
+    }
+};
+
+/**
+ * Stores the state of a contact's session after a run
+ */
+const saveSession = async (waId: string, result: RunResult, started: boolean): Promise<IFlowSession> => {
+    const now = new Date();
+    const timeoutMinutes = result.flow.timeoutMinutes ?? config.flows.sessionTimeoutMinutes;
+    const active = result.status === "active";
+
+    const set: Record<string, unknown> = {
+        flowKey: result.flow.key,
+        nodeId: result.nodeId,
+        variables: result.variables,
+        status: result.status,
+        retries: 0,
+        lastInteractionAt: now,
+        expiresAt: active ? new Date(now.getTime() + timeoutMinutes * 60 * 1000) : null,
+        endedAt: active ? null : now,
+    };
+    if (started) set.startedAt = now;
+
+    const session = await flowSessionModel.findOneAndUpdate(
+        { contactWaId: waId },
+        { $set: set },
+        { upsert: true, new: true }
+    );
+    return session!;
+};
+
+/**
+ * Expires a session and sends its flow's timeout message
+ * The atomic claim makes sure only one instance sends the message
+ * @returns true when this call expired the session
+ */
+const expireSession = async (sessionId: unknown, now: Date): Promise<boolean> => {
+    const session = await flowSessionModel.findOneAndUpdate(
+        { _id: sessionId, status: "active", expiresAt: { $lte: now } },
+        { $set: { status: "expired", endedAt: now } },
+        { new: true }
+    );
+    if (!session) return false;
+
+    const flow = await getFlow(session.flowKey);
+    if (flow?.timeoutMessage) {
+        try {
+            const scope = await buildScope(session.contactWaId, session.variables);
+            await sendFlowMessage(session.contactWaId, flow.timeoutMessage, scope);
+        } catch (error) {
+            console.error(`❌ Failed to send timeout message of flow ${flow.key} to ${session.contactWaId}:`, error);
+        }
+    }
+    return true;
+};
+
+/**
+ * Continues an active session with the reply to its pending question
+ */
+const continueSession = async (session: IFlowSession, flow: IFlow, node: AskNode, input: ReplyInput): Promise<void> => {
+    const waId = session.contactWaId;
+    const variables = { ...session.variables };
+    const value = validateReply(input, node.validation);
+
+    // ===== VALID REPLY =====
+    if (value !== undefined) {
+        variables[node.variable] = value;
+        await saveSession(waId, await run(waId, flow, node.next, variables, input), false);
+        return;
+    }
+
+    // ===== INVALID REPLY =====
+    const retries = session.retries + 1;
+    if (retries > (node.maxRetries ?? config.flows.maxRetries)) {
+        await saveSession(waId, await run(waId, flow, node.onInvalid, variables, input), false);
+        return;
+    }
+
+    try {
+        const scope = await buildScope(waId, variables, input);
+        await sendFlowMessage(waId, node.retryMessage ?? DEFAULT_RETRY_MESSAGE, scope);
+    } catch (error) {
+        console.error(`❌ Failed to send retry message of flow ${flow.key} to ${waId}:`, error);
+    }
+
+    const now = new Date();
+    const timeoutMinutes = flow.timeoutMinutes ?? config.flows.sessionTimeoutMinutes;
+    await flowSessionModel.updateOne(
+        { _id: session._id },
+        {
+            $set: {
+                retries,
+                lastInteractionAt: now,
+                expiresAt: new Date(now.getTime() + timeoutMinutes * 60 * 1000),
+            },
+        }
+    );
+};
+
+// ==================================================
+// Flow Service
+// ==================================================
+
+const flowService = {
+
+    /**
+     * Inbound pipeline stage
+     * Handles escape keywords, continues the active session or starts a triggered flow
+     * @param event - Normalised inbound message event
+     * @returns true when a flow consumed the message
+     */
+    handleInbound: async (event: InboundMessageEvent): Promise<boolean> => {
+        const waId = event.message.from;
+        const input = replyOf(event.message);
+        if (!input) return false;
+
+        const keyword = (input.id ?? input.text)?.toLowerCase();
+        let session = await flowSessionModel.findOne({ contactWaId: waId });
+
+        // ===== TIMEOUT =====
+        if (session?.status === "active" && session.expiresAt && session.expiresAt <= event.timestamp) {
+            await expireSession(session._id, event.timestamp);
+            session = await flowSessionModel.findOne({ contactWaId: waId });
+        }
+
+        // ===== ESCAPE KEYWORDS =====
+        if (keyword && config.flows.restartKeywords.includes(keyword) && session) {
+            if (await flowService.startFlow(waId, session.flowKey, {}, event.message.id)) return true;
+        }
+        if (keyword && config.flows.menuKeywords.includes(keyword)) {
+            const menu = await flowModel.findOne({ isMenu: true, isActive: true });
+            if (menu && (await flowService.startFlow(waId, menu.key, {}, event.message.id))) return true;
+        }
+
+        // ===== ACTIVE SESSION =====
+        if (session?.status === "active") {
+            const flow = await getFlow(session.flowKey);
+            const node = flow?.nodes[session.nodeId];
+            if (flow && node?.type === "ask") {
+                receiptService.configure(event.message.id, flow.receipts);
+                await continueSession(session, flow, node, input);
+                return true;
+            }
+
+            // The flow changed under the session; drop it and let the message through
+            console.warn(`⚠️ Cancelled flow session of ${waId}: ${session.flowKey}/${session.nodeId} is no longer a question`);
+            await flowSessionModel.updateOne(
+                { _id: session._id },
+                { $set: { status: "cancelled", endedAt: new Date(), expiresAt: null } }
+            );
+        }
+
+        // ===== TRIGGER KEYWORDS =====
+        if (keyword) {
+            const flow = await flowModel.findOne({ triggers: keyword, isActive: true });
+            if (flow && (await flowService.startFlow(waId, flow.key, {}, event.message.id))) return true;
+        }
+
+        return false;
+    },
+
+    /**
+     * Starts a flow for a contact, replacing any current session
+     * @param waId - Contact wa_id
+     * @param flowKey - Flow key
+     * @param variables - Initial session variables
+     * @param inboundMessageId - Message that started the flow, whose receipts follow the flow's settings
+     * @returns Session after the first run, or null when the flow does not exist or is inactive
+     */
+    startFlow: async (
+        waId: string,
+        flowKey: string,
+        variables: Record<string, unknown> = {},
+        inboundMessageId?: string,
+    ): Promise<IFlowSession | null> => {
+        const flow = await getFlow(flowKey);
+        if (!flow) return null;
+
+        if (inboundMessageId) receiptService.configure(inboundMessageId, flow.receipts);
+        console.log(`🔀 Starting flow ${flow.key} for ${waId}`);
+        return saveSession(waId, await run(waId, flow, flow.start, { ...variables }), true);
+    },
+
+    /**
+     * Cancels the active session of a contact
+     * @param waId - Contact wa_id
+     * @returns true when an active session was cancelled
+     */
+    cancelSession: async (waId: string): Promise<boolean> => {
+        const result = await flowSessionModel.updateOne(
+            { contactWaId: waId, status: "active" },
+            { $set: { status: "cancelled", endedAt: new Date(), expiresAt: null } }
+        );
+        return result.modifiedCount > 0;
+    },
+
+    /**
+     * Creates or replaces a flow from a validated definition
+     * @param definition - Validated flow definition
+     * @param source - Where the definition came from
+     * @returns Stored flow
+     */
+    saveDefinition: async (definition: FlowDefinition, source: FlowSource): Promise<IFlow> => {
+        const flow = await flowModel.findOneAndUpdate(
+            { key: definition.key },
+            {
+                $set: {
+                    name: definition.name,
+                    description: definition.description,
+                    triggers: definition.triggers ?? [],
+                    isMenu: definition.isMenu ?? false,
+                    isActive: definition.isActive ?? true,
+                    timeoutMinutes: definition.timeoutMinutes,
+                    timeoutMessage: definition.timeoutMessage,
+                    receipts: definition.receipts,
+                    start: definition.start,
+                    nodes: definition.nodes,
+                    source,
+                },
+            },
+            { upsert: true, new: true, runValidators: true }
+        );
+
+        // Only one menu flow; the newest one wins
+        if (flow!.isMenu) {
+            await flowModel.updateMany({ _id: { $ne: flow!._id }, isMenu: true }, { $set: { isMenu: false } });
+        }
+        return flow!;
+    },
+
+    /**
+     * Loads every .json/.yaml/.yml flow definition from the flows directory
+     * Invalid files are logged and skipped
+     * @param directory - Directory to load from
+     * @returns Number of flows loaded
+     */
+    loadFromDirectory: async (directory: string = config.flows.directory): Promise<number> => {
+        const root = path.resolve(directory);
+
+        let files: string[];
+        try {
+            files = await fs.readdir(root);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+            throw error;
+        }
+
+        let loaded = 0;
+        for (const file of files.sort()) {
+            const extension = path.extname(file).toLowerCase();
+            if (![".json", ".yaml", ".yml"].includes(extension)) continue;
+
+            const source = await fs.readFile(path.join(root, file), "utf8");
+            const { definition, issues } = parseFlowSource(source, extension === ".json" ? "json" : "yaml");
+            if (!definition) {
+                console.error(`❌ Skipped flow file ${file}:\n  ${issues.join("\n  ")}`);
+                continue;
+            }
+
+            await flowService.saveDefinition(definition, "file");
+            loaded += 1;
+        }
+        return loaded;
+    },
+
+    /**
+     * Expires every active session past its timeout
+     * @returns Number of sessions expired by this call
+     */
+    expireSessions: async (): Promise<number> => {
+        const now = new Date();
+        const sessions = await flowSessionModel
+            .find({ status: "active", expiresAt: { $lte: now } }, { _id: 1 })
+            .limit(SWEEP_BATCH_SIZE)
+            .lean();
+
+        let expired = 0;
+        for (const session of sessions) {
+            if (await expireSession(session._id, now)) expired += 1;
+        }
+        return expired;
+    },
+
+    /**
+     * Starts the periodic expired session sweep
+     */
+    start: (): void => {
+        if (sweepTimer) return;
+        sweepTimer = setInterval(() => {
+            flowService.expireSessions().catch((error) => console.error("❌ Flow session sweep failed:", error));
+        }, config.flows.sweepIntervalMs);
+    },
+
+    /**
+     * Stops the expired session sweep
+     */
+    stop: (): void => {
+        if (sweepTimer) clearInterval(sweepTimer);
+        sweepTimer = null;
+    },
+
+}
+
+export default flowService;
@@ -0,0 +1,126 @@
+import outboundService, { OutboundResult } from "./outbound.service";
+import receiptService from "./receipt.service";
+import { messageModel } from "../models/message.model";
+import { InteractiveReply, InteractiveReplyHandler } from "../types/interactive.types";
+import { ReceiptOptions } from "../types/receipt.types";
+import { OutboundInteractive } from "../types/whatsapp.client.types";
+import { InboundMessageEvent, InteractiveMessage } from "../types/whatsapp.webhook.types";
+
+/**
+ * Interactive Service - Sends interactive messages on behalf of named
+ * handlers and routes the answers back to them. The handler name is stored
+ * on the outbound message, so replies still reach it after a restart as
+ * long as the handler is registered again at startup.
+ */
+
+// ==================================================
+// Registry
+// ==================================================
+
+const replyHandlers = new Map<string, InteractiveReplyHandler>();
+const replyReceipts = new Map<string, ReceiptOptions>();
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds the typed reply, enriched with the section of a list row
+ */
+const replyOf = (message: InteractiveMessage, payload: any): InteractiveReply => {
+    const { interactive } = message;
+    if (interactive.type === "button_reply") {
+        return { type: "button_reply", id: interactive.button_reply.id, title: interactive.button_reply.title };
+    }
+
+    const { id, title, description } = interactive.list_reply;
+    const sections: Array<{ title?: string; rows?: Array<{ id: string }> }> = payload?.interactive?.action?.sections ?? [];
+    const section = sections.find((candidate) => candidate.rows?.some((row) => row.id === id))?.title;
+    return {
+        type: "list_reply",
+        id,
+        title,
+        ...(description !== undefined ? { description } : {}),
+        ...(section !== undefined ? { section } : {}),
+    };
+};
+
+// ==================================================
+// Interactive Service
+// ==================================================
+
+const interactiveService = {
+
+    /**
+     * Registers a handler for replies to interactive messages
+     * Registering a name twice replaces the previous handler
+     * @param name - Handler name stored on the messages it sends
+     * @param handler - Handler receiving typed replies
+     * @param receipts - Read receipt and typing indicator overrides for the replies
+     */
+    registerHandler: (name: string, handler: InteractiveReplyHandler, receipts?: ReceiptOptions): void => {
+        replyHandlers.set(name, handler);
+        if (receipts) replyReceipts.set(name, receipts);
+        else replyReceipts.delete(name);
+    },
+
+    /**
+     * Checks whether a reply handler is registered
+     * @param name - Handler name
+     */
+    hasHandler: (name: string): boolean => replyHandlers.has(name),
+
+    /**
+     * Sends an interactive message whose replies go to a handler
+     * @param to - Recipient wa_id
+     * @param interactive - Interactive payload, usually from the interactive builder
+     * @param handler - Registered handler name; replies go through the normal pipeline when omitted
+     * @returns Internal message ID and wamid
+     * @throws CustomError - VALIDATION_ERROR for payloads over WhatsApp's limits, or a mapped Graph API error
+     */
+    send: (to: string, interactive: OutboundInteractive, handler?: string): Promise<OutboundResult> => {
+        if (handler && !replyHandlers.has(handler)) {
+            console.warn(`⚠️ Interactive message to ${to} names unregistered reply handler ${handler}`);
+        }
+        return outboundService.reply(to, { type: "interactive", interactive }, { replyHandler: handler });
+    },
+
+    /**
+     * Inbound pipeline stage handing button and list replies to the handler
+     * that sent the interactive message
+     * @param event - Normalised inbound message event
+     * @returns true when a reply handler ran
+     */
+    handleInbound: async (event: InboundMessageEvent): Promise<boolean> => {
+        if (event.message.type !== "interactive" || !event.message.context?.id) return false;
+        const replyEvent = event as InboundMessageEvent<InteractiveMessage>;
+        const wamid = event.message.context.id;
+
+        const original = await messageModel
+            .findOne({ wamid, direction: "outbound", replyHandler: { $exists: true } }, { replyHandler: 1, payload: 1 })
+            .lean();
+        if (!original?.replyHandler) return false;
+
+        const handler = replyHandlers.get(original.replyHandler);
+        if (!handler) {
+            console.warn(`⚠️ No reply handler ${original.replyHandler} registered for answers to ${wamid}`);
+            return false;
+        }
+
+        const reply = replyOf(replyEvent.message, original.payload);
+        console.log(`🔘 ${reply.type} ${reply.id} from ${event.message.from} → ${original.replyHandler}`);
+        receiptService.configure(event.message.id, replyReceipts.get(original.replyHandler));
+        await handler({
+            event: replyEvent,
+            waId: event.message.from,
+            reply,
+            messageId: String(original._id),
+            wamid,
+            respond: (content) => outboundService.reply(event.message.from, content),
+        });
+        return true;
+    },
+
+}
+
+export default interactiveService;
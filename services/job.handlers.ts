@@ -0,0 +1,39 @@
+import queueService from "./queue.service";
+import messageService from "./message.service";
+import mediaService from "./media.service";
+import campaignService from "./campaign.service";
+import { CampaignRunPayload } from "../types/campaign.types";
+import { MediaDownloadPayload } from "../types/media.types";
+import { JOB_TYPES } from "../types/queue.types";
+
+/**
+ * Job Handlers - Registers the handler for every job type
+ * Called once during startup, before the job worker is started
+ */
+
+/**
+ * Registers all job handlers with the shared queue
+ */
+export const registerJobHandlers = (): void => {
+    // ===== INBOUND WEBHOOK PAYLOADS =====
+    // Throwing when an event failed retries the payload; events that already
+    // succeeded are skipped on the retry by message-id deduplication
+    queueService.registerHandler(JOB_TYPES.WEBHOOK_INBOUND, async (job) => {
+        const summary = await messageService.messageReceived(job.payload);
+        if (summary.failed > 0) {
+            throw new Error(`${summary.failed} webhook event(s) failed`);
+        }
+    });
+
+    // ===== INBOUND MEDIA DOWNLOADS =====
+    // Throwing retries the download with a fresh media URL
+    queueService.registerHandler(JOB_TYPES.MEDIA_DOWNLOAD, async (job) => {
+        await mediaService.download((job.payload as MediaDownloadPayload).wamid);
+    });
+
+    // ===== CAMPAIGN SLICES =====
+    // Each run sends for one slice and queues the next while recipients remain
+    queueService.registerHandler(JOB_TYPES.CAMPAIGN_RUN, async (job) => {
+        await campaignService.run((job.payload as CampaignRunPayload).campaignId);
+    });
+};
@@ -0,0 +1,223 @@
+import crypto from "crypto";
+import path from "path";
+import config from "../config/app.config";
+import whatsappClient from "./whatsapp.client.service";
+import outboundService, { OutboundResult } from "./outbound.service";
+import queueService from "./queue.service";
+import storageService from "./storage.service";
+import socketService, { SOCKET_EVENTS } from "./socket.service";
+import { IMessage, messageModel, MessageMedia } from "../models/message.model";
+import { IMedia, mediaModel, UploadedMediaType } from "../models/media.model";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { JOB_TYPES } from "../types/queue.types";
+import { OutboundContent } from "../types/whatsapp.client.types";
+import { InboundMessageEvent } from "../types/whatsapp.webhook.types";
+
+/**
+ * Media Service - Downloads inbound media and uploads outbound media
+ * Inbound image, audio, video and document messages only carry a media id.
+ * A queued job resolves its short-lived URL through the Graph API,
+ * downloads the file, checks it against the sha256 from the webhook and
+ * stores it with the configured storage backend. The stored file is linked
+ * from the message's media field.
+ * Outbound files are uploaded to the /media endpoint once and the returned
+ * media id is kept, with its expiry, so it can be sent many times.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+const DOWNLOADABLE_TYPES = ["image", "audio", "video", "document"];
+const CAPTIONED_TYPES: UploadedMediaType[] = ["image", "video", "document"];
+
+/**
+ * File extensions of common WhatsApp MIME types
+ */
+const EXTENSIONS: Record<string, string> = {
+    "image/jpeg": ".jpg",
+    "image/png": ".png",
+    "image/webp": ".webp",
+    "audio/aac": ".aac",
+    "audio/amr": ".amr",
+    "audio/mpeg": ".mp3",
+    "audio/mp4": ".m4a",
+    "audio/ogg": ".ogg",
+    "video/mp4": ".mp4",
+    "video/3gpp": ".3gp",
+    "application/pdf": ".pdf",
+    "text/plain": ".txt",
+    "application/msword": ".doc",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+    "application/vnd.ms-excel": ".xls",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+    "application/vnd.ms-powerpoint": ".ppt",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation": ".pptx",
+};
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Picks a file extension from the MIME type, then from the original file name
+ */
+const extensionOf = (mimeType?: string, filename?: string): string => {
+    const base = mimeType?.split(";")[0].trim().toLowerCase();
+    if (base && EXTENSIONS[base]) return EXTENSIONS[base];
+    const fromName = filename ? path.extname(filename).toLowerCase() : "";
+    return /^\.[a-z0-9]{1,8}$/.test(fromName) ? fromName : ".bin";
+};
+
+/**
+ * Builds the storage key of a message's media: media/<yyyy>/<mm>/<wamid><ext>
+ */
+const storageKeyOf = (wamid: string, timestamp: Date, media: MessageMedia): string => {
+    const year = String(timestamp.getUTCFullYear());
+    const month = String(timestamp.getUTCMonth() + 1).padStart(2, "0");
+    const name = wamid.replace(/[^\w.-]/g, "_");
+    return `media/${year}/${month}/${name}${extensionOf(media.mimeType, media.filename)}`;
+};
+
+/**
+ * Checks a download against an expected SHA-256
+ * Webhooks send the hash base64-encoded, the media endpoint hex-encoded
+ */
+const matchesSha256 = (data: Buffer, expected: string): boolean => {
+    const digest = crypto.createHash("sha256").update(data).digest();
+    return expected === digest.toString("base64") || expected.toLowerCase() === digest.toString("hex");
+};
+
+// ==================================================
+// Media Service
+// ==================================================
+
+const mediaService = {
+
+    /**
+     * Queues the download of an inbound message's media
+     * Messages without downloadable media are ignored
+     * @param event - Normalised inbound message event
+     */
+    enqueueDownload: async (event: InboundMessageEvent): Promise<void> => {
+        if (!DOWNLOADABLE_TYPES.includes(event.message.type)) return;
+        await queueService.enqueue(JOB_TYPES.MEDIA_DOWNLOAD, { wamid: event.message.id });
+    },
+
+    /**
+     * Downloads and stores the media of an inbound message
+     * Media that is already stored is not downloaded again
+     * @param wamid - wamid of the inbound message
+     * @returns Stored media, or null when the message has no media id
+     * @throws Error - When the message is missing, the download fails or the hash does not match
+     */
+    download: async (wamid: string): Promise<MessageMedia | null> => {
+        const message = await messageModel.findOne({ wamid, direction: "inbound" }).lean<IMessage>();
+        if (!message) throw new Error(`Inbound message ${wamid} not found`);
+
+        const media = message.media;
+        if (!media?.id) return null;
+        if (media.storedAt) return media;
+
+        // ===== RESOLVE AND DOWNLOAD =====
+        const info = await whatsappClient.getMediaInfo(media.id);
+        const data = await whatsappClient.downloadMedia(info.url, config.media.maxDownloadBytes, config.media.downloadTimeoutMs);
+
+        // ===== VERIFY INTEGRITY =====
+        const expected = media.sha256 || info.sha256;
+        if (expected && !matchesSha256(data, expected)) {
+            throw new Error(`SHA-256 mismatch for media ${media.id} of ${wamid}`);
+        }
+
+        // ===== STORE AND LINK =====
+        const mimeType = media.mimeType || info.mime_type;
+        const stored = await storageService
+            .get()
+            .save(storageKeyOf(wamid, message.timestamp, { ...media, mimeType }), data, mimeType);
+
+        const storedAt = new Date();
+        await messageModel.updateOne(
+            { _id: message._id },
+            {
+                $set: {
+                    "media.mimeType": mimeType,
+                    "media.size": stored.size,
+                    "media.storage": stored.storage,
+                    "media.storageKey": stored.key,
+                    "media.url": stored.url,
+                    "media.storedAt": storedAt,
+                },
+            }
+        );
+
+        console.log(`📎 Stored ${message.type} of ${wamid} (${stored.size} bytes) at ${stored.storage}:${stored.key}`);
+        socketService.emit(SOCKET_EVENTS.MESSAGE_MEDIA, {
+            messageId: String(message._id),
+            wamid,
+            contactWaId: message.contactWaId,
+            url: stored.url,
+            mimeType,
+            size: stored.size,
+        });
+
+        return { ...media, mimeType, size: stored.size, storage: stored.storage, storageKey: stored.key, url: stored.url, storedAt };
+    },
+
+    /**
+     * Uploads a file to WhatsApp and keeps its media id
+     * @param file - File contents, MIME type and original name
+     * @param type - Media type the file was validated for
+     * @returns Stored upload with its media id and expiry
+     * @throws CustomError - Mapped Graph API error
+     */
+    upload: async (
+        file: { buffer: Buffer; mimetype: string; originalname: string; size: number },
+        type: UploadedMediaType,
+    ): Promise<IMedia> => {
+        const mediaId = await whatsappClient.uploadMedia(file.buffer, file.mimetype, file.originalname);
+        const expiresAt = new Date(Date.now() + config.media.uploadExpiryDays * 24 * 60 * 60 * 1000);
+
+        const media = await mediaModel.create({
+            mediaId,
+            phoneNumberId: whatsappClient.getPhoneNumberId(),
+            type,
+            mimeType: file.mimetype,
+            filename: file.originalname,
+            size: file.size,
+            sha256: crypto.createHash("sha256").update(file.buffer).digest("hex"),
+            expiresAt,
+        });
+
+        console.log(`📤 Uploaded ${type} ${file.originalname} as media ${mediaId}`);
+        return media;
+    },
+
+    /**
+     * Sends an uploaded media file to a contact
+     * @param media - Stored upload
+     * @param to - Recipient wa_id
+     * @param caption - Caption for images, videos and documents
+     * @returns Internal message ID and wamid
+     * @throws CustomError - VALIDATION_ERROR when the media id expired, or a mapped Graph API error
+     */
+    sendUploaded: (media: IMedia, to: string, caption?: string): Promise<OutboundResult> => {
+        if (media.expiresAt.getTime() <= Date.now()) {
+            const error: CustomError = new Error(`Media ${media.mediaId} expired on ${media.expiresAt.toISOString()}; upload the file again`);
+            error.status = 400;
+            error.errorCode = ErrorCode.VALIDATION_ERROR;
+            error.color = "yellow";
+            return Promise.reject(error);
+        }
+
+        const reference = {
+            id: media.mediaId,
+            ...(caption && CAPTIONED_TYPES.includes(media.type) ? { caption } : {}),
+            ...(media.type === "document" ? { filename: media.filename } : {}),
+        };
+        const content: Record<string, unknown> = { type: media.type, [media.type]: reference };
+        return outboundService.reply(to, content as OutboundContent);
+    },
+
+}
+
+export default mediaService;
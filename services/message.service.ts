@@ -1,9 +1,166 @@
+import dispatcherService, { createDispatchSummary, recordOutcome } from "./dispatcher.service";
+import dedupService from "./dedup.service";
+import statusService from "./status.service";
+import contactService from "./contact.service";
+import conversationService from "./conversation.service";
+import flowService from "./flow.service";
+import commandService from "./command.service";
+import templateService from "./template.service";
+import interactiveService from "./interactive.service";
+import mediaService from "./media.service";
+import campaignService from "./campaign.service";
+import scheduleService from "./schedule.service";
+import receiptService from "./receipt.service";
+import { parseWebhookPayload } from "../utils/webhook.parser";
+import { DispatchOutcome, DispatchSummary, InboundMessageEvent, INTERCEPTOR_PRIORITY } from "../types/whatsapp.webhook.types";
+
+/**
+ * Message Service - Entry point for inbound WhatsApp webhook payloads
+ * Parses the raw webhook body into normalised events and hands them to the
+ * dispatcher, where pipeline stages (interactive replies, flows, commands, fallback) see each
+ * message before the per-type handlers. Malformed items are logged and skipped so one bad message
+ * never prevents the rest of the payload from being processed, and
+ * redelivered messages/statuses are acknowledged without being processed again.
+ */
+
+// ==================================================
+// Pipeline Stages
+// ==================================================
+
+dispatcherService.useInterceptor("interactive", INTERCEPTOR_PRIORITY.INTERACTIVE, interactiveService.handleInbound);
+dispatcherService.useInterceptor("flows", INTERCEPTOR_PRIORITY.FLOWS, flowService.handleInbound);
+dispatcherService.useInterceptor("commands", INTERCEPTOR_PRIORITY.COMMANDS, commandService.handleInbound);
+dispatcherService.useInterceptor("fallback", INTERCEPTOR_PRIORITY.FALLBACK, commandService.handleFallback);
+
+// ==================================================
+// Default Handlers
+// ==================================================
+
+/**
+ * Logs an inbound message in a single line
+ */
+const logInbound = (event: InboundMessageEvent, summary: string): void => {
+    console.log(`📩 [${event.message.type}] ${event.message.from} → ${event.displayPhoneNumber}: ${summary}`);
+};
+
+dispatcherService.onMessage("text", (event) => logInbound(event, event.message.text.body));
+dispatcherService.onMessage("image", (event) => logInbound(event, `image ${event.message.image.id}`));
+dispatcherService.onMessage("audio", (event) => logInbound(event, `audio ${event.message.audio.id}`));
+dispatcherService.onMessage("video", (event) => logInbound(event, `video ${event.message.video.id}`));
+dispatcherService.onMessage("document", (event) => logInbound(event, `document ${event.message.document.id}`));
+dispatcherService.onMessage("sticker", (event) => logInbound(event, `sticker ${event.message.sticker.id}`));
+dispatcherService.onMessage("location", (event) =>
+    logInbound(event, `location ${event.message.location.latitude},${event.message.location.longitude}`),
+);
+dispatcherService.onMessage("contacts", (event) =>
+    logInbound(event, `${event.message.contacts.length} contact card(s)`),
+);
+dispatcherService.onMessage("interactive", (event) => {
+    const { interactive } = event.message;
+    const reply = interactive.type === "button_reply" ? interactive.button_reply : interactive.list_reply;
+    logInbound(event, `${interactive.type} ${reply.id}`);
+});
+dispatcherService.onMessage("reaction", (event) =>
+    logInbound(event, `${event.message.reaction.emoji ?? "(removed)"} on ${event.message.reaction.message_id}`),
+);
+dispatcherService.onMessage("button", (event) => logInbound(event, `button ${event.message.button.payload}`));
+dispatcherService.onMessage("order", (event) =>
+    logInbound(event, `order with ${event.message.order.product_items.length} item(s)`),
+);
+dispatcherService.onUnhandledMessage((event) => logInbound(event, "no handler for this message type"));
+
+dispatcherService.onStatus(statusService.applyStatus);
+dispatcherService.onStatus(campaignService.applyStatus);
+
+dispatcherService.onTemplateStatus(templateService.applyStatusUpdate);
+
+dispatcherService.onError((event) => {
+    console.error(`❌ WhatsApp webhook error ${event.error.code}: ${event.error.title}`);
+});
+
+// ==================================================
+// Message Service
+// ==================================================
+
 const messageService = {
 
-     messageReceived: async (body:any) => {
-        console.log(body);
-    }
+    /**
+     * Processes a raw webhook body
+     * @param body - Raw webhook payload as received from Meta
+     * @returns Dispatch summary for the payload
+     */
+    messageReceived: async (body: unknown): Promise<DispatchSummary> => {
+        // ===== PARSE AND VALIDATE PAYLOAD =====
+        const { events, issues } = parseWebhookPayload(body);
+
+        // ===== LOG SKIPPED ITEMS =====
+        // Malformed or unknown items are reported but never fail the request
+        for (const issue of issues) {
+            console.warn(`⚠️ Skipped webhook item at ${issue.path}: ${issue.reason}`);
+        }
+
+        // ===== DISPATCH EVENTS =====
+        const summary = createDispatchSummary();
+        for (const event of events) {
+            // Skip copies of events that were already processed
+            if (!(await dedupService.claim(event))) {
+                recordOutcome(summary, "duplicate");
+                continue;
+            }
+
+            if (event.kind === "message") {
+                // Keep the sender's contact record up to date before any handler runs
+                await contactService.recordInbound(event).catch((error) =>
+                    console.error(`❌ Failed to record contact ${event.message.from}:`, error),
+                );
+
+                // Store the message in the contact's conversation; retry the event if that fails
+                try {
+                    await conversationService.recordInbound(event);
+                } catch (error) {
+                    console.error(`❌ Failed to store message ${event.message.id}:`, error);
+                    recordOutcome(summary, "failed");
+                    await dedupService.release(event);
+                    continue;
+                }
+
+                // Download attached media in the background
+                await mediaService.enqueueDownload(event).catch((error) =>
+                    console.error(`❌ Failed to queue media download for ${event.message.id}:`, error),
+                );
+
+                // Count the message as a reply to a recent campaign send
+                await campaignService.recordReply(event).catch((error) =>
+                    console.error(`❌ Failed to record campaign reply from ${event.message.from}:`, error),
+                );
+
+                // Cancel follow-ups that wait for the contact not to answer
+                await scheduleService.handleInbound(event).catch((error) =>
+                    console.error(`❌ Failed to cancel scheduled messages for ${event.message.from}:`, error),
+                );
+            }
+
+            // Mark messages as read and show typing while slow handlers run
+            if (event.kind === "message") receiptService.begin(event);
+            let outcome: DispatchOutcome;
+            try {
+                outcome = await dispatcherService.dispatchOne(event);
+            } finally {
+                if (event.kind === "message") receiptService.finish(event);
+            }
+            recordOutcome(summary, outcome);
+
+            // Let a redelivery retry events whose handler failed
+            if (outcome === "failed") {
+                await dedupService.release(event);
+            } else {
+                await dedupService.complete(event);
+            }
+        }
+
+        return summary;
+    },
 
 }
 
-export default messageService;
\ No newline at end of file
+export default messageService;
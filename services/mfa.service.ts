@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import speakeasy from "speakeasy";
+import config from "../config/app.config";
+import AES from "../utils/encyption";
+import { adminModel, IUser } from "../models/admin.model";
+import { MfaEnrollment } from "../types/auth.types";
+import { CustomError, ErrorCode } from "../types/error.types";
+
+/**
+ * MFA Service - TOTP multi-factor authentication for admins
+ * Enrollment stores a fresh secret, encrypted with AES, and hands the
+ * otpauth URI to the admin's authenticator app; MFA only turns on once a
+ * code from the app has been verified. Enabling issues one-time recovery
+ * codes, stored as SHA-256 hashes. Accepted codes are remembered by time
+ * step so an intercepted code cannot be replayed.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+const TOTP_STEP_SECONDS = 30;
+const NO_SECRET = "N/A";
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const mfaError = (message: string, status: number, errorCode: ErrorCode): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = status;
+    error.errorCode = errorCode;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Normalises a recovery code as typed by the admin (case, spaces and dashes)
+ */
+const normaliseRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, "");
+
+/**
+ * Generates recovery codes in the form xxxxx-xxxxx
+ */
+const generateRecoveryCodes = (): string[] =>
+    Array.from({ length: config.mfa.recoveryCodes }, () => {
+        const code = crypto.randomBytes(5).toString("hex");
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+/**
+ * Loads an admin for an MFA change, failing when they no longer exist
+ */
+const loadAdmin = async (adminId: string, withPassword: boolean = false): Promise<IUser> => {
+    const query = adminModel.findById(adminId);
+    const admin = await (withPassword ? query.select("+password") : query);
+    if (!admin) throw mfaError("Unauthorized", 401, ErrorCode.UNAUTHORIZED);
+    return admin;
+};
+
+// ==================================================
+// MFA Service
+// ==================================================
+
+const mfaService = {
+
+    /**
+     * Starts enrollment with a new secret, replacing any unfinished one
+     * @param adminId - Admin document id
+     * @returns Base32 secret and otpauth URI for the authenticator app (the QR code payload)
+     * @throws CustomError - CONFLICT when MFA is already enabled
+     */
+    setup: async (adminId: string): Promise<MfaEnrollment> => {
+        const admin = await loadAdmin(adminId);
+        if (admin.mfa?.isEnabled) throw mfaError("MFA is already enabled", 409, ErrorCode.CONFLICT);
+
+        const secret = speakeasy.generateSecret({ length: 20 }).base32;
+        const otpauthUrl = speakeasy.otpauthURL({
+            secret,
+            encoding: "base32",
+            label: `${config.mfa.issuer}:${admin.email}`,
+            issuer: config.mfa.issuer,
+        });
+
+        await adminModel.updateOne(
+            { _id: admin._id },
+            { $set: { mfa: { isEnabled: false, secret: AES.encrypt(secret), recoveryCodes: [] } } }
+        );
+
+        return { secret, otpauthUrl };
+    },
+
+    /**
+     * Enables MFA once a code from the authenticator app checks out
+     * @param adminId - Admin document id
+     * @param code - Current code from the authenticator app
+     * @returns Recovery codes, shown once
+     * @throws CustomError - CONFLICT when already enabled or not set up, UNAUTHORIZED for a wrong code
+     */
+    enable: async (adminId: string, code: string): Promise<string[]> => {
+        const admin = await loadAdmin(adminId);
+        if (admin.mfa?.isEnabled) throw mfaError("MFA is already enabled", 409, ErrorCode.CONFLICT);
+        if (!admin.mfa?.secret || admin.mfa.secret === NO_SECRET) {
+            throw mfaError("Start MFA setup before enabling it", 409, ErrorCode.CONFLICT);
+        }
+        if (!(await mfaService.verifyCode(admin, code))) {
+            throw mfaError("Invalid authentication code", 401, ErrorCode.UNAUTHORIZED);
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await adminModel.updateOne(
+            { _id: admin._id },
+            {
+                $set: {
+                    "mfa.isEnabled": true,
+                    "mfa.enabledAt": new Date(),
+                    "mfa.recoveryCodes": recoveryCodes.map((recoveryCode) => AES.hash(normaliseRecoveryCode(recoveryCode))),
+                },
+            }
+        );
+
+        console.log(`🔐 Admin ${admin.email} enabled MFA`);
+        return recoveryCodes;
+    },
+
+    /**
+     * Turns MFA off after checking the admin's password
+     * @param adminId - Admin document id
+     * @param password - Admin password
+     * @throws CustomError - UNAUTHORIZED for a wrong password, CONFLICT when MFA is not enabled
+     */
+    disable: async (adminId: string, password: string): Promise<void> => {
+        const admin = await loadAdmin(adminId, true);
+        if (!(await admin.comparePassword(password))) {
+            throw mfaError("Password is incorrect", 401, ErrorCode.UNAUTHORIZED);
+        }
+        if (!admin.mfa?.isEnabled) throw mfaError("MFA is not enabled", 409, ErrorCode.CONFLICT);
+
+        await adminModel.updateOne(
+            { _id: admin._id },
+            { $set: { mfa: { isEnabled: false, secret: NO_SECRET, recoveryCodes: [] } } }
+        );
+
+        console.log(`🔐 Admin ${admin.email} disabled MFA`);
+    },
+
+    /**
+     * Checks a code from the authenticator app and consumes its time step
+     * @param admin - Admin document
+     * @param code - Six-digit code
+     * @returns true when the code is valid and was not used before
+     */
+    verifyCode: async (admin: IUser, code: string): Promise<boolean> => {
+        if (!admin.mfa?.secret || admin.mfa.secret === NO_SECRET) return false;
+
+        const match = speakeasy.totp.verifyDelta({
+            secret: AES.decrypt(admin.mfa.secret),
+            encoding: "base32",
+            token: code.replace(/\s/g, ""),
+            window: config.mfa.window,
+        });
+        if (!match) return false;
+
+        // Claim the step atomically so the same code cannot be used twice
+        const step = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS) + match.delta;
+        const result = await adminModel.updateOne(
+            { _id: admin._id, "mfa.lastUsedStep": { $not: { $gte: step } } },
+            { $set: { "mfa.lastUsedStep": step } }
+        );
+        return result.modifiedCount > 0;
+    },
+
+    /**
+     * Checks a recovery code and removes it
+     * @param admin - Admin document
+     * @param code - Recovery code as typed
+     * @returns true when the code was unused
+     */
+    useRecoveryCode: async (admin: IUser, code: string): Promise<boolean> => {
+        const normalised = normaliseRecoveryCode(code);
+        if (!normalised) return false;
+
+        const hash = AES.hash(normalised);
+        const result = await adminModel.updateOne(
+            { _id: admin._id, "mfa.isEnabled": true, "mfa.recoveryCodes": hash },
+            { $pull: { "mfa.recoveryCodes": hash } }
+        );
+        if (result.modifiedCount === 0) return false;
+
+        console.warn(`⚠️ Admin ${admin.email} signed in with a recovery code`);
+        return true;
+    },
+
+}
+
+export default mfaService;
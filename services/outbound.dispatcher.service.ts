@@ -0,0 +1,264 @@
+import config from "../config/app.config";
+import whatsappClient, { WhatsAppClient } from "./whatsapp.client.service";
+import { toWaId } from "./conversation.service";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { DispatchedSend, OutboundDispatcherMetrics } from "../types/outbound.dispatcher.types";
+import { GraphErrorDetails, OutboundMessage } from "../types/whatsapp.client.types";
+import { TokenBucket } from "../utils/token.bucket";
+
+/**
+ * Outbound Dispatcher Service - Throughput control in front of the WhatsApp client
+ * Every send takes a token from its phone number's bucket, sized to the
+ * number's throughput tier, and from its recipient's pair limit bucket.
+ * Rate limit (130429, 131056) and temporary failures are retried with
+ * jittered exponential backoff; anything else, or a failure after the last
+ * retry, is thrown so the caller marks the message failed.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+/**
+ * Cloud API throughput limit reached for the phone number
+ */
+const THROUGHPUT_LIMIT_CODE = 130429;
+
+/**
+ * Pair rate limit: too many messages to the same recipient
+ */
+const PAIR_LIMIT_CODE = 131056;
+
+/**
+ * Interval of the idle pair bucket cleanup
+ */
+const PAIR_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ==================================================
+// Outbound Dispatcher Class
+// ==================================================
+
+/**
+ * OutboundDispatcher queues sends until their phone number and recipient have capacity
+ *
+ * This class provides:
+ * - A token bucket per phone number at the configured throughput
+ * - A pair limit bucket per recipient
+ * - Jittered backoff retries of rate-limited and temporary failures
+ * - Queue depth and throttle counters for the health check
+ */
+export class OutboundDispatcher {
+    // ===== PRIVATE PROPERTIES =====
+
+    /**
+     * Throughput buckets keyed by phone number ID
+     */
+    private phoneBuckets = new Map<string, TokenBucket>();
+
+    /**
+     * Pair limit buckets keyed by phone number ID and recipient wa_id
+     */
+    private pairBuckets = new Map<string, TokenBucket>();
+    private lastPairSweep: number = Date.now();
+
+    /**
+     * Sends waiting for a token or a retry, and Graph API calls in progress
+     */
+    private queued: number = 0;
+    private inFlight: number = 0;
+
+    /**
+     * Counters since process start
+     */
+    private metrics = { sent: 0, throttled: 0, throttledMs: 0, rateLimited: 0, retried: 0, failed: 0, rejected: 0 };
+
+    // ==================================================
+    // Buckets
+    // ==================================================
+
+    /**
+     * Gets the throughput bucket of a phone number
+     */
+    private phoneBucket(phoneNumberId: string): TokenBucket {
+        let bucket = this.phoneBuckets.get(phoneNumberId);
+        if (!bucket) {
+            const rate = config.whatsapp.messagesPerSecond;
+            bucket = new TokenBucket(rate, rate);
+            this.phoneBuckets.set(phoneNumberId, bucket);
+        }
+        return bucket;
+    }
+
+    /**
+     * Gets the pair limit bucket of a recipient
+     * Full buckets are discarded periodically so the map only holds active recipients
+     */
+    private pairBucket(phoneNumberId: string, waId: string): TokenBucket {
+        const now = Date.now();
+        if (now - this.lastPairSweep >= PAIR_SWEEP_INTERVAL_MS) {
+            this.lastPairSweep = now;
+            for (const [key, bucket] of this.pairBuckets) {
+                if (bucket.isFull(now)) this.pairBuckets.delete(key);
+            }
+        }
+
+        const key = `${phoneNumberId}:${waId}`;
+        let bucket = this.pairBuckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(config.outbound.pairBurst, 1000 / config.outbound.pairIntervalMs, now);
+            this.pairBuckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    /**
+     * Waits until the recipient, then the phone number, has capacity
+     * The recipient comes first so a busy recipient never holds a throughput token
+     */
+    private async acquire(phoneNumberId: string, waId: string): Promise<void> {
+        let waited = await this.wait(this.pairBucket(phoneNumberId, waId).reserve());
+        waited += await this.wait(this.phoneBucket(phoneNumberId).reserve());
+
+        if (waited > 0) {
+            this.metrics.throttled++;
+            this.metrics.throttledMs += waited;
+        }
+    }
+
+    private async wait(ms: number): Promise<number> {
+        if (ms > 0) await sleep(ms);
+        return ms;
+    }
+
+    /**
+     * Delay before a retry: exponential backoff with equal jitter
+     * Pair limit errors wait at least one pair interval
+     */
+    private retryDelay(retry: number, graphCode: number | null): number {
+        const ceiling = Math.min(config.outbound.retryMaxMs, config.outbound.retryBaseMs * 2 ** (retry - 1));
+        const delay = ceiling / 2 + Math.random() * (ceiling / 2);
+        return graphCode === PAIR_LIMIT_CODE ? Math.max(delay, config.outbound.pairIntervalMs) : delay;
+    }
+
+    // ==================================================
+    // Sending
+    // ==================================================
+
+    /**
+     * Sends a message once its phone number and recipient have capacity
+     * @param message - Outbound message payload
+     * @param client - WhatsApp client of the sending phone number
+     * @returns Send result and the number of attempts made
+     * @throws CustomError - RATE_LIMIT_EXCEEDED when the queue is full
+     * @throws CustomError - Mapped Graph API error once it is permanent or retries run out;
+     *   details.attempts holds the number of attempts made
+     */
+    public async send(message: OutboundMessage, client: WhatsAppClient = whatsappClient): Promise<DispatchedSend> {
+        // ===== REFUSE WHEN THE QUEUE IS FULL =====
+        if (this.queued >= config.outbound.maxQueueDepth) {
+            this.metrics.rejected++;
+            const error: CustomError = new Error(`Outbound queue is full (${this.queued} sends waiting); try again later`);
+            error.status = 429;
+            error.errorCode = ErrorCode.RATE_LIMIT_EXCEEDED;
+            error.color = "yellow";
+            throw error;
+        }
+
+        const phoneNumberId = client.getPhoneNumberId();
+        const waId = toWaId(message.to);
+
+        for (let attempt = 1; ; attempt++) {
+            // ===== WAIT FOR CAPACITY =====
+            this.queued++;
+            try {
+                await this.acquire(phoneNumberId, waId);
+            } finally {
+                this.queued--;
+            }
+
+            // ===== SEND =====
+            let failure: CustomError;
+            this.inFlight++;
+            try {
+                const result = await client.sendMessage(message);
+                this.metrics.sent++;
+                return { ...result, attempts: attempt };
+            } catch (error) {
+                failure = error as CustomError;
+            } finally {
+                this.inFlight--;
+            }
+
+            // ===== BACK OFF ON RATE LIMITS =====
+            const details = failure.details as GraphErrorDetails | undefined;
+            const graphCode = details?.graphCode ?? null;
+            const delay = this.retryDelay(attempt, graphCode);
+            if (graphCode === THROUGHPUT_LIMIT_CODE) {
+                this.metrics.rateLimited++;
+                this.phoneBucket(phoneNumberId).pause(delay);
+            } else if (graphCode === PAIR_LIMIT_CODE) {
+                this.metrics.rateLimited++;
+                this.pairBucket(phoneNumberId, waId).pause(delay);
+            }
+
+            // ===== FAIL FOR GOOD =====
+            if (!details?.retryable || attempt > config.outbound.maxRetries) {
+                this.metrics.failed++;
+                if (details) details.attempts = attempt;
+                throw failure;
+            }
+
+            // ===== RETRY =====
+            // Rate limits paused the bucket, so the next acquire waits; other failures sleep here
+            this.metrics.retried++;
+            console.warn(`⚠️ Send to ${waId} failed (${failure.message}); retry ${attempt} of ${config.outbound.maxRetries}`);
+            if (graphCode !== THROUGHPUT_LIMIT_CODE && graphCode !== PAIR_LIMIT_CODE) {
+                this.queued++;
+                try {
+                    await sleep(delay);
+                } finally {
+                    this.queued--;
+                }
+            }
+        }
+    }
+
+    // ==================================================
+    // Metrics
+    // ==================================================
+
+    /**
+     * Collects queue depth and throttle counters for the health check
+     */
+    public getMetrics(): OutboundDispatcherMetrics {
+        return {
+            queued: this.queued,
+            inFlight: this.inFlight,
+            maxQueueDepth: config.outbound.maxQueueDepth,
+            ...this.metrics,
+            recipients: this.pairBuckets.size,
+            phoneNumbers: [...this.phoneBuckets].map(([phoneNumberId, bucket]) => ({
+                phoneNumberId,
+                messagesPerSecond: config.whatsapp.messagesPerSecond,
+                available: bucket.available(),
+            })),
+        };
+    }
+}
+
+// ==================================================
+// Dispatcher Instance
+// ==================================================
+
+/**
+ * Shared dispatcher used by the outbound service
+ */
+const outboundDispatcher = new OutboundDispatcher();
+
+export default outboundDispatcher;
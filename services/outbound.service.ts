@@ -0,0 +1,157 @@
+import whatsappClient from "./whatsapp.client.service";
+import outboundDispatcher from "./outbound.dispatcher.service";
+import conversationService from "./conversation.service";
+import windowService from "./window.service";
+import statusService from "./status.service";
+import { messageModel } from "../models/message.model";
+import { CustomError } from "../types/error.types";
+import { assertValidInteractive } from "../utils/interactive.builder";
+import { DispatchedSend } from "../types/outbound.dispatcher.types";
+import { GraphErrorDetails, OutboundContent, OutboundMessage } from "../types/whatsapp.client.types";
+
+/**
+ * Outbound Service - Single send path for every outbound WhatsApp message
+ * Each message is stored in its contact's conversation before it is handed to
+ * the outbound dispatcher, which throttles and retries the Graph API call,
+ * then updated with its wamid when Meta accepts it, or marked failed with
+ * the mapped Graph API error. Delivery statuses from
+ * webhooks update the same record.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Result of a successful send
+ */
+export interface OutboundResult {
+    messageId: string;               // Internal message ID
+    wamid: string;                   // WhatsApp message ID
+    waId: string | null;             // Recipient wa_id resolved by Meta
+}
+
+/**
+ * Bookkeeping options of a send
+ */
+export interface OutboundSendOptions {
+    replyHandler?: string;           // Interactive reply handler for answers to this message
+    onAccepted?: (result: OutboundResult) => Promise<void>; // Bookkeeping that must see the wamid before any status does
+}
+
+// ==================================================
+// Outbound Service
+// ==================================================
+
+const outboundService = {
+
+    /**
+     * Stores and sends an outbound message
+     * @param message - Outbound message payload
+     * @param options - Bookkeeping options
+     * @returns Internal message ID and wamid
+     * @throws CustomError - VALIDATION_ERROR for interactive payloads over WhatsApp's limits
+     * @throws CustomError - SERVICE_WINDOW_CLOSED for free-form messages outside the service window
+     * @throws CustomError - RATE_LIMIT_EXCEEDED when the outbound queue is full; the record is marked failed
+     * @throws CustomError - Mapped Graph API error once retries run out; the record is marked failed
+     */
+    send: async (message: OutboundMessage, options: OutboundSendOptions = {}): Promise<OutboundResult> => {
+        // ===== VALIDATE PAYLOAD =====
+        if (message.type === "interactive") assertValidInteractive(message.interactive);
+        await windowService.assertCanSend(message);
+
+        // ===== STORE MESSAGE =====
+        const thread = await conversationService.prepareOutbound(message);
+        const record = await messageModel.create({
+            ...thread,
+            to: message.to,
+            type: message.type,
+            payload: message,
+            replyHandler: options.replyHandler,
+            status: "pending",
+            statusHistory: [{ status: "pending", timestamp: new Date() }],
+        });
+
+        // ===== SEND THROUGH GRAPH API =====
+        let result: DispatchedSend;
+        try {
+            result = await outboundDispatcher.send(message);
+        } catch (error) {
+            // ===== RECORD FAILURE =====
+            const customError = error as CustomError;
+            const details = customError.details as GraphErrorDetails | undefined;
+            const failedAt = new Date();
+
+            await messageModel
+                .updateOne(
+                    { _id: record._id },
+                    {
+                        $set: { status: "failed", failedAt, sendAttempts: details?.attempts },
+                        $push: {
+                            statusHistory: { status: "failed", timestamp: failedAt },
+                            failures: {
+                                code: details?.graphCode ?? undefined,
+                                title: customError.errorCode,
+                                message: customError.message,
+                                details: details?.graphMessage,
+                            },
+                        },
+                    }
+                )
+                .catch((updateError) => console.error(`❌ Failed to record send failure for ${record._id}:`, updateError));
+
+            throw error;
+        }
+
+        // ===== RECORD ACCEPTANCE =====
+        // The message was sent; a bookkeeping failure is logged but never reported as a failed send
+        const outboundResult: OutboundResult = { messageId: String(record._id), wamid: result.wamid, waId: result.waId };
+        try {
+            // Statuses stay parked until the message has its wamid, so the caller's records are ready first
+            if (options.onAccepted) await options.onAccepted(outboundResult);
+
+            const acceptedAt = new Date();
+            await messageModel.updateOne(
+                { _id: record._id },
+                {
+                    $set: { wamid: result.wamid, waId: result.waId, status: "accepted", acceptedAt, sendAttempts: result.attempts },
+                    $push: { statusHistory: { status: "accepted", timestamp: acceptedAt } },
+                }
+            );
+
+            // Statuses that arrived before the wamid was stored
+            await statusService.applyParked(result.wamid);
+
+            // Our reactions are also shown on the message they react to
+            if (message.type === "reaction") {
+                await conversationService.applyReaction(
+                    message.reaction.message_id,
+                    whatsappClient.getPhoneNumberId(),
+                    "outbound",
+                    message.reaction.emoji,
+                    acceptedAt,
+                );
+            }
+        } catch (error) {
+            console.error(`❌ Failed to record acceptance of ${result.wamid} for ${record._id}:`, error);
+        }
+
+        return outboundResult;
+    },
+
+    /**
+     * Sends text or a recipient-less message to a contact
+     * @param to - Recipient wa_id
+     * @param content - Plain text or message content
+     * @param options - Bookkeeping options
+     * @returns Internal message ID and wamid
+     * @throws CustomError - Mapped Graph API error; the record is marked failed
+     */
+    reply: (to: string, content: string | OutboundContent, options: OutboundSendOptions = {}): Promise<OutboundResult> => {
+        const message = typeof content === "string" ? { type: "text", text: { body: content } } : content;
+        return outboundService.send({ ...message, to } as OutboundMessage, options);
+    },
+
+}
+
+export default outboundService;
@@ -0,0 +1,366 @@
+import os from "os";
+import mongoose from "mongoose";
+import config from "../config/app.config";
+import { IJob, jobModel } from "../models/job.model";
+import { CustomError } from "../types/error.types";
+import { EnqueueOptions, JobHandler, JobStatus, JobType, QueueMetrics } from "../types/queue.types";
+
+/**
+ * Queue Service - Durable Mongo-backed job queue and worker
+ * Jobs are stored in the jobs collection and claimed atomically by workers,
+ * so several processes can share one queue. Failed jobs are retried with
+ * exponential backoff and dead-lettered once attempts run out; locks held
+ * by crashed workers are released by a periodic stale-lock recovery.
+ */
+
+// ==================================================
+// Job Queue Class
+// ==================================================
+
+/**
+ * JobQueue handles enqueuing, claiming and executing jobs
+ *
+ * This class provides:
+ * - Handler registry per job type
+ * - Configurable concurrency per process
+ * - Exponential backoff retries and a dead-letter state
+ * - Stale lock recovery for crashed workers
+ * - Graceful stop that waits for in-flight jobs
+ */
+export class JobQueue {
+    // ===== PRIVATE PROPERTIES =====
+
+    /**
+     * Registered handlers keyed by job type
+     */
+    private handlers = new Map<string, JobHandler>();
+
+    /**
+     * Jobs currently executing in this process
+     */
+    private inFlight = new Set<Promise<void>>();
+
+    /**
+     * Worker loop state
+     */
+    private running: boolean = false;
+    private polling: boolean = false;
+    private pollTimer: NodeJS.Timeout | null = null;
+    private recoveryTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Identifier written to lockedBy for jobs claimed by this process
+     */
+    private readonly workerId: string = `${os.hostname()}:${process.pid}`;
+
+    /**
+     * Counters since process start
+     */
+    private metrics = { processed: 0, retried: 0, deadLettered: 0, recovered: 0 };
+
+    // ==================================================
+    // Registration and Enqueuing
+    // ==================================================
+
+    /**
+     * Registers the handler for a job type
+     * @param type - Job type
+     * @param handler - Handler executed for each job of this type
+     */
+    public registerHandler(type: JobType, handler: JobHandler): void {
+        this.handlers.set(type, handler);
+    }
+
+    /**
+     * Stores a new job
+     * @param type - Job type
+     * @param payload - Data passed to the handler
+     * @param options - Run time and attempt overrides
+     * @returns Stored job document
+     */
+    public async enqueue(type: JobType, payload: unknown, options: EnqueueOptions = {}): Promise<IJob> {
+        const job = await jobModel.create({
+            type,
+            payload,
+            runAt: options.runAt ?? new Date(),
+            maxAttempts: options.maxAttempts ?? config.queue.maxAttempts,
+        });
+
+        // ===== WAKE WORKER =====
+        // Pick up jobs that are due now without waiting for the next poll
+        if (this.running && job.runAt.getTime() <= Date.now()) {
+            setImmediate(() => this.poll());
+        }
+
+        return job;
+    }
+
+    // ==================================================
+    // Worker Lifecycle
+    // ==================================================
+
+    /**
+     * Starts the worker loop and the stale lock recovery
+     */
+    public start(): void {
+        if (this.running) return;
+        this.running = true;
+
+        // ===== RECOVER LOCKS LEFT BY A PREVIOUS RUN =====
+        this.recoverStaleLocks().finally(() => this.poll());
+
+        this.recoveryTimer = setInterval(() => {
+            this.recoverStaleLocks();
+        }, config.queue.recoveryIntervalMs);
+
+        console.log(`⚙️ Job worker ${this.workerId} started (concurrency: ${config.queue.concurrency})`);
+    }
+
+    /**
+     * Stops claiming new jobs and waits for in-flight jobs to finish
+     * Gives up waiting after the configured shutdown timeout; unfinished
+     * jobs are then released by stale lock recovery on the next start
+     */
+    public async stop(): Promise<void> {
+        if (!this.running) return;
+        this.running = false;
+
+        // ===== STOP TIMERS =====
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        if (this.recoveryTimer) clearInterval(this.recoveryTimer);
+        this.pollTimer = null;
+        this.recoveryTimer = null;
+
+        // ===== DRAIN IN-FLIGHT JOBS =====
+        if (this.inFlight.size > 0) {
+            console.log(`⏳ Waiting for ${this.inFlight.size} in-flight job(s) to finish...`);
+
+            let timeout: NodeJS.Timeout | undefined;
+            const timedOut = await Promise.race([
+                Promise.allSettled([...this.inFlight]).then(() => false),
+                new Promise<boolean>((resolve) => {
+                    timeout = setTimeout(() => resolve(true), config.queue.shutdownTimeoutMs);
+                }),
+            ]);
+            if (timeout) clearTimeout(timeout);
+
+            if (timedOut) {
+                console.warn(`⚠️ ${this.inFlight.size} job(s) still running after shutdown timeout`);
+            }
+        }
+
+        console.log(`🛑 Job worker ${this.workerId} stopped`);
+    }
+
+    // ==================================================
+    // Claiming and Execution
+    // ==================================================
+
+    /**
+     * Claims due jobs until the concurrency limit is reached,
+     * then schedules the next poll
+     */
+    private async poll(): Promise<void> {
+        if (!this.running || this.polling) return;
+        this.polling = true;
+
+        try {
+            while (this.running && this.inFlight.size < config.queue.concurrency) {
+                const job = await this.claim();
+                if (!job) break;
+
+                const execution = this.execute(job).finally(() => {
+                    this.inFlight.delete(execution);
+                    // A slot opened up; look for more work right away
+                    if (this.running) setImmediate(() => this.poll());
+                });
+                this.inFlight.add(execution);
+            }
+        } catch (error) {
+            console.error("❌ Job queue poll failed:", error);
+        } finally {
+            this.polling = false;
+            this.schedulePoll();
+        }
+    }
+
+    /**
+     * Schedules the next poll after the configured interval
+     */
+    private schedulePoll(): void {
+        if (!this.running) return;
+        if (this.pollTimer) clearTimeout(this.pollTimer);
+        this.pollTimer = setTimeout(() => this.poll(), config.queue.pollIntervalMs);
+    }
+
+    /**
+     * Atomically claims the oldest due job with a registered handler
+     * @returns Claimed job, or null when nothing is due
+     */
+    private async claim(): Promise<IJob | null> {
+        const now = new Date();
+
+        return jobModel.findOneAndUpdate(
+            { status: "pending", runAt: { $lte: now }, type: { $in: [...this.handlers.keys()] } },
+            {
+                $set: { status: "processing", lockedAt: now, lockedBy: this.workerId },
+                $inc: { attempts: 1 },
+            },
+            { sort: { runAt: 1 }, new: true }
+        );
+    }
+
+    /**
+     * Runs the handler of a claimed job and records the outcome
+     * @param job - Claimed job
+     */
+    private async execute(job: IJob): Promise<void> {
+        const handler = this.handlers.get(job.type);
+
+        try {
+            if (!handler) throw new Error(`No handler registered for job type "${job.type}"`);
+
+            await handler(job);
+
+            // ===== MARK COMPLETED =====
+            await jobModel.updateOne(
+                { _id: job._id, lockedBy: this.workerId },
+                { $set: { status: "completed", completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null } }
+            );
+            this.metrics.processed += 1;
+        } catch (error) {
+            await this.fail(job, error);
+        }
+    }
+
+    /**
+     * Reschedules a failed job, or dead-letters it once attempts run out
+     * Errors flagged as not retryable are dead-lettered immediately
+     * @param job - Failed job
+     * @param error - Error thrown by the handler
+     */
+    private async fail(job: IJob, error: unknown): Promise<void> {
+        const message = error instanceof Error ? error.message : String(error);
+        const retryable = (error as CustomError)?.details?.retryable !== false;
+
+        try {
+            if (!retryable || job.attempts >= job.maxAttempts) {
+                // ===== DEAD-LETTER =====
+                await jobModel.updateOne(
+                    { _id: job._id, lockedBy: this.workerId },
+                    { $set: { status: "dead", deadAt: new Date(), lockedAt: null, lockedBy: null, lastError: message } }
+                );
+                this.metrics.deadLettered += 1;
+                console.error(`💀 Job ${job._id} (${job.type}) dead-lettered after ${job.attempts} attempt(s): ${message}`);
+                return;
+            }
+
+            // ===== RETRY WITH BACKOFF =====
+            const delay = this.backoffDelay(job.attempts);
+            await jobModel.updateOne(
+                { _id: job._id, lockedBy: this.workerId },
+                {
+                    $set: {
+                        status: "pending",
+                        runAt: new Date(Date.now() + delay),
+                        lockedAt: null,
+                        lockedBy: null,
+                        lastError: message,
+                    },
+                }
+            );
+            this.metrics.retried += 1;
+            console.warn(`🔁 Job ${job._id} (${job.type}) attempt ${job.attempts} failed, retrying in ${delay}ms: ${message}`);
+        } catch (updateError) {
+            // The lock will be released by stale lock recovery
+            console.error(`❌ Failed to record failure of job ${job._id}:`, updateError);
+        }
+    }
+
+    /**
+     * Exponential backoff: base * 2^(attempt - 1), capped at the maximum
+     * @param attempt - Number of attempts made so far
+     * @returns Delay in milliseconds
+     */
+    private backoffDelay(attempt: number): number {
+        const delay = config.queue.backoffBaseMs * Math.pow(2, Math.max(0, attempt - 1));
+        return Math.min(delay, config.queue.backoffMaxMs);
+    }
+
+    /**
+     * Releases jobs locked longer than the lock timeout
+     * Jobs with attempts left go back to pending; the rest are dead-lettered
+     */
+    private async recoverStaleLocks(): Promise<void> {
+        const staleBefore = new Date(Date.now() - config.queue.lockTimeoutMs);
+        const stale = { status: "processing", lockedAt: { $lt: staleBefore } };
+
+        try {
+            // ===== DEAD-LETTER EXHAUSTED JOBS =====
+            const dead = await jobModel.updateMany(
+                { ...stale, $expr: { $gte: ["$attempts", "$maxAttempts"] } },
+                { $set: { status: "dead", deadAt: new Date(), lockedAt: null, lockedBy: null, lastError: "Lock expired" } }
+            );
+
+            // ===== RELEASE REMAINING JOBS =====
+            const released = await jobModel.updateMany(stale, {
+                $set: { status: "pending", runAt: new Date(), lockedAt: null, lockedBy: null, lastError: "Lock expired" },
+            });
+
+            const total = dead.modifiedCount + released.modifiedCount;
+            if (total > 0) {
+                this.metrics.recovered += total;
+                this.metrics.deadLettered += dead.modifiedCount;
+                console.warn(`🔓 Recovered ${total} stale job lock(s) (${dead.modifiedCount} dead-lettered)`);
+            }
+        } catch (error) {
+            console.error("❌ Stale job lock recovery failed:", error);
+        }
+    }
+
+    // ==================================================
+    // Metrics
+    // ==================================================
+
+    /**
+     * Collects queue metrics for the health check
+     * @returns Job counts per status and worker counters
+     */
+    public async getMetrics(): Promise<QueueMetrics> {
+        const counts: Record<JobStatus, number> = { pending: 0, processing: 0, completed: 0, dead: 0 };
+
+        // ===== COUNT JOBS PER STATUS =====
+        // Skipped while disconnected so the health check never waits on buffered queries
+        try {
+            if (mongoose.connection.readyState !== 1) throw new Error("MongoDB not connected");
+            const grouped = await jobModel.aggregate<{ _id: JobStatus; count: number }>([
+                { $group: { _id: "$status", count: { $sum: 1 } } },
+            ]);
+            grouped.forEach((group) => {
+                counts[group._id] = group.count;
+            });
+        } catch (error) {
+            console.error("❌ Failed to count jobs:", error);
+        }
+
+        return {
+            workerId: this.workerId,
+            running: this.running,
+            inFlight: this.inFlight.size,
+            concurrency: config.queue.concurrency,
+            counts,
+            ...this.metrics,
+        };
+    }
+}
+
+// ==================================================
+// Queue Instance
+// ==================================================
+
+/**
+ * Shared job queue used by the webhook controller and workers
+ */
+const queueService = new JobQueue();
+
+export default queueService;
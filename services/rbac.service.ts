@@ -0,0 +1,162 @@
+import mongoose from "mongoose";
+import { adminModel, IUser } from "../models/admin.model";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ADMIN_ROLES, AdminRole, Permission, PERMISSIONS, ROLE_PERMISSIONS, RoleAssignment } from "../types/rbac.types";
+
+/**
+ * RBAC Service - Roles and permissions of admin users
+ * An admin's permissions are those of their role plus any granted to them
+ * individually. Only owners make owners or hand out the permissions to
+ * manage admins and roles, and the last active owner can never be demoted,
+ * so the account always stays manageable.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+/**
+ * Permissions only an owner may grant individually
+ */
+const OWNER_GRANTED_PERMISSIONS: Permission[] = ["admins:manage", "roles:manage"];
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const rbacError = (message: string, status: number, errorCode: ErrorCode, issues: string[] = []): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = status;
+    error.errorCode = errorCode;
+    error.details = issues.length > 0 ? { issues } : undefined;
+    error.color = "yellow";
+    return error;
+};
+
+// ==================================================
+// RBAC Service
+// ==================================================
+
+const rbacService = {
+
+    /**
+     * Lists every permission an admin has
+     * @param admin - Admin document
+     */
+    permissionsOf: (admin: Pick<IUser, "role" | "permissions">): Permission[] =>
+        [...new Set([...(ROLE_PERMISSIONS[admin.role] ?? []), ...(admin.permissions ?? [])])],
+
+    /**
+     * Checks whether an admin has all the given permissions
+     * @param admin - Admin document
+     * @param permissions - Required permissions
+     */
+    hasPermissions: (admin: Pick<IUser, "role" | "permissions">, permissions: Permission[]): boolean => {
+        const granted = rbacService.permissionsOf(admin);
+        return permissions.every((permission) => granted.includes(permission));
+    },
+
+    /**
+     * Validates a role assignment from a request body
+     * @param input - Request body
+     * @returns Assignment, or the problems found
+     */
+    validateAssignment: (input: any): { assignment: RoleAssignment | null; issues: string[] } => {
+        const issues: string[] = [];
+        if (input?.role !== undefined && !ADMIN_ROLES.includes(input.role)) {
+            issues.push(`role must be one of ${ADMIN_ROLES.join(", ")}`);
+        }
+        if (input?.permissions !== undefined) {
+            if (!Array.isArray(input.permissions)) issues.push("permissions must be an array");
+            else for (const permission of input.permissions) {
+                if (!PERMISSIONS.includes(permission)) issues.push(`permissions: unknown permission "${permission}"`);
+            }
+        }
+        if (input?.role === undefined && input?.permissions === undefined) issues.push("role or permissions is required");
+        if (issues.length > 0) return { assignment: null, issues };
+
+        return {
+            assignment: {
+                ...(input.role !== undefined ? { role: input.role as AdminRole } : {}),
+                ...(input.permissions !== undefined ? { permissions: [...new Set(input.permissions as Permission[])] } : {}),
+            },
+            issues,
+        };
+    },
+
+    /**
+     * Refuses assignments only an owner may make: the owner role, admins:manage and roles:manage
+     * @param actor - Admin making the assignment
+     * @param assignment - Role and/or permissions to hand out
+     * @throws CustomError - FORBIDDEN when the actor is not an owner
+     */
+    assertCanAssign: (actor: Pick<IUser, "role">, assignment: RoleAssignment): void => {
+        if (actor.role === "owner") return;
+        if (assignment.role === "owner") {
+            throw rbacError("Only an owner can make someone owner", 403, ErrorCode.FORBIDDEN);
+        }
+        const reserved = (assignment.permissions ?? []).filter((permission) => OWNER_GRANTED_PERMISSIONS.includes(permission));
+        if (reserved.length > 0) {
+            throw rbacError(`Only an owner can grant ${reserved.join(", ")}`, 403, ErrorCode.FORBIDDEN);
+        }
+    },
+
+    /**
+     * Changes the role and individual permissions of an admin
+     * @param actor - Admin making the change
+     * @param adminId - Admin document id
+     * @param assignment - New role and/or permissions
+     * @returns Updated admin
+     * @throws CustomError - FORBIDDEN when only an owner may make the assignment, NOT_FOUND for unknown admins,
+     * CONFLICT when the last owner would be demoted
+     */
+    assign: async (actor: Pick<IUser, "role">, adminId: string, assignment: RoleAssignment): Promise<IUser> => {
+        rbacService.assertCanAssign(actor, assignment);
+        if (!mongoose.isValidObjectId(adminId)) throw rbacError(`Admin ${adminId} not found`, 404, ErrorCode.NOT_FOUND);
+        const admin = await adminModel.findById(adminId);
+        if (!admin) throw rbacError(`Admin ${adminId} not found`, 404, ErrorCode.NOT_FOUND);
+
+        // ===== KEEP AN OWNER =====
+        if (assignment.role && assignment.role !== "owner") await rbacService.assertNotLastOwner(admin, "demoted");
+
+        if (assignment.role) admin.role = assignment.role;
+        if (assignment.permissions) admin.permissions = assignment.permissions;
+        await admin.save();
+
+        console.log(`🛡️ Admin ${admin.email} is now ${admin.role}${admin.permissions.length > 0 ? ` (+${admin.permissions.join(", ")})` : ""}`);
+        return admin;
+    },
+
+    /**
+     * Refuses to demote, block or delete the last active owner
+     * @param admin - Admin about to lose the owner role or access
+     * @param action - What is about to happen, for the error message
+     * @throws CustomError - CONFLICT when no other active owner exists
+     */
+    assertNotLastOwner: async (admin: IUser, action: string): Promise<void> => {
+        if (admin.role !== "owner") return;
+        const owners = await adminModel.countDocuments({ _id: { $ne: admin._id }, role: "owner", flag: { $ne: true } });
+        if (owners === 0) {
+            throw rbacError(`The last owner cannot be ${action}; make someone else owner first`, 409, ErrorCode.CONFLICT);
+        }
+    },
+
+    /**
+     * Makes the oldest admin owner when no owner exists, e.g. after upgrading an existing install
+     * @returns Promoted admin, or null when an owner exists or there are no admins
+     */
+    ensureOwner: async (): Promise<IUser | null> => {
+        if (await adminModel.exists({ role: "owner" })) return null;
+
+        const admin = await adminModel.findOneAndUpdate(
+            { flag: { $ne: true } },
+            { $set: { role: "owner" } },
+            { sort: { createdAt: 1 }, new: true }
+        );
+        if (admin) console.log(`🛡️ No owner found; made ${admin.email} owner`);
+        return admin;
+    },
+
+}
+
+export default rbacService;
@@ -0,0 +1,135 @@
+import config from "../config/app.config";
+import whatsappClient from "./whatsapp.client.service";
+import { ReceiptOptions } from "../types/receipt.types";
+import { InboundMessageEvent } from "../types/whatsapp.webhook.types";
+
+/**
+ * Receipt Service - Read receipts and typing indicators for inbound messages
+ * Every inbound message is tracked, by its id, while the pipeline handles it: the
+ * handler that takes it may override the configured defaults, a handler
+ * still running after the threshold shows the typing indicator, and the
+ * message is marked as read at the latest when the pipeline finishes.
+ * Graph API calls run in the background and failures are only logged, so
+ * receipts never delay or block the reply.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Receipt state of a message the pipeline is handling
+ */
+interface ActiveReceipt {
+    messageId: string;
+    waId: string;                    // Sender wa_id
+    options: Required<ReceiptOptions>;
+    startedAt: number;
+    read: boolean;                   // Read receipt (or typing indicator, which implies it) sent
+    typing: boolean;                 // Typing indicator sent
+    timer: NodeJS.Timeout | null;    // Pending typing indicator
+}
+
+// ==================================================
+// State
+// ==================================================
+
+/**
+ * Messages being handled, keyed by message id
+ * Jobs for several messages of one contact can run at once, each with its own receipt
+ */
+const active = new Map<string, ActiveReceipt>();
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Sends a read receipt, with the typing indicator when asked, without waiting for it
+ */
+const send = (receipt: ActiveReceipt, typing: boolean): void => {
+    receipt.read = true;
+    if (typing) receipt.typing = true;
+
+    whatsappClient.markAsRead(receipt.messageId, typing).catch((error) =>
+        console.warn(`⚠️ Failed to send ${typing ? "typing indicator" : "read receipt"} for ${receipt.messageId} (${receipt.waId}): ${error.message}`),
+    );
+};
+
+/**
+ * Schedules the typing indicator for the rest of the threshold, or clears it when disabled
+ */
+const arm = (receipt: ActiveReceipt): void => {
+    if (receipt.timer) clearTimeout(receipt.timer);
+    receipt.timer = null;
+    if (!receipt.options.typingIndicator || receipt.typing) return;
+
+    const delay = Math.max(0, receipt.startedAt + receipt.options.typingThresholdMs - Date.now());
+    receipt.timer = setTimeout(() => {
+        receipt.timer = null;
+        if (active.get(receipt.messageId) === receipt) send(receipt, true);
+    }, delay);
+    receipt.timer.unref();
+};
+
+// ==================================================
+// Receipt Service
+// ==================================================
+
+const receiptService = {
+
+    /**
+     * Starts tracking a message before the pipeline handles it
+     * @param event - Normalised inbound message event
+     */
+    begin: (event: InboundMessageEvent): void => {
+        const previous = active.get(event.message.id);
+        if (previous?.timer) clearTimeout(previous.timer);
+
+        const receipt: ActiveReceipt = {
+            messageId: event.message.id,
+            waId: event.message.from,
+            options: { ...config.receipts },
+            startedAt: Date.now(),
+            read: false,
+            typing: false,
+            timer: null,
+        };
+        active.set(receipt.messageId, receipt);
+        arm(receipt);
+    },
+
+    /**
+     * Applies the receipt options of the flow or handler that took a message
+     * Marks the message as read right away when enabled
+     * @param messageId - Inbound message id
+     * @param options - Overrides of the configured defaults
+     */
+    configure: (messageId: string, options?: ReceiptOptions): void => {
+        const receipt = active.get(messageId);
+        if (!receipt || !options) return;
+
+        for (const [key, value] of Object.entries(options)) {
+            if (value !== undefined) (receipt.options as Record<string, unknown>)[key] = value;
+        }
+        if (receipt.options.markAsRead && !receipt.read) send(receipt, false);
+        arm(receipt);
+    },
+
+    /**
+     * Stops tracking a message once the pipeline is done with it
+     * Marks the message as read if nothing did yet and it is enabled
+     * @param event - Normalised inbound message event
+     */
+    finish: (event: InboundMessageEvent): void => {
+        const receipt = active.get(event.message.id);
+        if (!receipt) return;
+
+        if (receipt.timer) clearTimeout(receipt.timer);
+        active.delete(receipt.messageId);
+        if (receipt.options.markAsRead && !receipt.read) send(receipt, false);
+    },
+
+}
+
+export default receiptService;
@@ -0,0 +1,336 @@
+import os from "os";
+import mongoose from "mongoose";
+import config from "../config/app.config";
+import outboundService from "./outbound.service";
+import { toWaId } from "./conversation.service";
+import { contactModel } from "../models/contact.model";
+import { conversationModel } from "../models/conversation.model";
+import { IScheduledMessage, scheduledMessageModel } from "../models/scheduled.message.model";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { ResolvedTiming, ScheduleEvent, ScheduleTiming } from "../types/schedule.types";
+import { OutboundMessage } from "../types/whatsapp.client.types";
+import { InboundMessageEvent } from "../types/whatsapp.webhook.types";
+import { isValidTimeZone, zonedTimeToUtc } from "../utils/timezone";
+
+/**
+ * Schedule Service - Sends messages at a later time
+ * Schedules are stored in Mongo and checked by an in-process timer, so
+ * they survive restarts. Each due message is claimed atomically before it
+ * is sent, which keeps several instances from sending it twice; a claim
+ * interrupted by a crash is marked failed rather than sent again. Messages
+ * that became due while no instance ran are sent late within a grace
+ * period, and marked missed after it.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+const SCHEDULE_EVENTS: ScheduleEvent[] = ["last_inbound", "last_outbound"];
+
+/**
+ * Conversation field holding the time of each event
+ */
+const EVENT_FIELD: Record<ScheduleEvent, "lastInboundAt" | "lastOutboundAt"> = {
+    last_inbound: "lastInboundAt",
+    last_outbound: "lastOutboundAt",
+};
+
+// ==================================================
+// State
+// ==================================================
+
+let pollTimer: NodeJS.Timeout | null = null;
+let currentTick: Promise<void> | null = null;
+
+/**
+ * Identifier written to claimedBy for messages sent by this process
+ */
+const schedulerId = `${os.hostname()}:${process.pid}`;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error
+ */
+const validationError = (message: string): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Builds an error for a schedule that is no longer pending
+ */
+const notPending = (schedule: Pick<IScheduledMessage, "_id" | "status">, action: string): CustomError => {
+    const error: CustomError = new Error(`Scheduled message ${schedule._id} is ${schedule.status} and cannot be ${action}`);
+    error.status = 409;
+    error.errorCode = ErrorCode.CONFLICT;
+    error.color = "yellow";
+    return error;
+};
+
+// ==================================================
+// Schedule Service
+// ==================================================
+
+const scheduleService = {
+
+    /**
+     * Resolves when a message should be sent
+     * @param timing - Exactly one of sendAt, localTime (with optional timezone) or after
+     * @param waId - Recipient wa_id, for its timezone and conversation events
+     * @throws CustomError - VALIDATION_ERROR for invalid or past times
+     */
+    resolveTiming: async (timing: ScheduleTiming, waId: string): Promise<ResolvedTiming> => {
+        const given = [timing.sendAt, timing.localTime, timing.after].filter((value) => value !== undefined);
+        if (given.length !== 1) throw validationError("Give exactly one of sendAt, localTime or after");
+
+        let resolved: ResolvedTiming;
+
+        if (timing.sendAt !== undefined) {
+            // ===== FIXED INSTANT =====
+            const sendAt = typeof timing.sendAt === "string" ? new Date(timing.sendAt) : null;
+            if (!sendAt || Number.isNaN(sendAt.getTime())) throw validationError("sendAt must be an ISO date");
+            resolved = { sendAt };
+        } else if (timing.localTime !== undefined) {
+            // ===== WALL-CLOCK TIME IN THE CONTACT'S TIMEZONE =====
+            const contact = timing.timezone ? null : await contactModel.findOne({ waId }, { timezone: 1 }).lean();
+            const timezone = timing.timezone ?? contact?.timezone ?? config.scheduler.defaultTimezone;
+            if (!isValidTimeZone(timezone)) throw validationError(`Unknown timezone "${timezone}"`);
+
+            const sendAt = typeof timing.localTime === "string" ? zonedTimeToUtc(timing.localTime, timezone) : null;
+            if (!sendAt) throw validationError("localTime must be a local date and time (YYYY-MM-DDTHH:mm)");
+            resolved = { sendAt, localTime: timing.localTime, timezone };
+        } else {
+            // ===== DELAY AFTER A CONVERSATION EVENT =====
+            const { event, delayMinutes } = timing.after ?? ({} as NonNullable<ScheduleTiming["after"]>);
+            if (!SCHEDULE_EVENTS.includes(event)) throw validationError(`after.event must be one of ${SCHEDULE_EVENTS.join(", ")}`);
+            if (typeof delayMinutes !== "number" || !Number.isFinite(delayMinutes) || delayMinutes <= 0) {
+                throw validationError("after.delayMinutes must be a positive number");
+            }
+
+            const conversation = await conversationModel.findOne({ contactWaId: waId }, { lastInboundAt: 1, lastOutboundAt: 1 }).lean();
+            const anchorAt = conversation?.[EVENT_FIELD[event]];
+            if (!anchorAt) throw validationError(`${waId} has no ${event.replace("_", " ")} message to schedule after`);
+
+            const sendAt = new Date(anchorAt.getTime() + delayMinutes * 60 * 1000);
+            resolved = { sendAt, delay: { event, delayMinutes, anchorAt } };
+        }
+
+        if (resolved.sendAt.getTime() <= Date.now()) {
+            throw validationError(`The send time ${resolved.sendAt.toISOString()} has already passed`);
+        }
+        return resolved;
+    },
+
+    /**
+     * Schedules a message
+     * @param message - Validated outbound message
+     * @param timing - When to send it
+     * @param cancelOnReply - Cancel when the contact writes after the schedule's anchor
+     * @returns Stored schedule
+     * @throws CustomError - VALIDATION_ERROR for invalid or past times
+     */
+    create: async (message: OutboundMessage, timing: ScheduleTiming, cancelOnReply: boolean = false): Promise<IScheduledMessage> => {
+        const waId = toWaId(message.to);
+        const resolved = await scheduleService.resolveTiming(timing, waId);
+
+        return scheduledMessageModel.create({
+            waId,
+            message,
+            ...resolved,
+            cancelOnReply,
+            // Replies count from the anchor event, so "no answer since our last message" holds
+            replyAfter: resolved.delay?.anchorAt ?? new Date(),
+        });
+    },
+
+    /**
+     * Moves a pending schedule to a new time
+     * @param id - Schedule ID
+     * @param timing - New send time
+     * @throws CustomError - NOT_FOUND, CONFLICT when no longer pending, VALIDATION_ERROR for invalid times
+     */
+    reschedule: async (id: string, timing: ScheduleTiming): Promise<IScheduledMessage> => {
+        const schedule = await scheduleService.getOrFail(id);
+        if (schedule.status !== "pending") throw notPending(schedule, "rescheduled");
+
+        const resolved = await scheduleService.resolveTiming(timing, schedule.waId);
+
+        // Fields of the previous timing that the new one does not replace
+        const unset: Record<string, ""> = {};
+        if (!resolved.localTime) Object.assign(unset, { localTime: "", timezone: "" });
+        if (!resolved.delay) unset.delay = "";
+
+        const update: Record<string, unknown> = {
+            $set: { ...resolved, ...(resolved.delay ? { replyAfter: resolved.delay.anchorAt } : {}) },
+        };
+        if (Object.keys(unset).length > 0) update.$unset = unset;
+
+        const updated = await scheduledMessageModel.findOneAndUpdate({ _id: schedule._id, status: "pending" }, update, { new: true });
+        if (!updated) throw notPending(await scheduleService.getOrFail(id), "rescheduled");
+        return updated;
+    },
+
+    /**
+     * Cancels a pending schedule
+     * @param id - Schedule ID
+     * @param reason - Recorded cancel reason
+     * @throws CustomError - NOT_FOUND, or CONFLICT when no longer pending
+     */
+    cancel: async (id: string, reason: string = "Cancelled by admin"): Promise<IScheduledMessage> => {
+        const schedule = await scheduleService.getOrFail(id);
+        const updated = await scheduledMessageModel.findOneAndUpdate(
+            { _id: schedule._id, status: "pending" },
+            { $set: { status: "cancelled", cancelledAt: new Date(), cancelReason: reason } },
+            { new: true }
+        );
+        if (!updated) throw notPending(await scheduleService.getOrFail(id), "cancelled");
+        return updated;
+    },
+
+    /**
+     * Finds a schedule
+     * @param id - Schedule ID
+     * @throws CustomError - NOT_FOUND when it does not exist
+     */
+    getOrFail: async (id: string): Promise<IScheduledMessage> => {
+        const schedule = mongoose.isValidObjectId(id) ? await scheduledMessageModel.findById(id) : null;
+        if (!schedule) {
+            const error: CustomError = new Error(`Scheduled message ${id} not found`);
+            error.status = 404;
+            error.errorCode = ErrorCode.NOT_FOUND;
+            error.color = "yellow";
+            throw error;
+        }
+        return schedule;
+    },
+
+    /**
+     * Cancels the contact's reply-sensitive schedules when it writes
+     * @param event - Normalised inbound message event
+     */
+    handleInbound: async (event: InboundMessageEvent): Promise<void> => {
+        await scheduledMessageModel.updateMany(
+            { waId: event.message.from, status: "pending", cancelOnReply: true, replyAfter: { $lt: event.timestamp } },
+            { $set: { status: "cancelled", cancelledAt: new Date(), cancelReason: "Contact replied" } }
+        );
+    },
+
+    // ==================================================
+    // Scheduler
+    // ==================================================
+
+    /**
+     * Sends every due message, one atomic claim at a time
+     * Overdue messages past the grace period are marked missed, and
+     * interrupted claims failed, before anything is sent
+     */
+    runDue: async (): Promise<void> => {
+        const now = Date.now();
+
+        // ===== INTERRUPTED CLAIMS =====
+        await scheduledMessageModel.updateMany(
+            { status: "sending", claimedAt: { $lt: new Date(now - config.scheduler.claimTimeoutMs) } },
+            { $set: { status: "failed", failedAt: new Date(now), errorMessage: "Interrupted before the send was confirmed" } }
+        );
+
+        // ===== MISSED SCHEDULES =====
+        const missed = await scheduledMessageModel.updateMany(
+            { status: "pending", sendAt: { $lt: new Date(now - config.scheduler.missedGraceMinutes * 60 * 1000) } },
+            { $set: { status: "missed" } }
+        );
+        if (missed.modifiedCount > 0) {
+            console.warn(`⚠️ ${missed.modifiedCount} scheduled message(s) missed their send time`);
+        }
+
+        // ===== CLAIM AND SEND DUE MESSAGES =====
+        // Stops after the current message once the scheduler is stopped
+        for (let sent = 0; sent < config.scheduler.batchSize && pollTimer; sent++) {
+            const schedule = await scheduledMessageModel.findOneAndUpdate(
+                { status: "pending", sendAt: { $lte: new Date() } },
+                { $set: { status: "sending", claimedAt: new Date(), claimedBy: schedulerId } },
+                { sort: { sendAt: 1 }, new: true }
+            );
+            if (!schedule) return;
+            await scheduleService.sendClaimed(schedule);
+        }
+    },
+
+    /**
+     * Sends a claimed schedule and records the result
+     * Reply-sensitive schedules are cancelled instead when the contact wrote since
+     * @param schedule - Schedule claimed by this process
+     */
+    sendClaimed: async (schedule: IScheduledMessage): Promise<void> => {
+        if (schedule.cancelOnReply) {
+            const conversation = await conversationModel.findOne({ contactWaId: schedule.waId }, { lastInboundAt: 1 }).lean();
+            if (conversation?.lastInboundAt && conversation.lastInboundAt > schedule.replyAfter) {
+                await scheduledMessageModel.updateOne(
+                    { _id: schedule._id },
+                    { $set: { status: "cancelled", cancelledAt: new Date(), cancelReason: "Contact replied" } }
+                );
+                return;
+            }
+        }
+
+        try {
+            const result = await outboundService.send(schedule.message);
+            await scheduledMessageModel.updateOne(
+                { _id: schedule._id },
+                { $set: { status: "sent", sentAt: new Date(), messageId: result.messageId, wamid: result.wamid } }
+            );
+        } catch (error) {
+            const customError = error as CustomError;
+            console.error(`❌ Scheduled message ${schedule._id} to ${schedule.waId} failed: ${customError.message}`);
+            await scheduledMessageModel.updateOne(
+                { _id: schedule._id },
+                {
+                    $set: {
+                        status: "failed",
+                        failedAt: new Date(),
+                        errorCode: customError.errorCode,
+                        errorMessage: customError.message,
+                    },
+                }
+            );
+        }
+    },
+
+    /**
+     * Starts the scheduler; overdue messages are caught up right away
+     */
+    start: (): void => {
+        if (pollTimer) return;
+
+        const tick = (): void => {
+            if (currentTick) return;
+            currentTick = scheduleService
+                .runDue()
+                .catch((error) => console.error("❌ Scheduled message check failed:", error))
+                .finally(() => {
+                    currentTick = null;
+                });
+        };
+
+        pollTimer = setInterval(tick, config.scheduler.pollIntervalMs);
+        tick();
+    },
+
+    /**
+     * Stops the scheduler and waits for the message being sent
+     */
+    stop: async (): Promise<void> => {
+        if (pollTimer) clearInterval(pollTimer);
+        pollTimer = null;
+        if (currentTick) await currentTick;
+    },
+
+}
+
+export default scheduleService;
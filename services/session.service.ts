@@ -0,0 +1,237 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import config from "../config/app.config";
+import { adminModel, IUser } from "../models/admin.model";
+import { adminSessionModel, IAdminSession, SessionRevokeReason } from "../models/admin.session.model";
+import { LoginContext } from "../types/auth.types";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { getBrowserOnOS } from "../utils/browser.on.os";
+
+/**
+ * Session Service - Device sessions and rotating refresh tokens of admins
+ * Every login opens a session that records the client's IP address and
+ * browser label and holds the SHA-256 hash of a refresh token. Refreshing
+ * swaps the token for a new one; presenting a token that was already swapped
+ * means it leaked, so the whole session is revoked. Access tokens carry the
+ * session id and stop working as soon as their session is revoked.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+const REFRESH_SECRET_BYTES = 32;
+const ROTATED_HASHES_KEPT = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const sessionError = (message: string, status: number = 401, errorCode: ErrorCode = ErrorCode.UNAUTHORIZED): CustomError => {
+    const error: CustomError = new Error(message);
+    error.status = status;
+    error.errorCode = errorCode;
+    error.color = "yellow";
+    return error;
+};
+
+const hashToken = (token: string): string => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Generates a refresh token for a session: "<sessionId>.<secret>"
+ */
+const generateRefreshToken = (sessionId: string): string =>
+    `${sessionId}.${crypto.randomBytes(REFRESH_SECRET_BYTES).toString("base64url")}`;
+
+const refreshDeadline = (): Date => new Date(Date.now() + config.jwt.refreshValidityDays * DAY_MS);
+
+/**
+ * Describes the client of a login or refresh
+ */
+const clientFields = (context: LoginContext) => ({
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    ...(context.userAgent ? { label: getBrowserOnOS(context.userAgent) } : {}),
+});
+
+/**
+ * Filter matching the sessions of an admin that can still be refreshed
+ */
+const activeFilter = (adminId: string) => ({ adminId, revokedAt: null, expiresAt: { $gt: new Date() } });
+
+/**
+ * Revokes the matching sessions that are not revoked yet
+ * @returns Number of sessions revoked
+ */
+const endSessions = async (filter: Record<string, unknown>, reason: SessionRevokeReason): Promise<number> => {
+    const result = await adminSessionModel.updateMany(
+        { ...filter, revokedAt: null },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.modifiedCount;
+};
+
+// ==================================================
+// Session Service
+// ==================================================
+
+const sessionService = {
+
+    /**
+     * Opens a device session for an admin who just signed in
+     * @param admin - Admin document
+     * @param context - IP address and user agent of the client
+     * @returns Session and its first refresh token
+     */
+    create: async (admin: IUser, context: LoginContext = {}): Promise<{ session: IAdminSession; refreshToken: string }> => {
+        const session = new adminSessionModel({
+            adminId: admin._id,
+            tokenVersion: admin.tokenVersion ?? 0,
+            expiresAt: refreshDeadline(),
+            ...clientFields(context),
+        });
+        const refreshToken = generateRefreshToken(String(session._id));
+        session.refreshTokenHash = hashToken(refreshToken);
+        await session.save();
+
+        return { session, refreshToken };
+    },
+
+    /**
+     * Swaps a refresh token for a new one
+     * Reusing a swapped token revokes the session, as does a password change or block of the admin
+     * @param refreshToken - Current refresh token of the session
+     * @param context - IP address and user agent of the client
+     * @returns Admin, updated session and the new refresh token
+     * @throws CustomError - UNAUTHORIZED for invalid, reused, revoked or expired tokens
+     */
+    rotate: async (
+        refreshToken: string,
+        context: LoginContext = {},
+    ): Promise<{ admin: IUser; session: IAdminSession; refreshToken: string }> => {
+        const sessionId = refreshToken.split(".")[0];
+        if (!mongoose.isValidObjectId(sessionId)) throw sessionError("Invalid refresh token");
+
+        const session = await adminSessionModel.findById(sessionId).select("+refreshTokenHash +rotatedTokenHashes");
+        if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+            throw sessionError("Session expired or revoked; sign in again");
+        }
+
+        // ===== DETECT REUSE =====
+        const presentedHash = hashToken(refreshToken);
+        if (presentedHash !== session.refreshTokenHash) {
+            if (!session.rotatedTokenHashes.includes(presentedHash)) throw sessionError("Invalid refresh token");
+
+            await endSessions({ _id: sessionId }, "reuse");
+            console.warn(`⚠️ Refresh token reuse on session ${sessionId} of admin ${session.adminId}; session revoked`);
+            throw sessionError("Refresh token was already used; the session has been revoked, sign in again");
+        }
+
+        // ===== CHECK ADMIN =====
+        const admin = await adminModel.findOne({ _id: session.adminId, flag: { $ne: true } });
+        if (!admin || (admin.tokenVersion ?? 0) !== session.tokenVersion) {
+            await endSessions({ _id: sessionId }, "outdated");
+            throw sessionError("Session expired or revoked; sign in again");
+        }
+
+        // ===== ROTATE =====
+        // Matching on the current hash makes concurrent refreshes with the same token fail
+        const nextToken = generateRefreshToken(sessionId);
+        const rotated = await adminSessionModel.findOneAndUpdate(
+            { _id: sessionId, refreshTokenHash: presentedHash, revokedAt: null },
+            {
+                $set: {
+                    refreshTokenHash: hashToken(nextToken),
+                    lastUsedAt: new Date(),
+                    expiresAt: refreshDeadline(),
+                    ...clientFields(context),
+                },
+                $push: { rotatedTokenHashes: { $each: [presentedHash], $slice: -ROTATED_HASHES_KEPT } },
+                $inc: { rotations: 1 },
+            },
+            { new: true }
+        );
+        if (!rotated) {
+            await endSessions({ _id: sessionId }, "reuse");
+            console.warn(`⚠️ Concurrent refresh on session ${sessionId} of admin ${session.adminId}; session revoked`);
+            throw sessionError("Refresh token was already used; the session has been revoked, sign in again");
+        }
+
+        return { admin, session: rotated, refreshToken: nextToken };
+    },
+
+    /**
+     * Gives a session a new refresh token and binds it to the admin's current tokenVersion
+     * Used to keep the caller signed in after changing their own password
+     * @param sessionId - Session document id
+     * @param admin - Admin document, saved with the new tokenVersion
+     * @returns Updated session and its new refresh token
+     * @throws CustomError - UNAUTHORIZED when the session is no longer active
+     */
+    renew: async (sessionId: string, admin: IUser): Promise<{ session: IAdminSession; refreshToken: string }> => {
+        const refreshToken = generateRefreshToken(sessionId);
+        const session = await adminSessionModel.findOneAndUpdate(
+            { _id: sessionId, ...activeFilter(String(admin._id)) },
+            {
+                $set: {
+                    refreshTokenHash: hashToken(refreshToken),
+                    tokenVersion: admin.tokenVersion ?? 0,
+                    lastUsedAt: new Date(),
+                    expiresAt: refreshDeadline(),
+                },
+                $inc: { rotations: 1 },
+            },
+            { new: true }
+        );
+        if (!session) throw sessionError("Session expired or revoked; sign in again");
+
+        return { session, refreshToken };
+    },
+
+    /**
+     * Checks whether a session of an admin can still be used
+     * @param sessionId - Session document id
+     * @param adminId - Admin document id
+     */
+    isActive: async (sessionId: string, adminId: string): Promise<boolean> => {
+        if (!mongoose.isValidObjectId(sessionId)) return false;
+        return (await adminSessionModel.exists({ _id: sessionId, ...activeFilter(adminId) })) !== null;
+    },
+
+    /**
+     * Lists the active sessions of an admin, most recently used first
+     * @param admin - Admin document; sessions from before a password change are left out
+     */
+    listActive: async (admin: IUser): Promise<IAdminSession[]> =>
+        adminSessionModel
+            .find({ ...activeFilter(String(admin._id)), tokenVersion: admin.tokenVersion ?? 0 })
+            .sort({ lastUsedAt: -1 }),
+
+    /**
+     * Revokes one session of an admin
+     * @param adminId - Admin document id, so admins can only revoke their own sessions
+     * @param sessionId - Session document id
+     * @param reason - Why the session ends
+     * @throws CustomError - NOT_FOUND when the admin has no such active session
+     */
+    revoke: async (adminId: string, sessionId: string, reason: SessionRevokeReason = "revoked"): Promise<void> => {
+        if (!mongoose.isValidObjectId(sessionId)) throw sessionError(`Session ${sessionId} not found`, 404, ErrorCode.NOT_FOUND);
+
+        const revoked = await endSessions({ _id: sessionId, adminId }, reason);
+        if (revoked === 0) throw sessionError(`Session ${sessionId} not found`, 404, ErrorCode.NOT_FOUND);
+    },
+
+    /**
+     * Revokes every session of an admin
+     * @param adminId - Admin document id
+     * @param reason - Why the sessions end
+     * @param exceptId - Session to keep, usually the caller's
+     * @returns Number of sessions revoked
+     */
+    revokeAll: async (adminId: string, reason: SessionRevokeReason = "revoked", exceptId?: string): Promise<number> =>
+        endSessions({ adminId, ...(exceptId ? { _id: { $ne: exceptId } } : {}) }, reason),
+
+}
+
+export default sessionService;
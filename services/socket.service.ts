@@ -0,0 +1,63 @@
+import { Server } from "socket.io";
+
+/**
+ * Socket Service - Shares the Socket.IO server with the rest of the application
+ * ServerSetup attaches its Socket.IO instance during setupWebSocket, and
+ * services emit live updates through this module without depending on the server.
+ * Updates go only to the admin room, which authenticated sockets join on connect.
+ */
+
+// ==================================================
+// Socket Events
+// ==================================================
+
+/**
+ * Events emitted to connected dashboard clients
+ */
+export const SOCKET_EVENTS = {
+    MESSAGE_STATUS: "message:status",        // Outbound message status changed
+    MESSAGE_MEDIA: "message:media",          // Inbound media downloaded and stored
+    SERVICE_WINDOW_EXPIRING: "window:expiring", // A contact's service window closes soon
+    CAMPAIGN_STATUS: "campaign:status",      // A campaign started, paused, resumed, completed or was cancelled
+} as const;
+
+export type SocketEvent = typeof SOCKET_EVENTS[keyof typeof SOCKET_EVENTS];
+
+/**
+ * Room of authenticated admin sockets; every live update is sent here
+ */
+export const ADMIN_ROOM = "admins";
+
+// ==================================================
+// Socket Service
+// ==================================================
+
+/**
+ * Socket.IO server attached by ServerSetup
+ */
+let io: Server | null = null;
+
+const socketService = {
+
+    /**
+     * Attaches the Socket.IO server
+     * @param server - Socket.IO server created by ServerSetup
+     */
+    attach: (server: Server): void => {
+        io = server;
+    },
+
+    /**
+     * Emits an event to every authenticated admin socket
+     * Emitting before the server is attached is a no-op
+     * @param event - Event name
+     * @param payload - Event payload
+     */
+    emit: (event: SocketEvent, payload: unknown): void => {
+        if (!io) return;
+        io.to(ADMIN_ROOM).emit(event, payload);
+    },
+
+}
+
+export default socketService;
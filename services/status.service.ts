@@ -0,0 +1,154 @@
+import dispatcherService from "./dispatcher.service";
+import socketService, { SOCKET_EVENTS } from "./socket.service";
+import { messageModel, MessageStatus } from "../models/message.model";
+import { parkedStatusModel } from "../models/parked.status.model";
+import { StatusEvent } from "../types/whatsapp.webhook.types";
+
+/**
+ * Status Service - Applies webhook delivery statuses to stored outbound messages
+ * Every status moves the message along its lifecycle, records the timestamp
+ * of the transition, pricing and conversation details, and error details
+ * for failures. Each applied status is pushed to dashboard clients over Socket.IO.
+ * Statuses often arrive before the outbound service has stored the wamid
+ * Meta returned; those are parked and applied once the wamid is recorded.
+ */
+
+// ==================================================
+// Lifecycle Ordering
+// ==================================================
+
+/**
+ * Rank of each status in the lifecycle
+ * Webhooks can arrive out of order, so a status never moves a message backwards;
+ * "failed" always wins because it is terminal
+ */
+const STATUS_RANK: Record<MessageStatus, number> = {
+    received: 0,
+    pending: 0,
+    accepted: 1,
+    sent: 2,
+    delivered: 3,
+    read: 4,
+    failed: 5,
+};
+
+/**
+ * Timestamp field recorded for each webhook status
+ */
+const TIMESTAMP_FIELD: Record<StatusEvent["status"]["status"], string> = {
+    sent: "sentAt",
+    delivered: "deliveredAt",
+    read: "readAt",
+    failed: "failedAt",
+};
+
+// ==================================================
+// Status Service
+// ==================================================
+
+const statusService = {
+
+    /**
+     * Applies a webhook status event to the matching outbound message
+     * Statuses of wamids not stored yet are parked until applyParked runs for them
+     * @param event - Normalised status event
+     */
+    applyStatus: async (event: StatusEvent): Promise<void> => {
+        const { status } = event;
+        const timestampField = TIMESTAMP_FIELD[status.status];
+
+        // ===== BUILD UPDATE =====
+        const set: Record<string, unknown> = {};
+        if (status.pricing) {
+            set.pricing = {
+                billable: status.pricing.billable,
+                pricingModel: status.pricing.pricing_model,
+                category: status.pricing.category,
+            };
+        }
+        if (status.conversation) {
+            set.conversation = {
+                id: status.conversation.id,
+                category: status.conversation.origin?.type,
+                expiresAt: status.conversation.expiration_timestamp
+                    ? new Date(Number(status.conversation.expiration_timestamp) * 1000)
+                    : undefined,
+            };
+        }
+
+        const push: Record<string, unknown> = {
+            statusHistory: { status: status.status, timestamp: event.timestamp },
+        };
+        if (status.status === "failed" && status.errors?.length) {
+            push.failures = {
+                $each: status.errors.map((error) => ({
+                    code: error.code,
+                    title: error.title,
+                    message: error.message,
+                    details: error.error_data?.details,
+                })),
+            };
+        }
+
+        // ===== APPLY HISTORY, PRICING AND ERRORS =====
+        const update: Record<string, unknown> = { $push: push };
+        if (Object.keys(set).length > 0) update.$set = set;
+
+        const message = await messageModel.findOneAndUpdate({ wamid: status.id }, update, { new: true });
+
+        // ===== PARK STATUSES OF UNKNOWN WAMIDS =====
+        // The send may still be recording its wamid; check again after parking in case it just did
+        if (!message) {
+            await parkedStatusModel.create({ wamid: status.id, event });
+            if (await messageModel.exists({ wamid: status.id })) await statusService.applyParked(status.id);
+            return;
+        }
+
+        // ===== RECORD FIRST TIMESTAMP OF THIS STATUS =====
+        await messageModel.updateOne(
+            { _id: message._id, [timestampField]: { $exists: false } },
+            { $set: { [timestampField]: event.timestamp } }
+        );
+
+        // ===== ADVANCE LIFECYCLE =====
+        // Only move forward; lower ranked statuses keep their timestamp but not the status
+        const lowerStatuses = (Object.keys(STATUS_RANK) as MessageStatus[]).filter(
+            (candidate) => STATUS_RANK[candidate] < STATUS_RANK[status.status]
+        );
+        await messageModel.updateOne(
+            { _id: message._id, status: { $in: lowerStatuses } },
+            { $set: { status: status.status } }
+        );
+
+        // ===== PUSH LIVE UPDATE =====
+        socketService.emit(SOCKET_EVENTS.MESSAGE_STATUS, {
+            messageId: String(message._id),
+            wamid: status.id,
+            recipient: status.recipient_id,
+            status: status.status,
+            timestamp: event.timestamp.toISOString(),
+            pricing: set.pricing ?? null,
+            errors: status.errors ?? [],
+        });
+    },
+
+    /**
+     * Replays the statuses parked for a wamid, oldest first
+     * Called once the outbound service has stored the wamid of a send. Replays go
+     * through every registered status handler, so campaign results see them too
+     * @param wamid - WhatsApp message ID
+     */
+    applyParked: async (wamid: string): Promise<void> => {
+        // Each parked status is removed as it is taken, so concurrent calls never apply one twice
+        for (;;) {
+            const parked = await parkedStatusModel.findOneAndDelete({ wamid }, { sort: { receivedAt: 1 } });
+            if (!parked) return;
+
+            const event = parked.event as StatusEvent;
+            await dispatcherService.dispatchOne({ ...event, timestamp: new Date(event.timestamp) });
+        }
+    },
+
+}
+
+export default statusService;
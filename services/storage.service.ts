@@ -0,0 +1,86 @@
+import { promises as fs } from "fs";
+import path from "path";
+import config from "../config/app.config";
+import { MediaStorage, StoredFile } from "../types/media.types";
+
+/**
+ * Storage Service - Pluggable backends for stored media files
+ * The local backend writes under config.media.directory, which the server
+ * serves to authenticated admins under /api/<version>/kingdom/uploads.
+ * Other backends (e.g. object storage) are registered at startup and
+ * selected with config.media.storage.
+ */
+
+// ==================================================
+// Local Disk Backend
+// ==================================================
+
+/**
+ * Resolves a key inside the storage root, refusing keys that escape it
+ */
+const localPath = (key: string): string => {
+    const root = path.resolve(config.media.directory);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+        throw new Error(`Storage key ${key} is outside the storage directory`);
+    }
+    return filePath;
+};
+
+const localStorage: MediaStorage = {
+    name: "local",
+
+    save: async (key: string, data: Buffer): Promise<StoredFile> => {
+        const filePath = localPath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, data);
+        return {
+            storage: "local",
+            key,
+            url: `/api/${config.server.apiVersion}/kingdom/uploads/${key}`,
+            size: data.length,
+        };
+    },
+
+    read: (key: string): Promise<Buffer> => fs.readFile(localPath(key)),
+
+    remove: async (key: string): Promise<void> => {
+        await fs.rm(localPath(key), { force: true });
+    },
+};
+
+// ==================================================
+// Registry
+// ==================================================
+
+const backends = new Map<string, MediaStorage>([[localStorage.name, localStorage]]);
+
+// ==================================================
+// Storage Service
+// ==================================================
+
+const storageService = {
+
+    /**
+     * Registers a storage backend
+     * Registering a name twice replaces the previous backend
+     * @param backend - Storage backend
+     */
+    register: (backend: MediaStorage): void => {
+        backends.set(backend.name, backend);
+    },
+
+    /**
+     * Gets a storage backend
+     * @param name - Backend name (default: config.media.storage)
+     * @throws Error - When no backend has that name
+     */
+    get: (name: string = config.media.storage): MediaStorage => {
+        const backend = backends.get(name);
+        if (!backend) throw new Error(`Storage backend ${name} is not registered`);
+        return backend;
+    },
+
+}
+
+export default storageService;
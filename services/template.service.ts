@@ -0,0 +1,469 @@
+import config from "../config/app.config";
+import whatsappClient from "./whatsapp.client.service";
+import outboundService, { OutboundResult } from "./outbound.service";
+import { contactModel, IContact } from "../models/contact.model";
+import { ITemplate, templateModel } from "../models/template.model";
+import { CustomError, ErrorCode } from "../types/error.types";
+import {
+    GraphTemplateComponent,
+    TemplateMediaValue,
+    TemplateParameterSlot,
+    TemplatePreview,
+    TemplateVariables,
+} from "../types/template.types";
+import {
+    OutboundLocation,
+    OutboundTemplate,
+    TemplateComponentParameters,
+    TemplateParameter,
+} from "../types/whatsapp.client.types";
+import { TemplateStatusEvent } from "../types/whatsapp.webhook.types";
+import { interpolateString } from "../utils/interpolate";
+
+/**
+ * Template Service - Message template definitions, validation and rendering
+ * Templates of config.whatsapp.businessAccountId are synced from the Graph
+ * API into Mongo and kept current by message_template_status_update
+ * webhooks. Before a template is sent its parameters are checked against
+ * the header, body and button components of the stored definition.
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const MEDIA_FORMATS = ["IMAGE", "VIDEO", "DOCUMENT"];
+const TEXT_PARAMETER_TYPES = ["text", "currency", "date_time"];
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error with the list of problems found
+ */
+const validationError = (message: string, issues: string[] = []): CustomError => {
+    const error: CustomError = new Error(issues.length > 0 ? `${message}: ${issues.join("; ")}` : message);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.details = issues.length > 0 ? { issues } : undefined;
+    error.color = "yellow";
+    return error;
+};
+
+/**
+ * Lists the placeholder names of a text, in order of first appearance
+ */
+const placeholdersOf = (text?: string): string[] =>
+    [...new Set([...(text ?? "").matchAll(PLACEHOLDER)].map((match) => match[1]))];
+
+const componentOf = (components: GraphTemplateComponent[], type: GraphTemplateComponent["type"]) =>
+    components.find((component) => component.type === type);
+
+/**
+ * Converts a media variable to a media reference
+ * Strings starting with http(s) are links, anything else is an uploaded media id
+ */
+const mediaReferenceOf = (value: unknown): TemplateMediaValue | null => {
+    if (typeof value === "string" && value) return /^https?:\/\//.test(value) ? { link: value } : { id: value };
+    if (typeof value === "object" && value !== null && ((value as any).link || (value as any).id)) {
+        return value as TemplateMediaValue;
+    }
+    return null;
+};
+
+/**
+ * Builds the scope used to fill template variables from a contact
+ */
+const contactScopeOf = (waId: string, contact: IContact | null) => ({
+    contact: {
+        waId,
+        name: contact?.name ?? contact?.profileName,
+        profileName: contact?.profileName,
+        language: contact?.language,
+        tags: contact?.tags ?? [],
+        attributes: contact?.attributes ?? {},
+    },
+});
+
+// ==================================================
+// Template Service
+// ==================================================
+
+const templateService = {
+
+    /**
+     * Lists the parameters a template expects when it is sent
+     * @param template - Stored template
+     * @returns Parameter slots in header, body, button order
+     */
+    slotsOf: (template: Pick<ITemplate, "components">): TemplateParameterSlot[] => {
+        const slots: TemplateParameterSlot[] = [];
+        const components = template.components ?? [];
+
+        // ===== HEADER =====
+        const header = componentOf(components, "HEADER");
+        if (header?.format === "TEXT" || (header && !header.format)) {
+            for (const name of placeholdersOf(header.text)) {
+                slots.push({ variable: `header.${name}`, component: "header", kind: "text", name });
+            }
+        } else if (header?.format && MEDIA_FORMATS.includes(header.format)) {
+            slots.push({ variable: "header.media", component: "header", kind: header.format.toLowerCase() as TemplateParameterSlot["kind"] });
+        } else if (header?.format === "LOCATION") {
+            slots.push({ variable: "header.location", component: "header", kind: "location" });
+        }
+
+        // ===== BODY =====
+        for (const name of placeholdersOf(componentOf(components, "BODY")?.text)) {
+            slots.push({ variable: `body.${name}`, component: "body", kind: "text", name });
+        }
+
+        // ===== BUTTONS =====
+        (componentOf(components, "BUTTONS")?.buttons ?? []).forEach((button, index) => {
+            if (button.type === "URL" && placeholdersOf(button.url).length > 0) {
+                slots.push({ variable: `button.${index}`, component: "button", kind: "text", buttonIndex: index, buttonType: "url" });
+            } else if (button.type === "COPY_CODE") {
+                slots.push({ variable: `button.${index}`, component: "button", kind: "coupon_code", buttonIndex: index, buttonType: "copy_code" });
+            }
+        });
+
+        return slots;
+    },
+
+    /**
+     * Finds a template that can be sent
+     * @param name - Template name
+     * @param language - Template language code
+     * @returns Approved template
+     * @throws CustomError - 404 when unknown (not synced), 400 when not approved
+     */
+    findSendable: async (name: string, language: string): Promise<ITemplate> => {
+        const template = await templateModel.findOne({ name, language });
+        if (!template) {
+            const error: CustomError = new Error(`Template ${name} (${language}) is not known; sync templates first`);
+            error.status = 404;
+            error.errorCode = ErrorCode.NOT_FOUND;
+            error.color = "yellow";
+            throw error;
+        }
+        if (template.status !== "APPROVED") {
+            throw validationError(`Template ${name} (${language}) is ${template.status} and cannot be sent`);
+        }
+        return template;
+    },
+
+    /**
+     * Fills a template's variables for a contact
+     * Explicit values may contain {{contact.*}} placeholders; named parameters
+     * without a value fall back to the contact attribute of the same name
+     * @param template - Stored template
+     * @param waId - Recipient wa_id
+     * @param contact - Recipient contact, if known
+     * @param values - Explicit values keyed by slot variable
+     * @returns Variables for buildComponents
+     */
+    resolveVariables: (
+        template: Pick<ITemplate, "components">,
+        waId: string,
+        contact: IContact | null,
+        values: TemplateVariables = {},
+    ): TemplateVariables => {
+        const scope = contactScopeOf(waId, contact);
+        const variables: TemplateVariables = {};
+
+        for (const slot of templateService.slotsOf(template)) {
+            const value = values[slot.variable];
+            if (typeof value === "string") {
+                variables[slot.variable] = interpolateString(value, scope);
+            } else if (value !== undefined) {
+                variables[slot.variable] = value;
+            } else if (slot.kind === "text" && slot.name && !/^\d+$/.test(slot.name)) {
+                const fallback = scope.contact.attributes[slot.name] ?? (slot.name === "name" ? scope.contact.name : undefined);
+                if (fallback !== undefined && fallback !== null) variables[slot.variable] = String(fallback);
+            }
+        }
+        return variables;
+    },
+
+    /**
+     * Builds the send components of a template from its variables
+     * @param template - Stored template
+     * @param variables - Values keyed by slot variable
+     * @returns Components for the template payload
+     * @throws CustomError - VALIDATION_ERROR listing missing, invalid and unknown variables
+     */
+    buildComponents: (template: Pick<ITemplate, "components" | "parameterFormat">, variables: TemplateVariables): TemplateComponentParameters[] => {
+        const slots = templateService.slotsOf(template);
+        const issues: string[] = [];
+        const named = template.parameterFormat === "NAMED";
+
+        const header: TemplateParameter[] = [];
+        const body: TemplateParameter[] = [];
+        const buttons: TemplateComponentParameters[] = [];
+
+        for (const slot of slots) {
+            const value = variables[slot.variable];
+            if (value === undefined || value === null || value === "") {
+                issues.push(`${slot.variable} is missing`);
+                continue;
+            }
+
+            let parameter: TemplateParameter;
+            if (slot.kind === "text" || slot.kind === "coupon_code") {
+                if (typeof value !== "string" && typeof value !== "number") {
+                    issues.push(`${slot.variable} must be text`);
+                    continue;
+                }
+                parameter = slot.kind === "text"
+                    ? { type: "text", text: String(value) }
+                    : { type: "coupon_code", coupon_code: String(value) };
+            } else if (slot.kind === "location") {
+                const location = value as OutboundLocation;
+                if (typeof location !== "object" || typeof location.latitude !== "number" || typeof location.longitude !== "number") {
+                    issues.push(`${slot.variable} must be a location with latitude and longitude`);
+                    continue;
+                }
+                parameter = { type: "location", location };
+            } else {
+                const media = mediaReferenceOf(value);
+                if (!media) {
+                    issues.push(`${slot.variable} must be a media link or media id`);
+                    continue;
+                }
+                parameter = { type: slot.kind, [slot.kind]: media } as TemplateParameter;
+            }
+
+            if (slot.component === "button") {
+                buttons.push({ type: "button", sub_type: slot.buttonType!, index: String(slot.buttonIndex), parameters: [parameter] });
+            } else {
+                if (named && slot.kind === "text") parameter.parameter_name = slot.name;
+                (slot.component === "header" ? header : body).push(parameter);
+            }
+        }
+
+        // ===== UNKNOWN VARIABLES =====
+        const known = new Set(slots.map((slot) => slot.variable));
+        for (const variable of Object.keys(variables)) {
+            if (!known.has(variable)) issues.push(`${variable} is not a parameter of this template`);
+        }
+
+        if (issues.length > 0) throw validationError("Template parameters do not match", issues);
+
+        const components: TemplateComponentParameters[] = [];
+        if (header.length > 0) components.push({ type: "header", parameters: header });
+        if (body.length > 0) components.push({ type: "body", parameters: body });
+        return [...components, ...buttons];
+    },
+
+    /**
+     * Checks a ready-made template payload against the stored definition
+     * @param payload - Template payload of an outbound message
+     * @returns Stored template
+     * @throws CustomError - 404 when unknown, VALIDATION_ERROR when not approved or parameters do not match
+     */
+    validatePayload: async (payload: OutboundTemplate): Promise<ITemplate> => {
+        const template = await templateService.findSendable(payload.name, payload.language.code);
+        const slots = templateService.slotsOf(template);
+        const given = payload.components ?? [];
+        const issues: string[] = [];
+
+        // ===== HEADER AND BODY =====
+        for (const component of ["header", "body"] as const) {
+            const expected = slots.filter((slot) => slot.component === component);
+            const parameters = given.find((item) => item.type === component)?.parameters ?? [];
+
+            if (parameters.length !== expected.length) {
+                issues.push(`${component} expects ${expected.length} parameter(s), got ${parameters.length}`);
+                continue;
+            }
+            expected.forEach((slot, index) => {
+                const parameter = parameters[index];
+                const typeMatches = slot.kind === "text" ? TEXT_PARAMETER_TYPES.includes(parameter.type) : parameter.type === slot.kind;
+                if (!typeMatches) issues.push(`${slot.variable} must be a ${slot.kind} parameter, got ${parameter.type}`);
+                if (template.parameterFormat === "NAMED" && slot.kind === "text" && parameter.parameter_name !== slot.name) {
+                    issues.push(`${slot.variable} must have parameter_name "${slot.name}"`);
+                }
+            });
+        }
+
+        // ===== BUTTONS =====
+        const definedButtons = componentOf(template.components, "BUTTONS")?.buttons ?? [];
+        for (const slot of slots.filter((item) => item.component === "button")) {
+            const button = given.find((item) => item.type === "button" && Number(item.index) === slot.buttonIndex);
+            if (!button || button.parameters.length !== 1) {
+                issues.push(`${slot.variable} expects one parameter`);
+            } else if (button.parameters[0].type !== (slot.kind === "coupon_code" ? "coupon_code" : "text")) {
+                issues.push(`${slot.variable} must be a ${slot.kind} parameter`);
+            }
+        }
+        for (const item of given) {
+            if (item.type !== "button") continue;
+            const index = Number(item.index);
+            const defined = definedButtons[index];
+            const hasSlot = slots.some((slot) => slot.buttonIndex === index);
+            if (!defined) issues.push(`button ${item.index} does not exist`);
+            else if (!hasSlot && defined.type !== "QUICK_REPLY") issues.push(`button ${item.index} takes no parameters`);
+        }
+
+        if (issues.length > 0) throw validationError("Template parameters do not match", issues);
+        return template;
+    },
+
+    /**
+     * Renders a text preview of a template
+     * Placeholders without a value stay visible as {{name}}
+     * @param template - Stored template
+     * @param variables - Values keyed by slot variable
+     * @returns Preview of header, body, footer and buttons
+     */
+    render: (template: Pick<ITemplate, "components">, variables: TemplateVariables = {}): TemplatePreview => {
+        const fill = (text: string | undefined, prefix: string): string =>
+            (text ?? "").replace(PLACEHOLDER, (placeholder, name: string) => {
+                const value = variables[`${prefix}.${name}`];
+                return typeof value === "string" || typeof value === "number" ? String(value) : placeholder;
+            });
+
+        const header = componentOf(template.components, "HEADER");
+        const buttons = componentOf(template.components, "BUTTONS")?.buttons ?? [];
+
+        return {
+            header: !header
+                ? undefined
+                : header.format === "TEXT" || !header.format
+                    ? fill(header.text, "header")
+                    : `[${header.format}]`,
+            body: fill(componentOf(template.components, "BODY")?.text, "body"),
+            footer: componentOf(template.components, "FOOTER")?.text,
+            buttons: buttons.map((button, index) => ({
+                type: button.type,
+                text: button.text,
+                url: button.url
+                    ? button.url.replace(PLACEHOLDER, (placeholder) => {
+                          const value = variables[`button.${index}`];
+                          return typeof value === "string" || typeof value === "number" ? String(value) : placeholder;
+                      })
+                    : undefined,
+                phoneNumber: button.phone_number,
+            })),
+        };
+    },
+
+    /**
+     * Sends a template to a contact
+     * Variables are filled from the contact and validated before sending
+     * @param waId - Recipient wa_id
+     * @param name - Template name
+     * @param language - Template language code
+     * @param values - Explicit values keyed by slot variable
+     * @returns Internal message ID and wamid
+     * @throws CustomError - Unknown template, invalid parameters or Graph API error
+     */
+    send: async (waId: string, name: string, language: string, values: TemplateVariables = {}): Promise<OutboundResult> => {
+        const template = await templateService.findSendable(name, language);
+        const contact = await contactModel.findOne({ waId });
+
+        const variables = templateService.resolveVariables(template, waId, contact, values);
+        const components = templateService.buildComponents(template, variables);
+
+        return outboundService.send({
+            to: waId,
+            type: "template",
+            template: {
+                name,
+                language: { code: language },
+                ...(components.length > 0 ? { components } : {}),
+            },
+        });
+    },
+
+    /**
+     * Syncs every template of the configured business account into Mongo
+     * Templates no longer returned by the Graph API are marked DELETED
+     * @returns Number of templates synced and marked deleted
+     * @throws CustomError - Missing business account ID or Graph API error
+     */
+    sync: async (): Promise<{ synced: number; deleted: number }> => {
+        const businessAccountId = config.whatsapp.businessAccountId;
+        if (!businessAccountId || businessAccountId === "N/A") {
+            const error: CustomError = new Error("BUSINESS_ACCOUNT_ID is not configured");
+            error.status = 500;
+            error.errorCode = ErrorCode.INTERNAL_SERVER_ERROR;
+            error.color = "red";
+            throw error;
+        }
+
+        // ===== FETCH ALL PAGES =====
+        const syncedAt = new Date();
+        let synced = 0;
+        let after: string | undefined;
+        do {
+            const page = await whatsappClient.listTemplates(businessAccountId, after);
+
+            for (const template of page.data ?? []) {
+                await templateModel.updateOne(
+                    { templateId: template.id },
+                    {
+                        $set: {
+                            businessAccountId,
+                            name: template.name,
+                            language: template.language,
+                            status: template.status,
+                            category: template.category,
+                            parameterFormat: template.parameter_format ?? "POSITIONAL",
+                            components: template.components ?? [],
+                            rejectedReason: template.rejected_reason ?? null,
+                            lastSyncedAt: syncedAt,
+                        },
+                    },
+                    { upsert: true }
+                );
+                synced += 1;
+            }
+
+            after = page.paging?.next ? page.paging.cursors?.after : undefined;
+        } while (after);
+
+        // ===== MARK REMOVED TEMPLATES =====
+        const removed = await templateModel.updateMany(
+            { businessAccountId, status: { $ne: "DELETED" }, $or: [{ lastSyncedAt: { $lt: syncedAt } }, { lastSyncedAt: null }] },
+            { $set: { status: "DELETED", statusUpdatedAt: syncedAt } }
+        );
+
+        console.log(`📑 Synced ${synced} message template(s), ${removed.modifiedCount} marked deleted`);
+        return { synced, deleted: removed.modifiedCount };
+    },
+
+    /**
+     * Applies a message_template_status_update webhook
+     * Unknown templates are stored and a sync is started to fetch their components
+     * @param event - Normalised template status event
+     */
+    applyStatusUpdate: async (event: TemplateStatusEvent): Promise<void> => {
+        // A reinstated template can be sent again
+        const status = event.event === "REINSTATED" ? "APPROVED" : event.event;
+
+        const result = await templateModel.updateOne(
+            { templateId: event.templateId },
+            {
+                $set: { status, rejectedReason: event.reason ?? null, statusUpdatedAt: event.timestamp },
+                $setOnInsert: {
+                    businessAccountId: event.businessAccountId,
+                    name: event.name,
+                    language: event.language,
+                    components: [],
+                },
+            },
+            { upsert: true }
+        );
+
+        console.log(`📑 Template ${event.name} (${event.language}) is now ${status}${event.reason ? `: ${event.reason}` : ""}`);
+
+        if (result.upsertedCount > 0) {
+            templateService.sync().catch((error) => console.error("❌ Template sync after status update failed:", error));
+        }
+    },
+
+}
+
+export default templateService;
@@ -0,0 +1,460 @@
+import axios, { AxiosInstance, Method } from "axios";
+import config from "../config/app.config";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { SharedContact } from "../types/whatsapp.webhook.types";
+import { GraphTemplateList } from "../types/template.types";
+import {
+    GraphApiErrorBody,
+    GraphErrorDetails,
+    GraphMediaInfo,
+    MediaReference,
+    OutboundInteractive,
+    OutboundLocation,
+    OutboundMedia,
+    OutboundMediaType,
+    OutboundMessage,
+    OutboundTemplate,
+    SendMessageResponse,
+    SendOptions,
+    SendResult,
+    WhatsAppClientOptions,
+} from "../types/whatsapp.client.types";
+
+/**
+ * WhatsApp Client Service - Typed client for the WhatsApp Cloud (Graph) API
+ * Sends every supported outbound message type through the
+ * /{phone-number-id}/messages endpoint and maps Graph API failures
+ * into CustomError objects with a matching ErrorCode.
+ */
+
+// ==================================================
+// Graph API Error Mapping
+// ==================================================
+
+/**
+ * Graph API error codes grouped by the ErrorCode they map to
+ * Codes not listed here map to WHATSAPP_API_ERROR
+ */
+const GRAPH_ERROR_GROUPS: Array<{ codes: number[]; status: number; errorCode: ErrorCode; retryable: boolean }> = [
+    // Expired or invalid access token
+    { codes: [0, 102, 190], status: 401, errorCode: ErrorCode.UNAUTHORIZED, retryable: false },
+    // Missing permissions or locked account
+    { codes: [3, 10, 131005, 131031], status: 403, errorCode: ErrorCode.FORBIDDEN, retryable: false },
+    // Re-engagement: free-form message outside the 24-hour service window
+    { codes: [131047], status: 403, errorCode: ErrorCode.SERVICE_WINDOW_CLOSED, retryable: false },
+    // Throughput, spam and pair rate limits
+    { codes: [4, 80007, 130429, 131048, 131056], status: 429, errorCode: ErrorCode.RATE_LIMIT_EXCEEDED, retryable: true },
+    // Invalid parameters, unsupported types and template mismatches
+    {
+        codes: [100, 131008, 131009, 131021, 131026, 131051, 131052, 131053, 133010, 135000],
+        status: 400,
+        errorCode: ErrorCode.VALIDATION_ERROR,
+        retryable: false,
+    },
+    // Temporary failures on Meta's side
+    { codes: [1, 2, 131000, 131016, 133004], status: 503, errorCode: ErrorCode.SERVICE_UNAVAILABLE, retryable: true },
+];
+
+/**
+ * Network error codes raised before the request reached Meta
+ * Only these are safe to retry: after a timeout or reset Meta may already have the message
+ */
+const NOT_SENT_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+/**
+ * Converts any error thrown while calling the Graph API into a CustomError
+ * Graph API error details are kept in `details` for logging and retries
+ * @param error - Error thrown by axios or the client
+ * @returns CustomError with status, errorCode and GraphErrorDetails
+ */
+export const mapGraphError = (error: unknown): CustomError => {
+    // ===== PASS THROUGH MAPPED ERRORS =====
+    if (error instanceof Error && (error as CustomError).errorCode && !axios.isAxiosError(error)) {
+        return error as CustomError;
+    }
+
+    // ===== NETWORK AND TIMEOUT ERRORS =====
+    // Connection failures mean Meta never got the request and a retry is safe. Timeouts
+    // and resets may come after Meta accepted it, so only reads are retried then.
+    if (!axios.isAxiosError(error) || !error.response) {
+        const networkCode = (error as { code?: string } | null)?.code;
+        const notSent = networkCode !== undefined && NOT_SENT_ERROR_CODES.includes(networkCode);
+        const isRead = axios.isAxiosError(error) && error.config?.method?.toLowerCase() === "get";
+
+        const customError: CustomError = new Error(
+            notSent || isRead
+                ? "WhatsApp API is unreachable"
+                : "WhatsApp API did not answer; the message may have been delivered",
+        );
+        customError.status = notSent || isRead ? 503 : 504;
+        customError.errorCode = notSent || isRead ? ErrorCode.SERVICE_UNAVAILABLE : ErrorCode.DELIVERY_UNKNOWN;
+        customError.color = "red";
+        customError.details = {
+            graphCode: null,
+            graphSubcode: null,
+            graphMessage: error instanceof Error ? error.message : String(error),
+            fbtraceId: null,
+            retryable: notSent || isRead,
+            deliveryUnknown: !notSent && !isRead,
+        } as GraphErrorDetails;
+        return customError;
+    }
+
+    // ===== GRAPH API ERRORS =====
+    const body = error.response.data as Partial<GraphApiErrorBody> | undefined;
+    const graphError = body?.error;
+    const code = typeof graphError?.code === "number" ? graphError.code : null;
+
+    // Template parameter errors use the 132000 range
+    const isTemplateError = code !== null && code >= 132000 && code < 133000;
+    const group = GRAPH_ERROR_GROUPS.find((g) => code !== null && g.codes.includes(code));
+
+    const graphMessage = graphError?.error_data?.details || graphError?.message || error.message;
+    const customError: CustomError = new Error(`WhatsApp API error${code !== null ? ` ${code}` : ""}: ${graphMessage}`);
+
+    if (group) {
+        customError.status = group.status;
+        customError.errorCode = group.errorCode;
+    } else if (isTemplateError) {
+        customError.status = 400;
+        customError.errorCode = ErrorCode.VALIDATION_ERROR;
+    } else {
+        customError.status = 502;
+        customError.errorCode = ErrorCode.WHATSAPP_API_ERROR;
+    }
+
+    customError.color = customError.status >= 500 ? "red" : "yellow";
+    customError.details = {
+        graphCode: code,
+        graphSubcode: graphError?.error_subcode ?? null,
+        graphMessage,
+        fbtraceId: graphError?.fbtrace_id ?? null,
+        // Only explicit rate-limit and temporary codes are retried; an unmapped 5xx may follow an accepted send
+        retryable: group?.retryable ?? false,
+    } as GraphErrorDetails;
+
+    return customError;
+};
+
+// ==================================================
+// WhatsApp Client
+// ==================================================
+
+/**
+ * WhatsAppClient wraps the Graph API endpoints used by the bot
+ * Base URL, API version and credentials come from config.whatsapp,
+ * and can be overridden per instance (e.g. to point at a local stand-in)
+ */
+export class WhatsAppClient {
+    // ===== PRIVATE PROPERTIES =====
+
+    /**
+     * Resolved client options
+     */
+    private readonly options: WhatsAppClientOptions;
+
+    /**
+     * Axios instance bound to the versioned Graph API URL
+     */
+    private readonly http: AxiosInstance;
+
+    /**
+     * Constructor merges the given options with config.whatsapp
+     * @param options - Optional overrides for the configured values
+     */
+    constructor(options: Partial<WhatsAppClientOptions> = {}) {
+        this.options = {
+            baseUrl: config.whatsapp.apiBaseUrl,
+            apiVersion: config.whatsapp.apiVersion,
+            accessToken: config.whatsapp.accessToken,
+            phoneNumberId: config.whatsapp.phoneNumberId,
+            timeoutMs: config.whatsapp.requestTimeoutMs,
+            ...options,
+        };
+
+        this.http = axios.create({
+            baseURL: `${this.options.baseUrl.replace(/\/+$/, "")}/${this.options.apiVersion}`,
+            timeout: this.options.timeoutMs,
+            headers: {
+                "Content-Type": "application/json",
+            },
+        });
+    }
+
+    /**
+     * Gets the phone number ID messages are sent from
+     * @returns The configured phone number ID
+     */
+    public getPhoneNumberId(): string {
+        return this.options.phoneNumberId;
+    }
+
+    // ==================================================
+    // Low-level Requests
+    // ==================================================
+
+    /**
+     * Performs an authenticated Graph API request
+     * @param method - HTTP method
+     * @param path - Path relative to the versioned base URL
+     * @param data - Request body
+     * @param params - Query string parameters
+     * @param headers - Extra headers (e.g. a multipart Content-Type)
+     * @returns Response body
+     * @throws CustomError - Mapped Graph API error
+     */
+    public async request<T>(
+        method: Method,
+        path: string,
+        data?: unknown,
+        params?: Record<string, unknown>,
+        headers: Record<string, string> = {},
+    ): Promise<T> {
+        try {
+            const response = await this.http.request<T>({
+                method,
+                url: path,
+                data,
+                params,
+                headers: { ...headers, Authorization: `Bearer ${this.options.accessToken}` },
+            });
+            return response.data;
+        } catch (error) {
+            throw mapGraphError(error);
+        }
+    }
+
+    /**
+     * Sends any outbound message payload
+     * @param message - Outbound message without messaging_product
+     * @returns wamid and recipient wa_id of the accepted message
+     * @throws CustomError - Mapped Graph API error
+     */
+    public async sendMessage(message: OutboundMessage): Promise<SendResult> {
+        const response = await this.request<SendMessageResponse>("POST", `/${this.options.phoneNumberId}/messages`, {
+            messaging_product: "whatsapp",
+            recipient_type: "individual",
+            ...message,
+        });
+
+        // ===== VALIDATE RESPONSE =====
+        const wamid = response?.messages?.[0]?.id;
+        if (!wamid) {
+            const error: CustomError = new Error("WhatsApp API accepted the message without returning an ID");
+            error.status = 502;
+            error.errorCode = ErrorCode.WHATSAPP_API_ERROR;
+            error.color = "red";
+            error.details = response;
+            throw error;
+        }
+
+        return {
+            wamid,
+            waId: response.contacts?.[0]?.wa_id ?? null,
+            response,
+        };
+    }
+
+    // ==================================================
+    // Typed Send Helpers
+    // ==================================================
+
+    /**
+     * Sends a text message
+     * @param to - Recipient phone number or wa_id
+     * @param body - Message text
+     * @param options - Reply context and link preview flag
+     */
+    public sendText(to: string, body: string, options: SendOptions & { previewUrl?: boolean } = {}): Promise<SendResult> {
+        return this.sendMessage({
+            to,
+            type: "text",
+            text: { body, preview_url: options.previewUrl ?? false },
+            ...withContext(options),
+        });
+    }
+
+    /**
+     * Sends an image, audio, video, document or sticker by media id or link
+     * @param to - Recipient phone number or wa_id
+     * @param type - Media type
+     * @param media - Media id or link, plus caption/filename where supported
+     * @param options - Reply context
+     */
+    public sendMedia(to: string, type: OutboundMediaType, media: OutboundMedia, options: SendOptions = {}): Promise<SendResult> {
+        // Audio and stickers do not accept captions or file names
+        const reference: OutboundMedia =
+            type === "audio" || type === "sticker"
+                ? ((media.id ? { id: media.id } : { link: media.link }) as MediaReference)
+                : media;
+
+        return this.sendMessage({
+            to,
+            type,
+            [type]: reference,
+            ...withContext(options),
+        } as OutboundMessage);
+    }
+
+    /**
+     * Sends a location pin
+     * @param to - Recipient phone number or wa_id
+     * @param location - Coordinates with optional name and address
+     * @param options - Reply context
+     */
+    public sendLocation(to: string, location: OutboundLocation, options: SendOptions = {}): Promise<SendResult> {
+        return this.sendMessage({ to, type: "location", location, ...withContext(options) });
+    }
+
+    /**
+     * Sends one or more contact cards
+     * @param to - Recipient phone number or wa_id
+     * @param contacts - Contact cards
+     * @param options - Reply context
+     */
+    public sendContacts(to: string, contacts: SharedContact[], options: SendOptions = {}): Promise<SendResult> {
+        return this.sendMessage({ to, type: "contacts", contacts, ...withContext(options) });
+    }
+
+    /**
+     * Reacts to a message; an empty emoji removes the reaction
+     * @param to - Recipient phone number or wa_id
+     * @param messageId - wamid of the message to react to
+     * @param emoji - Reaction emoji
+     */
+    public sendReaction(to: string, messageId: string, emoji: string): Promise<SendResult> {
+        return this.sendMessage({ to, type: "reaction", reaction: { message_id: messageId, emoji } });
+    }
+
+    /**
+     * Sends an approved message template
+     * @param to - Recipient phone number or wa_id
+     * @param template - Template name, language and component parameters
+     * @param options - Reply context
+     */
+    public sendTemplate(to: string, template: OutboundTemplate, options: SendOptions = {}): Promise<SendResult> {
+        return this.sendMessage({ to, type: "template", template, ...withContext(options) });
+    }
+
+    /**
+     * Sends an interactive message (buttons, list, CTA URL or location request)
+     * @param to - Recipient phone number or wa_id
+     * @param interactive - Interactive payload
+     * @param options - Reply context
+     */
+    public sendInteractive(to: string, interactive: OutboundInteractive, options: SendOptions = {}): Promise<SendResult> {
+        return this.sendMessage({ to, type: "interactive", interactive, ...withContext(options) });
+    }
+
+    // ==================================================
+    // Read Receipts
+    // ==================================================
+
+    /**
+     * Marks an inbound message as read (blue ticks), optionally showing the typing indicator
+     * The indicator disappears when we reply, or after 25 seconds
+     * @param messageId - wamid of the inbound message
+     * @param typing - Also show the typing indicator
+     * @throws CustomError - Mapped Graph API error
+     */
+    public async markAsRead(messageId: string, typing: boolean = false): Promise<void> {
+        await this.request("POST", `/${this.options.phoneNumberId}/messages`, {
+            messaging_product: "whatsapp",
+            status: "read",
+            message_id: messageId,
+            ...(typing ? { typing_indicator: { type: "text" } } : {}),
+        });
+    }
+
+    // ==================================================
+    // Message Templates
+    // ==================================================
+
+    /**
+     * Fetches one page of the message templates of a WhatsApp Business Account
+     * @param businessAccountId - WhatsApp Business Account ID
+     * @param after - Paging cursor of the previous page
+     * @returns Page of template definitions
+     */
+    public listTemplates(businessAccountId: string, after?: string): Promise<GraphTemplateList> {
+        return this.request<GraphTemplateList>("GET", `/${businessAccountId}/message_templates`, undefined, {
+            fields: "id,name,language,status,category,parameter_format,components,rejected_reason",
+            limit: 100,
+            after,
+        });
+    }
+
+    // ==================================================
+    // Media
+    // ==================================================
+
+    /**
+     * Resolves the download URL and metadata of a media id
+     * @param mediaId - Media id from an inbound message or an upload
+     * @returns Media metadata with a short-lived download URL
+     * @throws CustomError - Mapped Graph API error
+     */
+    public getMediaInfo(mediaId: string): Promise<GraphMediaInfo> {
+        return this.request<GraphMediaInfo>("GET", `/${mediaId}`);
+    }
+
+    /**
+     * Uploads a media file for later sends
+     * WhatsApp keeps uploaded media for 30 days
+     * @param data - File contents
+     * @param mimeType - MIME type of the file
+     * @param filename - Original file name
+     * @returns Media id to reference in messages
+     * @throws CustomError - Mapped Graph API error
+     */
+    public async uploadMedia(data: Buffer, mimeType: string, filename: string): Promise<string> {
+        const form = new FormData();
+        form.append("messaging_product", "whatsapp");
+        form.append("type", mimeType);
+        form.append("file", new Blob([new Uint8Array(data)], { type: mimeType }), filename);
+
+        const response = await this.request<{ id: string }>("POST", `/${this.options.phoneNumberId}/media`, form, undefined, {
+            "Content-Type": "multipart/form-data",
+        });
+        return response.id;
+    }
+
+    /**
+     * Downloads a media file from its Graph API URL
+     * @param url - URL returned by getMediaInfo
+     * @param maxBytes - Largest accepted file
+     * @param timeoutMs - Download timeout
+     * @returns File contents
+     * @throws CustomError - Mapped Graph API error
+     */
+    public async downloadMedia(url: string, maxBytes: number, timeoutMs: number): Promise<Buffer> {
+        try {
+            const response = await axios.get<ArrayBuffer>(url, {
+                responseType: "arraybuffer",
+                timeout: timeoutMs,
+                maxContentLength: maxBytes,
+                headers: { Authorization: `Bearer ${this.options.accessToken}` },
+            });
+            return Buffer.from(response.data);
+        } catch (error) {
+            throw mapGraphError(error);
+        }
+    }
+}
+
+/**
+ * Builds the reply context for a message
+ */
+const withContext = (options: SendOptions): Pick<OutboundMessage, "context"> =>
+    options.replyTo ? { context: { message_id: options.replyTo } } : {};
+
+// ==================================================
+// Client Instance
+// ==================================================
+
+/**
+ * Shared client configured from config.whatsapp
+ */
+const whatsappClient = new WhatsAppClient();
+
+export default whatsappClient;
@@ -0,0 +1,175 @@
+import config from "../config/app.config";
+import socketService, { SOCKET_EVENTS } from "./socket.service";
+import { toWaId } from "./conversation.service";
+import { conversationModel } from "../models/conversation.model";
+import { templateModel } from "../models/template.model";
+import { CustomError, ErrorCode } from "../types/error.types";
+import { OutboundMessage } from "../types/whatsapp.client.types";
+
+/**
+ * Window Service - Tracks the 24-hour customer service window
+ * WhatsApp only delivers free-form messages within 24 hours of the
+ * customer's last inbound message; outside it only templates may be sent.
+ * The window is derived from the conversation's lastInboundAt, checked
+ * before every free-form send, and dashboards are warned over Socket.IO
+ * shortly before a window closes.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * State of a contact's service window
+ */
+export interface ServiceWindow {
+    open: boolean;
+    lastInboundAt: Date | null;      // Last inbound message, null when the contact never wrote
+    expiresAt: Date | null;          // When the window closes (or closed)
+    remainingMs: number;             // Time left, 0 when closed
+}
+
+// ==================================================
+// State
+// ==================================================
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+const SUGGESTED_TEMPLATES = 5;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Length of the service window in milliseconds
+ */
+const windowMs = (): number => config.serviceWindow.hours * 60 * 60 * 1000;
+
+// ==================================================
+// Window Service
+// ==================================================
+
+const windowService = {
+
+    /**
+     * Computes the service window from the last inbound message
+     * @param lastInboundAt - Time of the contact's last inbound message
+     * @param now - Reference time (default: now)
+     */
+    windowOf: (lastInboundAt?: Date | null, now: number = Date.now()): ServiceWindow => {
+        if (!lastInboundAt) return { open: false, lastInboundAt: null, expiresAt: null, remainingMs: 0 };
+        const expiresAt = new Date(lastInboundAt.getTime() + windowMs());
+        const remainingMs = Math.max(0, expiresAt.getTime() - now);
+        return { open: remainingMs > 0, lastInboundAt, expiresAt, remainingMs };
+    },
+
+    /**
+     * Gets the service window of a contact
+     * @param waId - Contact wa_id
+     */
+    getWindow: async (waId: string): Promise<ServiceWindow> => {
+        const conversation = await conversationModel.findOne({ contactWaId: waId }, { lastInboundAt: 1 }).lean();
+        return windowService.windowOf(conversation?.lastInboundAt);
+    },
+
+    /**
+     * Refuses free-form messages to contacts whose window is closed
+     * Templates are always allowed
+     * @param message - Outbound message payload
+     * @throws CustomError - SERVICE_WINDOW_CLOSED with approved templates to use instead
+     */
+    assertCanSend: async (message: OutboundMessage): Promise<void> => {
+        if (!config.serviceWindow.enforce || message.type === "template") return;
+
+        const waId = toWaId(message.to);
+        const window = await windowService.getWindow(waId);
+        if (window.open) return;
+
+        const templates = await templateModel
+            .find({ status: "APPROVED" }, { name: 1, language: 1, category: 1 })
+            .sort({ name: 1 })
+            .limit(SUGGESTED_TEMPLATES)
+            .lean();
+
+        const error: CustomError = new Error(
+            window.expiresAt
+                ? `The 24-hour service window with ${waId} closed at ${window.expiresAt.toISOString()}; send an approved template instead`
+                : `${waId} has not messaged us yet, so no service window is open; send an approved template instead`
+        );
+        error.status = 403;
+        error.errorCode = ErrorCode.SERVICE_WINDOW_CLOSED;
+        error.color = "yellow";
+        error.details = {
+            waId,
+            window,
+            suggestion: "template",
+            templates: templates.map((template) => ({ name: template.name, language: template.language, category: template.category })),
+        };
+        throw error;
+    },
+
+    /**
+     * Warns dashboards about windows closing within the warning period
+     * Each window is announced once; the claim keeps instances from repeating it
+     * @returns Number of windows announced
+     */
+    announceExpiring: async (): Promise<number> => {
+        const now = Date.now();
+        const from = new Date(now - windowMs());
+        const to = new Date(now - windowMs() + config.serviceWindow.warningMinutes * 60 * 1000);
+
+        const conversations = await conversationModel
+            .find({ lastInboundAt: { $gt: from, $lte: to } }, { contactWaId: 1, lastInboundAt: 1, windowWarnedAt: 1 })
+            .lean();
+
+        let announced = 0;
+        for (const conversation of conversations) {
+            const lastInboundAt = conversation.lastInboundAt as Date;
+            if (conversation.windowWarnedAt && conversation.windowWarnedAt >= lastInboundAt) continue;
+
+            // ===== CLAIM ANNOUNCEMENT =====
+            const claimed = await conversationModel.updateOne(
+                {
+                    _id: conversation._id,
+                    lastInboundAt,
+                    $or: [{ windowWarnedAt: { $exists: false } }, { windowWarnedAt: { $lt: lastInboundAt } }],
+                },
+                { $set: { windowWarnedAt: new Date(now) } }
+            );
+            if (claimed.modifiedCount === 0) continue;
+
+            const window = windowService.windowOf(lastInboundAt, now);
+            socketService.emit(SOCKET_EVENTS.SERVICE_WINDOW_EXPIRING, {
+                conversationId: String(conversation._id),
+                contactWaId: conversation.contactWaId,
+                expiresAt: window.expiresAt?.toISOString(),
+                remainingMs: window.remainingMs,
+            });
+            announced++;
+        }
+
+        return announced;
+    },
+
+    /**
+     * Starts the periodic expiring window check
+     */
+    start: (): void => {
+        if (sweepTimer) return;
+        sweepTimer = setInterval(() => {
+            windowService.announceExpiring().catch((error) => console.error("❌ Service window check failed:", error));
+        }, config.serviceWindow.sweepIntervalMs);
+    },
+
+    /**
+     * Stops the periodic expiring window check
+     */
+    stop: (): void => {
+        if (sweepTimer) clearInterval(sweepTimer);
+        sweepTimer = null;
+    },
+
+}
+
+export default windowService;
@@ -22,7 +22,8 @@ export interface ServerConfig {
  */
 export interface JWTConfig {
     secret: string | undefined;      // JWT signing secret key
-    validity: string;                // Token validity period (e.g., "24h")
+    validity: string;                // Access token validity period (e.g., "15m")
+    refreshValidityDays: number;     // Days an unused refresh token (device session) stays valid
 }
 
 /**
@@ -44,12 +45,27 @@ export interface DatabaseConfig {
  */
 export interface SecurityConfig {
     bcryptSaltRounds: number;        // Number of salt rounds for bcrypt password hashing
+    maxFailedLogins: number;         // Failed logins before the account is locked
+    lockoutMinutes: number;          // How long a locked account stays locked
+    minPasswordScore: number;        // Minimum scorePassword result (0-100) for new passwords
+    passwordHistory: number;         // Previous passwords that may not be reused
     rateLimiting: {
         windowMs: number;            // Rate limiting window in milliseconds
         max: number;                 // Maximum requests per window per IP
     };
 }
 
+/**
+ * MFA configuration interface
+ * Defines TOTP multi-factor authentication settings for admins
+ */
+export interface MfaConfig {
+    issuer: string;                  // Issuer shown in authenticator apps
+    challengeValidity: string;       // Validity of the login challenge token (e.g., "5m")
+    window: number;                  // Time steps accepted before and after the current one
+    recoveryCodes: number;           // Recovery codes issued when MFA is enabled
+}
+
 /**
  * Logging configuration interface
  * Defines logging settings and file configuration
@@ -68,6 +84,136 @@ export interface WhatsappConfig {
     phoneNumberId: string;                // Whatsapp phone number ID
     businessAccountId: string;            // Whatsapp business account ID
     verifyToken:string;                   // Whatsapp verify token
+    appSecret: string;                    // Meta app secret used to sign webhook payloads
+    apiBaseUrl: string;                   // Graph API base URL
+    apiVersion: string;                   // Graph API version (e.g. v21.0)
+    requestTimeoutMs: number;             // Graph API request timeout in milliseconds
+    messagesPerSecond: number;            // Throughput tier of the phone number
+}
+
+/**
+ * Webhook configuration interface
+ * Defines inbound webhook processing settings
+ */
+export interface WebhookConfig {
+    dedupTtlSeconds: number;              // How long processed message/status ids are remembered
+    dedupLeaseSeconds: number;            // How long an unfinished claim blocks redeliveries
+}
+
+/**
+ * Idempotency configuration interface
+ * Defines how long Idempotency-Key headers are remembered
+ */
+export interface IdempotencyConfig {
+    ttlSeconds: number;                   // Lifetime of a stored key and its response
+}
+
+/**
+ * Queue configuration interface
+ * Defines job worker concurrency, retry and lock settings
+ */
+export interface QueueConfig {
+    concurrency: number;                  // Jobs processed in parallel per process
+    pollIntervalMs: number;               // Delay between polls when the queue is idle
+    maxAttempts: number;                  // Attempts before a job is dead-lettered
+    backoffBaseMs: number;                // First retry delay, doubled on every attempt
+    backoffMaxMs: number;                 // Maximum retry delay
+    lockTimeoutMs: number;                // Age after which a processing lock is stale
+    recoveryIntervalMs: number;           // Interval of the stale lock recovery
+    shutdownTimeoutMs: number;            // Time to wait for in-flight jobs on shutdown
+    completedTtlSeconds: number;          // Retention of completed jobs
+}
+
+/**
+ * Flow engine configuration interface
+ * Defines where flow definitions are loaded from and how sessions behave
+ */
+export interface FlowConfig {
+    directory: string;                    // Directory of JSON/YAML flow definitions loaded on startup
+    sessionTimeoutMinutes: number;        // Default inactivity before a flow session expires
+    sweepIntervalMs: number;              // Interval of the expired session sweep
+    maxRetries: number;                   // Default invalid replies allowed per question
+    maxStepsPerMessage: number;           // Nodes executed per inbound message before the run is stopped
+    webhookTimeoutMs: number;             // Default timeout of webhook nodes
+    restartKeywords: string[];            // Keywords restarting the current flow
+    menuKeywords: string[];               // Keywords starting the menu flow
+}
+
+/**
+ * Command router configuration interface
+ * Defines the fallback reply and the stored command cache
+ */
+export interface CommandConfig {
+    fallbackMessage: string;              // Reply to text no command or flow handled; empty disables it
+    cacheTtlMs: number;                   // How long stored commands are cached per process
+}
+
+/**
+ * Read receipt configuration interface
+ * Defines the default read receipt and typing indicator behaviour
+ */
+export interface ReceiptConfig {
+    markAsRead: boolean;                  // Mark inbound messages as read
+    typingIndicator: boolean;             // Show the typing indicator while handlers run long
+    typingThresholdMs: number;            // Handler time before the typing indicator is shown
+}
+
+/**
+ * Service window configuration interface
+ * Defines the customer service window and its expiry warnings
+ */
+export interface ServiceWindowConfig {
+    enforce: boolean;                     // Refuse free-form sends outside the window
+    hours: number;                        // Window length after the last inbound message
+    warningMinutes: number;               // Warn dashboards this long before a window closes
+    sweepIntervalMs: number;              // Interval of the expiring window check
+}
+
+/**
+ * Outbound dispatcher configuration interface
+ * Defines per-recipient pair limits and retries of rate-limited sends
+ */
+export interface OutboundConfig {
+    pairBurst: number;                    // Messages one recipient may receive in a burst
+    pairIntervalMs: number;               // Sustained interval between messages to one recipient
+    maxRetries: number;                   // Retries of retryable Graph API failures
+    retryBaseMs: number;                  // First retry delay, doubled on every retry and jittered
+    retryMaxMs: number;                   // Maximum retry delay
+    maxQueueDepth: number;                // Waiting sends allowed before new ones are refused
+}
+
+/**
+ * Scheduler configuration interface
+ * Defines how scheduled messages are polled, claimed and caught up
+ */
+export interface SchedulerConfig {
+    pollIntervalMs: number;               // Interval between checks for due messages
+    batchSize: number;                    // Due messages claimed per check
+    missedGraceMinutes: number;           // Overdue messages older than this are marked missed instead of sent
+    claimTimeoutMs: number;               // Age after which a claim is considered interrupted
+    defaultTimezone: string;              // Timezone of local times for contacts without one
+}
+
+/**
+ * Campaign configuration interface
+ * Defines how broadcast campaigns are sent and attributed
+ */
+export interface CampaignConfig {
+    batchSize: number;                    // Recipients claimed per batch
+    sliceMs: number;                      // Sending time of one campaign job before it is re-queued
+    replyWindowHours: number;             // Inbound messages this long after a send count as replies
+}
+
+/**
+ * Media configuration interface
+ * Defines where downloaded media is stored and download limits
+ */
+export interface MediaConfig {
+    storage: string;                      // Storage backend name ("local" stores under directory)
+    directory: string;                    // Local storage root, served to admins under /kingdom/uploads
+    downloadTimeoutMs: number;            // Timeout of one media download
+    maxDownloadBytes: number;             // Largest media file downloaded
+    uploadExpiryDays: number;             // How long WhatsApp keeps uploaded media
 }
 
 /**
@@ -91,7 +237,19 @@ export interface AppConfig {
     jwt: JWTConfig;                  // JWT authentication settings
     database: DatabaseConfig;        // Database connection settings
     security: SecurityConfig;        // Security and authentication settings
+    mfa: MfaConfig;                  // Admin multi-factor authentication settings
     logging: LoggingConfig;          // Logging configuration
     encryption: EncryptionConfig;    // Encryption settings
     whatsapp: WhatsappConfig;        // Whatsapp settings
+    webhook: WebhookConfig;          // Webhook processing settings
+    idempotency: IdempotencyConfig;  // Idempotency-Key settings
+    queue: QueueConfig;              // Job queue settings
+    flows: FlowConfig;               // Flow engine settings
+    commands: CommandConfig;         // Command router settings
+    receipts: ReceiptConfig;         // Read receipt and typing indicator settings
+    media: MediaConfig;              // Media storage settings
+    serviceWindow: ServiceWindowConfig; // Customer service window settings
+    outbound: OutboundConfig;        // Outbound throughput and retry settings
+    campaigns: CampaignConfig;       // Broadcast campaign settings
+    scheduler: SchedulerConfig;      // Scheduled message settings
 }
\ No newline at end of file
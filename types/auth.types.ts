@@ -0,0 +1,101 @@
+import { IUser } from "../models/admin.model";
+
+/**
+ * Auth Types - Admin authentication tokens and login context
+ * Admins sign in with email and password and receive a short-lived JWT
+ * signed with config.jwt.secret plus a refresh token for the device session;
+ * every protected route verifies the JWT against adminModel and the session.
+ * Admins with MFA enabled first receive a short-lived challenge token that
+ * is exchanged for an access token together with a TOTP or recovery code.
+ */
+
+// ==================================================
+// Tokens
+// ==================================================
+
+/**
+ * JWT payload of an admin access token
+ */
+export interface AdminJwtPayload {
+    purpose: "access";
+    adminId: string;                 // Admin document id
+    email: string;
+    displayName: string;
+    tokenVersion: number;            // Must match the admin's tokenVersion (bumped on password change)
+    sid: string;                     // Device session id; the token dies with the session
+    jti: string;                     // Token id
+    iat: number;                     // Token issued at timestamp
+    exp: number;                     // Token expiration timestamp
+}
+
+/**
+ * JWT payload of an MFA challenge token, issued after the password checked out
+ */
+export interface MfaChallengePayload {
+    purpose: "mfa";
+    adminId: string;
+    jti: string;
+    iat: number;
+    exp: number;
+}
+
+/**
+ * Access token issued on login
+ */
+export interface AuthToken {
+    token: string;
+    tokenType: "Bearer";
+    expiresAt: Date;
+}
+
+/**
+ * Access token plus the refresh token of its device session
+ * The refresh token is single use: each refresh returns a new one
+ */
+export interface SessionTokens extends AuthToken {
+    refreshToken: string;            // "<sessionId>.<secret>", stored hashed
+    refreshExpiresAt: Date;          // Refresh deadline; each refresh moves it
+    sessionId: string;
+}
+
+/**
+ * Challenge returned instead of an access token when MFA is enabled
+ */
+export interface MfaChallenge {
+    challengeToken: string;
+    expiresAt: Date;
+}
+
+/**
+ * Secret handed to the admin's authenticator app on MFA setup
+ */
+export interface MfaEnrollment {
+    secret: string;                  // Base32 secret for manual entry
+    otpauthUrl: string;              // otpauth:// URI, the QR code payload
+}
+
+// ==================================================
+// Login
+// ==================================================
+
+/**
+ * Client details recorded on login
+ */
+export interface LoginContext {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+/**
+ * Outcome of the password step: signed in, or a code is still needed
+ */
+export type LoginResult = SignedIn | { mfaRequired: true; challenge: MfaChallenge };
+
+/**
+ * Completed login
+ */
+export interface SignedIn {
+    mfaRequired: false;
+    admin: IUser;
+    token: SessionTokens;
+}
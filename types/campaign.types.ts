@@ -0,0 +1,71 @@
+import { TemplateVariables } from "./template.types";
+
+/**
+ * Campaign Types - Template broadcasts to a segment of opted-in contacts
+ * A campaign resolves its audience when it starts, then sends one template
+ * per recipient at the phone number's throughput. Recipient results follow
+ * the delivery statuses of the messages sent.
+ */
+
+// ==================================================
+// Definition
+// ==================================================
+
+/**
+ * Lifecycle of a campaign
+ * draft → scheduled → running → completed, with paused and cancelled on the side
+ */
+export type CampaignStatus = "draft" | "scheduled" | "running" | "paused" | "completed" | "cancelled";
+
+/**
+ * Contacts a campaign is sent to; only opted-in contacts are ever included
+ */
+export interface CampaignAudience {
+    tags?: string[];                 // Contacts must carry every tag
+    anyTags?: string[];              // Contacts must carry at least one tag
+    excludeTags?: string[];          // Contacts carrying any of these tags are left out
+    attributes?: Record<string, string | number | boolean>; // Exact attribute matches
+    language?: string;               // Contact language
+}
+
+/**
+ * Template sent by a campaign
+ * Variable values may use {{contact.name}}, {{contact.attributes.city}}, ...
+ */
+export interface CampaignTemplate {
+    name: string;
+    language: string;
+    variables: TemplateVariables;
+}
+
+// ==================================================
+// Recipients and Reports
+// ==================================================
+
+/**
+ * Result of one recipient
+ * pending → sending → sent → delivered → read, or failed; skipped when cancelled
+ */
+export type CampaignRecipientStatus = "pending" | "sending" | "sent" | "delivered" | "read" | "failed" | "skipped";
+
+/**
+ * Summary of a campaign's results
+ */
+export interface CampaignReport {
+    total: number;
+    pending: number;
+    sent: number;                    // Accepted by Meta (includes delivered and read)
+    delivered: number;               // Delivered (includes read)
+    read: number;
+    failed: number;
+    skipped: number;
+    replied: number;                 // Recipients who wrote back after the send
+    failures: Array<{ code: number | null; message: string; count: number }>;
+}
+
+/**
+ * Job payload of a campaign run
+ */
+export interface CampaignRunPayload {
+    campaignId: string;
+}
@@ -0,0 +1,77 @@
+import { OutboundResult } from "../services/outbound.service";
+import { OutboundContent } from "./whatsapp.client.types";
+import { ReceiptOptions } from "./receipt.types";
+import { InboundMessageEvent, TextMessage } from "./whatsapp.webhook.types";
+
+/**
+ * Command Types - Keyword and regex commands matched against inbound text
+ * Commands are registered in code or stored in Mongo. Both are matched in
+ * one list ordered by priority (lower first), then by match kind: exact
+ * keywords, then case-insensitive aliases, then regular expressions.
+ */
+
+// ==================================================
+// Matching
+// ==================================================
+
+/**
+ * How a command matched the text
+ */
+export type CommandMatchKind = "keyword" | "alias" | "regex" | "fallback";
+
+/**
+ * Where a command is defined
+ */
+export type CommandSource = "code" | "database";
+
+/**
+ * Context passed to command handlers
+ */
+export interface CommandContext {
+    event: InboundMessageEvent<TextMessage>;
+    waId: string;                    // Sender wa_id
+    text: string;                    // Trimmed message text
+    command: string;                 // Matched command name ("fallback" for the fallback handler)
+    matchedBy: CommandMatchKind;
+    captures: string[];              // Regex capture groups, in order
+    groups: Record<string, string>;  // Named regex capture groups
+    reply: (content: string | OutboundContent) => Promise<OutboundResult>;
+}
+
+/**
+ * Command handler
+ */
+export type CommandHandler = (context: CommandContext) => Promise<void> | void;
+
+/**
+ * Command registered in code
+ */
+export interface CommandDefinition {
+    name: string;
+    keywords?: string[];             // Exact, case-sensitive matches of the whole text
+    aliases?: string[];              // Case-insensitive matches of the whole text
+    pattern?: RegExp;                // Tested against the whole text
+    priority?: number;               // Lower runs first (default 100)
+    receipts?: ReceiptOptions;       // Read receipt and typing indicator overrides
+    handler: CommandHandler;
+}
+
+/**
+ * Action of a command stored in Mongo
+ */
+export type CommandAction =
+    | { type: "reply"; message: string | OutboundContent }   // Supports {{text}}, {{captures.0}}, {{groups.name}}
+    | { type: "flow"; flowKey: string }                       // Starts a conversation flow
+    | { type: "handler"; handler: string };                   // Runs a handler registered in code
+
+/**
+ * Result of matching text against the registered commands
+ */
+export interface CommandMatch {
+    command: string;
+    source: CommandSource;
+    matchedBy: Exclude<CommandMatchKind, "fallback">;
+    priority: number;
+    captures: string[];
+    groups: Record<string, string>;
+}
@@ -42,8 +42,13 @@ export enum ErrorCode {
     UNAUTHORIZED = 'UNAUTHORIZED',                       // Authentication required (401)
     FORBIDDEN = 'FORBIDDEN',                             // Access denied (403)
     NOT_FOUND = 'NOT_FOUND',                            // Resource not found (404)
+    CONFLICT = 'CONFLICT',                               // Resource already exists (409)
     VALIDATION_ERROR = 'VALIDATION_ERROR',               // Data validation failed (400)
     DATABASE_ERROR = 'DATABASE_ERROR',                   // Database operation failed (500)
     RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',         // Too many requests (429)
-    SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE'          // Service temporarily unavailable (503)
+    INVALID_SIGNATURE = 'INVALID_SIGNATURE',             // Webhook signature missing or invalid (401)
+    WHATSAPP_API_ERROR = 'WHATSAPP_API_ERROR',           // Unmapped WhatsApp Graph API failure (502)
+    SERVICE_WINDOW_CLOSED = 'SERVICE_WINDOW_CLOSED',     // Free-form message outside the 24-hour window (403)
+    SERVICE_UNAVAILABLE = 'SERVICE_UNAVAILABLE',         // Service temporarily unavailable (503)
+    DELIVERY_UNKNOWN = 'DELIVERY_UNKNOWN'                // Request sent but no answer; Meta may have accepted it (504)
 }
\ No newline at end of file
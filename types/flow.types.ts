@@ -0,0 +1,182 @@
+import { OutboundContent } from "./whatsapp.client.types";
+import { ReceiptOptions } from "./receipt.types";
+
+/**
+ * Flow Types - Declarative conversation flow definitions
+ * A flow is a graph of nodes keyed by id. Definitions are written in JSON or
+ * YAML, stored in the flows collection and executed per contact by the flow
+ * engine. Strings in messages, webhook requests and set values may contain
+ * `{{path}}` placeholders resolved against the flow scope.
+ */
+
+// ==================================================
+// Messages
+// ==================================================
+
+/**
+ * Message sent by a flow: plain text or a full outbound message without recipient
+ */
+export type FlowMessage = string | OutboundContent;
+
+// ==================================================
+// Conditions
+// ==================================================
+
+/**
+ * Condition evaluated by branch nodes
+ * `var` is a scope path such as `reply`, `vars.size` or `contact.attributes.city`;
+ * every operator present must hold. `all`/`any` combine nested conditions.
+ */
+export interface FlowCondition {
+    var?: string;
+    equals?: string | number | boolean;
+    notEquals?: string | number | boolean;
+    in?: Array<string | number>;
+    matches?: string;                // Case-insensitive regular expression
+    gt?: number;
+    gte?: number;
+    lt?: number;
+    lte?: number;
+    exists?: boolean;
+    all?: FlowCondition[];
+    any?: FlowCondition[];
+}
+
+// ==================================================
+// Nodes
+// ==================================================
+
+export type FlowNodeType = "send" | "ask" | "branch" | "set" | "webhook" | "goto" | "end";
+
+/**
+ * Sends a message and moves on
+ */
+export interface SendNode {
+    type: "send";
+    message: FlowMessage;
+    next?: string;                   // Ends the flow when missing
+}
+
+/**
+ * Reply validation rules of an ask node
+ */
+export interface AskValidation {
+    type: "text" | "number" | "email" | "phone" | "regex" | "choice";
+    pattern?: string;                // Required for regex
+    options?: string[];              // Required for choice; matched against reply text or button/list id
+    min?: number;                    // Minimum value (number) or length (text)
+    max?: number;                    // Maximum value (number) or length (text)
+}
+
+/**
+ * Sends a prompt and waits for the contact's reply
+ */
+export interface AskNode {
+    type: "ask";
+    prompt: FlowMessage;
+    variable: string;                // Session variable receiving the reply
+    validation?: AskValidation;
+    retryMessage?: FlowMessage;      // Sent when the reply is invalid
+    maxRetries?: number;             // Invalid replies allowed before onInvalid
+    onInvalid?: string;              // Node reached when retries run out; ends the flow when missing
+    next?: string;
+}
+
+/**
+ * Picks the next node from the first matching condition
+ */
+export interface BranchNode {
+    type: "branch";
+    branches: Array<{ when: FlowCondition; next: string }>;
+    default?: string;                // Ends the flow when missing and nothing matched
+}
+
+/**
+ * Sets session variables, or contact attributes for keys prefixed `contact.attributes.`
+ */
+export interface SetNode {
+    type: "set";
+    values: Record<string, unknown>;
+    next?: string;
+}
+
+/**
+ * Calls an HTTP endpoint and optionally stores the response body
+ */
+export interface WebhookNode {
+    type: "webhook";
+    url: string;                     // Fixed URL; placeholders are not allowed here
+    method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+    headers?: Record<string, string>; // Fixed headers; placeholders are not allowed here
+    query?: Record<string, unknown>; // Query parameters, interpolated and URL-encoded
+    body?: unknown;                  // Interpolated request body
+    timeoutMs?: number;
+    saveAs?: string;                 // Session variable receiving the response body
+    next?: string;
+    onError?: string;                // Node reached when the call fails; falls back to next
+}
+
+/**
+ * Jumps to another node or another flow
+ */
+export interface GotoNode {
+    type: "goto";
+    flow?: string;                   // Target flow key; defaults to the current flow
+    node?: string;                   // Target node; defaults to the target flow's start
+}
+
+/**
+ * Ends the flow, optionally with a closing message
+ */
+export interface EndNode {
+    type: "end";
+    message?: FlowMessage;
+}
+
+export type FlowNode = SendNode | AskNode | BranchNode | SetNode | WebhookNode | GotoNode | EndNode;
+
+// ==================================================
+// Definitions
+// ==================================================
+
+/**
+ * Complete flow definition as written in JSON or YAML
+ */
+export interface FlowDefinition {
+    key: string;                     // Unique flow key used by goto and the admin API
+    name: string;
+    description?: string;
+    triggers?: string[];             // Keywords that start the flow when no flow is active
+    isMenu?: boolean;                // Flow started by the "menu" keyword
+    isActive?: boolean;
+    timeoutMinutes?: number;         // Inactivity before the session expires
+    timeoutMessage?: FlowMessage;    // Sent when the session expires
+    receipts?: ReceiptOptions;       // Read receipt and typing indicator overrides
+    start: string;                   // Id of the first node
+    nodes: Record<string, FlowNode>;
+}
+
+/**
+ * Source format accepted by the flow parser
+ */
+export type FlowSourceFormat = "json" | "yaml";
+
+// ==================================================
+// Execution
+// ==================================================
+
+/**
+ * Values available to placeholders and branch conditions
+ */
+export interface FlowScope {
+    vars: Record<string, unknown>;
+    contact: {
+        waId: string;
+        name?: string;
+        profileName?: string;
+        language?: string;
+        tags: string[];
+        attributes: Record<string, unknown>;
+    };
+    reply?: string;                  // Latest reply text (or button/list id)
+}
@@ -0,0 +1,95 @@
+import { OutboundResult } from "../services/outbound.service";
+import { InteractiveHeader, InteractiveListRow, OutboundContent } from "./whatsapp.client.types";
+import { InboundMessageEvent, InteractiveMessage } from "./whatsapp.webhook.types";
+
+/**
+ * Interactive Types - Builder input for interactive messages and the typed
+ * replies handed back to the handler that sent them. A reply is matched to
+ * the interactive message it answers through its context wamid.
+ */
+
+// ==================================================
+// Builder Input
+// ==================================================
+
+/**
+ * Text parts shared by every interactive message
+ */
+interface InteractiveText {
+    body: string;
+    footer?: string;
+}
+
+/**
+ * Header accepted by button and CTA URL messages: plain text or a media header
+ */
+export type InteractiveHeaderInput = string | InteractiveHeader;
+
+export interface ReplyButtonInput {
+    id: string;                      // Returned as reply.id
+    title: string;
+}
+
+export interface ReplyButtonsInput extends InteractiveText {
+    header?: InteractiveHeaderInput;
+    buttons: ReplyButtonInput[];     // 1 to 3 buttons
+}
+
+export interface ListSectionInput {
+    title?: string;                  // Required when the list has more than one section
+    rows: InteractiveListRow[];
+}
+
+export interface ListInput extends InteractiveText {
+    header?: string;                 // Lists only take text headers
+    button: string;                  // Label of the button opening the list
+    sections: ListSectionInput[];
+}
+
+export interface CtaUrlInput extends InteractiveText {
+    header?: InteractiveHeaderInput;
+    displayText: string;             // Button label
+    url: string;
+}
+
+export interface LocationRequestInput {
+    body: string;
+}
+
+// ==================================================
+// Replies
+// ==================================================
+
+/**
+ * Reply to an interactive message, as handed to the handler that sent it
+ */
+export type InteractiveReply =
+    | {
+          type: "button_reply";
+          id: string;                // Button id we sent
+          title: string;
+      }
+    | {
+          type: "list_reply";
+          id: string;                // Row id we sent
+          title: string;
+          description?: string;
+          section?: string;          // Title of the row's section, when it had one
+      };
+
+/**
+ * Context passed to interactive reply handlers
+ */
+export interface InteractiveReplyContext {
+    event: InboundMessageEvent<InteractiveMessage>;
+    waId: string;                    // Sender wa_id
+    reply: InteractiveReply;
+    messageId: string;               // Internal ID of the interactive message answered
+    wamid: string;                   // wamid of the interactive message answered
+    respond: (content: string | OutboundContent) => Promise<OutboundResult>;
+}
+
+/**
+ * Interactive reply handler
+ */
+export type InteractiveReplyHandler = (context: InteractiveReplyContext) => Promise<void> | void;
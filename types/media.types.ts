@@ -0,0 +1,40 @@
+/**
+ * Media Types - Storage backends for downloaded media files
+ * A backend stores files under keys such as `media/2025/01/<wamid>.jpg`
+ * and tells where an admin can fetch them.
+ */
+
+// ==================================================
+// Storage
+// ==================================================
+
+/**
+ * File written by a storage backend
+ */
+export interface StoredFile {
+    storage: string;                 // Backend name
+    key: string;                     // Key within the backend
+    url: string;                     // Where admins fetch the file
+    size: number;                    // Bytes
+}
+
+/**
+ * Pluggable storage backend
+ */
+export interface MediaStorage {
+    name: string;
+    save: (key: string, data: Buffer, mimeType?: string) => Promise<StoredFile>;
+    read: (key: string) => Promise<Buffer>;
+    remove: (key: string) => Promise<void>;
+}
+
+// ==================================================
+// Downloads
+// ==================================================
+
+/**
+ * Job payload of a media download
+ */
+export interface MediaDownloadPayload {
+    wamid: string;                   // Inbound message carrying the media id
+}
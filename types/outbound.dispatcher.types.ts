@@ -0,0 +1,41 @@
+/**
+ * Outbound Dispatcher Types - Throughput control in front of the WhatsApp client
+ * This file defines the result of a dispatched send and the throttle
+ * metrics reported by the health check
+ */
+
+import { SendResult } from "./whatsapp.client.types";
+
+/**
+ * Result of a send that went through the dispatcher
+ */
+export interface DispatchedSend extends SendResult {
+    attempts: number;                // Graph API calls made, including rate limit retries
+}
+
+/**
+ * Token bucket state of one phone number
+ */
+export interface PhoneNumberThrottle {
+    phoneNumberId: string;
+    messagesPerSecond: number;       // Throughput tier applied
+    available: number;               // Tokens available now
+}
+
+/**
+ * Outbound dispatcher metrics reported by the health check
+ */
+export interface OutboundDispatcherMetrics {
+    queued: number;                  // Sends waiting for a token or a retry
+    inFlight: number;                // Graph API calls in progress
+    maxQueueDepth: number;           // Queued sends allowed before new ones are refused
+    sent: number;                    // Sends accepted by Meta since start
+    throttled: number;               // Sends that had to wait for a token since start
+    throttledMs: number;             // Total time sends waited for tokens since start
+    rateLimited: number;             // 130429/131056 responses from Meta since start
+    retried: number;                 // Retries of retryable failures since start
+    failed: number;                  // Sends that failed for good since start
+    rejected: number;                // Sends refused because the queue was full since start
+    recipients: number;              // Recipients with an active pair limit
+    phoneNumbers: PhoneNumberThrottle[];
+}
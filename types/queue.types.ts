@@ -0,0 +1,57 @@
+/**
+ * Queue Types - TypeScript interfaces for the Mongo-backed job queue
+ * This file defines job states, handler signatures and queue metrics
+ * used by the queue service and its workers
+ */
+
+import { IJob } from "../models/job.model";
+
+/**
+ * Job types processed by the worker subsystem
+ * Every enqueued job must use one of these types
+ */
+export const JOB_TYPES = {
+    WEBHOOK_INBOUND: "webhook.inbound",      // Raw WhatsApp webhook payload
+    MEDIA_DOWNLOAD: "media.download",        // Media of an inbound message to store
+    CAMPAIGN_RUN: "campaign.run",            // Next slice of a broadcast campaign
+} as const;
+
+export type JobType = typeof JOB_TYPES[keyof typeof JOB_TYPES];
+
+/**
+ * Lifecycle states of a job
+ * - pending: waiting for runAt
+ * - processing: locked by a worker
+ * - completed: handler succeeded
+ * - dead: failed permanently (dead-letter state)
+ */
+export type JobStatus = "pending" | "processing" | "completed" | "dead";
+
+/**
+ * Handler for one job type
+ * Throwing schedules a retry, or dead-letters the job once attempts run out
+ */
+export type JobHandler = (job: IJob) => Promise<void>;
+
+/**
+ * Options accepted when enqueuing a job
+ */
+export interface EnqueueOptions {
+    runAt?: Date;                    // Earliest time the job may run (default: now)
+    maxAttempts?: number;            // Attempts before dead-lettering (default: config)
+}
+
+/**
+ * Queue metrics reported by the health check
+ */
+export interface QueueMetrics {
+    workerId: string;                // Identifier of this worker process
+    running: boolean;                // Whether the worker loop is active
+    inFlight: number;                // Jobs currently executing in this process
+    concurrency: number;             // Maximum concurrent jobs in this process
+    counts: Record<JobStatus, number>; // Jobs per status in the collection
+    processed: number;               // Jobs completed since start
+    retried: number;                 // Failed attempts rescheduled since start
+    deadLettered: number;            // Jobs moved to the dead state since start
+    recovered: number;               // Stale locks released since start
+}
@@ -0,0 +1,74 @@
+/**
+ * RBAC Types - Roles and permissions of admin users
+ * Every admin has one role, which grants a fixed set of permissions, plus
+ * any extra permissions granted to them individually. Routes name the
+ * permission they need with requirePermission(...).
+ */
+
+// ==================================================
+// Roles and Permissions
+// ==================================================
+
+/**
+ * Admin roles, from most to least powerful
+ */
+export const ADMIN_ROLES = ["owner", "admin", "supervisor", "agent", "viewer"] as const;
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+/**
+ * Every permission a route can require
+ */
+export const PERMISSIONS = [
+    "messages:read",                 // Messages, conversations and scheduled messages
+    "messages:send",                 // Send, schedule, and start or cancel flows for a contact
+    "contacts:read",
+    "contacts:write",                // Edit contacts, tags and opt-in state
+    "contacts:export",
+    "flows:read",
+    "flows:manage",                  // Create, replace and delete flows
+    "commands:read",
+    "commands:manage",
+    "templates:read",
+    "templates:manage",              // Sync templates from the WhatsApp Business Account
+    "media:read",
+    "media:upload",
+    "campaigns:read",
+    "campaigns:manage",              // Create, start, pause and cancel campaigns
+    "settings:read",
+    "settings:write",
+    "admins:manage",                 // Invite, edit, block and delete admins
+    "roles:manage",                  // Assign roles and permissions to admins
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// ==================================================
+// Role Grants
+// ==================================================
+
+const READ_PERMISSIONS: Permission[] = [
+    "messages:read", "contacts:read", "flows:read", "commands:read", "templates:read", "media:read", "campaigns:read",
+];
+
+/**
+ * Permissions granted by each role
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+    owner: [...PERMISSIONS],
+    admin: PERMISSIONS.filter((permission) => permission !== "roles:manage" && permission !== "admins:manage"),
+    supervisor: [
+        ...READ_PERMISSIONS, "settings:read",
+        "messages:send", "contacts:write", "contacts:export", "media:upload", "campaigns:manage",
+    ],
+    agent: [...READ_PERMISSIONS, "messages:send", "contacts:write", "media:upload"],
+    viewer: [...READ_PERMISSIONS, "settings:read"],
+};
+
+/**
+ * Role and individual permissions of an admin, as assigned by an owner
+ */
+export interface RoleAssignment {
+    role?: AdminRole;
+    permissions?: Permission[];      // Granted on top of the role's permissions
+}
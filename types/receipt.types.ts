@@ -0,0 +1,14 @@
+/**
+ * Receipt Types - Read receipts and typing indicators sent for inbound messages
+ * Flows and handlers override the configured defaults with these options.
+ */
+
+/**
+ * Read receipt and typing indicator behaviour of a flow or handler
+ * Fields left out keep the value from config.receipts
+ */
+export interface ReceiptOptions {
+    markAsRead?: boolean;            // Mark the message as read when the handler takes it
+    typingIndicator?: boolean;       // Show the typing indicator when the handler runs long
+    typingThresholdMs?: number;      // Handler time before the typing indicator is shown
+}
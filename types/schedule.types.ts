@@ -0,0 +1,54 @@
+/**
+ * Schedule Types - Messages sent at a later time
+ * A schedule sends at a fixed instant, at a wall-clock time in the
+ * contact's timezone, or after a delay relative to the conversation's last
+ * inbound or outbound message.
+ */
+
+// ==================================================
+// Schedules
+// ==================================================
+
+/**
+ * Lifecycle of a scheduled message
+ * - pending: waiting for sendAt
+ * - sending: claimed by a scheduler
+ * - sent / failed: send attempted
+ * - cancelled: cancelled by an admin or a contact reply
+ * - missed: due while no scheduler ran, and too late to send
+ */
+export type ScheduledMessageStatus = "pending" | "sending" | "sent" | "failed" | "cancelled" | "missed";
+
+/**
+ * Conversation events a delay can be relative to
+ */
+export type ScheduleEvent = "last_inbound" | "last_outbound";
+
+/**
+ * Delay relative to a conversation event
+ */
+export interface ScheduleDelay {
+    event: ScheduleEvent;
+    delayMinutes: number;
+    anchorAt: Date;                  // Time of the event when the schedule was made
+}
+
+/**
+ * When a message should be sent; exactly one of sendAt, localTime or after
+ */
+export interface ScheduleTiming {
+    sendAt?: string;                 // ISO instant
+    localTime?: string;              // Wall-clock time YYYY-MM-DDTHH:mm in timezone
+    timezone?: string;               // IANA timezone (default: the contact's, then config)
+    after?: { event: ScheduleEvent; delayMinutes: number };
+}
+
+/**
+ * Resolved send time of a schedule
+ */
+export interface ResolvedTiming {
+    sendAt: Date;
+    localTime?: string;
+    timezone?: string;
+    delay?: ScheduleDelay;
+}
@@ -6,6 +6,8 @@
 
 import { Express } from 'express';
 import { Server } from 'socket.io';
+import { QueueMetrics } from './queue.types';
+import { OutboundDispatcherMetrics } from './outbound.dispatcher.types';
 
 /**
  * Server metrics interface
@@ -18,6 +20,36 @@ export interface ServerMetrics {
     cpuUsage: number[];              // CPU usage percentages for each core
 }
 
+/**
+ * Webhook signature metrics interface
+ * Counts webhook calls rejected by the X-Hub-Signature-256 check
+ */
+export interface SignatureMetrics {
+    rejected: number;                        // Total rejected calls since start
+    lastRejectedAt: string | null;           // ISO timestamp of the last rejection
+    reasons: Record<string, number>;         // Rejections grouped by reason
+}
+
+/**
+ * Webhook deduplication metrics interface
+ * Counts redelivered messages and statuses skipped since start
+ */
+export interface DedupMetrics {
+    checked: number;                         // Events checked against processed ids
+    duplicateMessages: number;               // Duplicate inbound messages skipped
+    duplicateStatuses: number;               // Duplicate status updates skipped
+    lastDuplicateAt: string | null;          // ISO timestamp of the last duplicate
+}
+
+/**
+ * Webhook metrics interface
+ * Groups webhook processing metrics reported by the health check
+ */
+export interface WebhookMetrics {
+    signatures: SignatureMetrics;            // Signature verification rejections
+    duplicates: DedupMetrics;                // Redelivered events skipped
+}
+
 /**
  * Health check response interface
  * Defines the structure for server health check responses
@@ -40,6 +72,9 @@ export interface HealthCheckResponse {
         version: string;             // Node.js version
         npm_package_version: string; // NPM package version
     }
+    webhook: WebhookMetrics;         // Webhook processing metrics
+    queue: QueueMetrics;             // Job queue metrics
+    outbound: OutboundDispatcherMetrics; // Outbound queue depth and throttling
 }
 
 /**
@@ -0,0 +1,102 @@
+import { OutboundLocation } from "./whatsapp.client.types";
+
+/**
+ * Template Types - Message template definitions as returned by the Graph API
+ * and the parameter slots derived from them. Slots are addressed by variable
+ * names such as `body.1`, `body.first_name`, `header.media` or `button.0`.
+ */
+
+// ==================================================
+// Graph API Definitions
+// ==================================================
+
+export type TemplateHeaderFormat = "TEXT" | "IMAGE" | "VIDEO" | "DOCUMENT" | "LOCATION";
+
+/**
+ * Button of a template BUTTONS component
+ */
+export interface GraphTemplateButton {
+    type: "QUICK_REPLY" | "URL" | "PHONE_NUMBER" | "COPY_CODE" | "FLOW" | "OTP" | string;
+    text: string;
+    url?: string;                    // May end with a {{1}} suffix placeholder
+    phone_number?: string;
+    example?: string[];
+}
+
+/**
+ * Component of a template definition
+ */
+export interface GraphTemplateComponent {
+    type: "HEADER" | "BODY" | "FOOTER" | "BUTTONS";
+    format?: TemplateHeaderFormat;   // HEADER only
+    text?: string;
+    buttons?: GraphTemplateButton[]; // BUTTONS only
+    example?: unknown;
+}
+
+/**
+ * Template definition from /{waba-id}/message_templates
+ */
+export interface GraphTemplate {
+    id: string;
+    name: string;
+    language: string;
+    status: string;                  // APPROVED, PENDING, REJECTED, PAUSED, DISABLED, ...
+    category: string;
+    parameter_format?: "NAMED" | "POSITIONAL";
+    components: GraphTemplateComponent[];
+    rejected_reason?: string;
+}
+
+/**
+ * Page of template definitions
+ */
+export interface GraphTemplateList {
+    data: GraphTemplate[];
+    paging?: {
+        cursors?: { before?: string; after?: string };
+        next?: string;               // Present while more pages exist
+    };
+}
+
+// ==================================================
+// Parameter Slots
+// ==================================================
+
+export type TemplateSlotKind = "text" | "image" | "video" | "document" | "location" | "coupon_code";
+
+/**
+ * One parameter a template expects when it is sent
+ */
+export interface TemplateParameterSlot {
+    variable: string;                // Name used in variable maps (e.g. body.1, header.media, button.0)
+    component: "header" | "body" | "button";
+    kind: TemplateSlotKind;
+    name?: string;                   // Placeholder name for named or positional text parameters
+    buttonIndex?: number;            // Button position for button parameters
+    buttonType?: "url" | "copy_code";
+}
+
+/**
+ * Value supplied for a media header: a public link or an uploaded media id
+ */
+export interface TemplateMediaValue {
+    link?: string;
+    id?: string;
+    filename?: string;
+}
+
+/**
+ * Values for the parameters of a template, keyed by slot variable
+ */
+export type TemplateVariables = Record<string, string | number | TemplateMediaValue | OutboundLocation>;
+
+/**
+ * Rendered preview of a template
+ */
+export interface TemplatePreview {
+    header?: string;
+    body: string;
+    footer?: string;
+    buttons: Array<{ type: string; text: string; url?: string; phoneNumber?: string }>;
+}
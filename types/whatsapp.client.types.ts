@@ -0,0 +1,313 @@
+/**
+ * WhatsApp Client Types - TypeScript interfaces for outbound Graph API messages
+ * This file defines the message payloads accepted by the Cloud API
+ * /{phone-number-id}/messages endpoint and the responses it returns
+ */
+
+import { SharedContact } from "./whatsapp.webhook.types";
+
+// ==================================================
+// Client Options
+// ==================================================
+
+/**
+ * Options used to construct a WhatsAppClient
+ * Every field defaults to the value in config.whatsapp
+ */
+export interface WhatsAppClientOptions {
+    baseUrl: string;                 // Graph API base URL (e.g. https://graph.facebook.com)
+    apiVersion: string;              // Graph API version (e.g. v21.0)
+    accessToken: string;             // System user access token
+    phoneNumberId: string;           // Sending business phone number ID
+    timeoutMs: number;               // Request timeout in milliseconds
+}
+
+// ==================================================
+// Message Building Blocks
+// ==================================================
+
+/**
+ * Outbound message types supported by the client
+ */
+export type OutboundMessageType =
+    | "text"
+    | "image"
+    | "audio"
+    | "video"
+    | "document"
+    | "sticker"
+    | "location"
+    | "contacts"
+    | "reaction"
+    | "template"
+    | "interactive";
+
+/**
+ * Media types that can be sent by id or link
+ */
+export type OutboundMediaType = "image" | "audio" | "video" | "document" | "sticker";
+
+/**
+ * Media reference, either an uploaded media id or a public link
+ */
+export type MediaReference =
+    | { id: string; link?: never }
+    | { link: string; id?: never };
+
+/**
+ * Media object with the optional fields each media type accepts
+ */
+export type OutboundMedia = MediaReference & {
+    caption?: string;                // Caption (image, video, document)
+    filename?: string;               // File name shown for documents
+};
+
+/**
+ * Location payload
+ */
+export interface OutboundLocation {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+}
+
+/**
+ * Currency template parameter
+ */
+export interface TemplateCurrency {
+    fallback_value: string;
+    code: string;                    // ISO 4217 currency code
+    amount_1000: number;             // Amount multiplied by 1000
+}
+
+/**
+ * Date/time template parameter
+ */
+export interface TemplateDateTime {
+    fallback_value: string;
+}
+
+/**
+ * Single template parameter
+ * `parameter_name` is set for templates that use named parameters
+ */
+export type TemplateParameter = { parameter_name?: string } & (
+    | { type: "text"; text: string }
+    | { type: "currency"; currency: TemplateCurrency }
+    | { type: "date_time"; date_time: TemplateDateTime }
+    | { type: "image"; image: MediaReference }
+    | { type: "video"; video: MediaReference }
+    | { type: "document"; document: MediaReference & { filename?: string } }
+    | { type: "location"; location: OutboundLocation }
+    | { type: "payload"; payload: string }
+    | { type: "coupon_code"; coupon_code: string }
+);
+
+/**
+ * Template component with its parameters
+ */
+export type TemplateComponentParameters =
+    | { type: "header"; parameters: TemplateParameter[] }
+    | { type: "body"; parameters: TemplateParameter[] }
+    | {
+          type: "button";
+          sub_type: "quick_reply" | "url" | "copy_code";
+          index: number | string;
+          parameters: TemplateParameter[];
+      };
+
+/**
+ * Template payload
+ */
+export interface OutboundTemplate {
+    name: string;                    // Approved template name
+    language: {
+        code: string;                // Template language (e.g. en_US)
+        policy?: "deterministic";
+    };
+    components?: TemplateComponentParameters[];
+}
+
+/**
+ * Header of an interactive message
+ */
+export type InteractiveHeader =
+    | { type: "text"; text: string }
+    | { type: "image"; image: MediaReference }
+    | { type: "video"; video: MediaReference }
+    | { type: "document"; document: MediaReference & { filename?: string } };
+
+/**
+ * Reply button of an interactive button message
+ */
+export interface InteractiveReplyButton {
+    type: "reply";
+    reply: {
+        id: string;                  // Returned in button_reply.id
+        title: string;               // Button label
+    };
+}
+
+/**
+ * Row of an interactive list message
+ */
+export interface InteractiveListRow {
+    id: string;                      // Returned in list_reply.id
+    title: string;
+    description?: string;
+}
+
+/**
+ * Section of an interactive list message
+ */
+export interface InteractiveListSection {
+    title?: string;
+    rows: InteractiveListRow[];
+}
+
+/**
+ * Interactive payload
+ */
+export type OutboundInteractive =
+    | {
+          type: "button";
+          header?: InteractiveHeader;
+          body: { text: string };
+          footer?: { text: string };
+          action: { buttons: InteractiveReplyButton[] };
+      }
+    | {
+          type: "list";
+          header?: { type: "text"; text: string };
+          body: { text: string };
+          footer?: { text: string };
+          action: { button: string; sections: InteractiveListSection[] };
+      }
+    | {
+          type: "cta_url";
+          header?: InteractiveHeader;
+          body: { text: string };
+          footer?: { text: string };
+          action: {
+              name: "cta_url";
+              parameters: { display_text: string; url: string };
+          };
+      }
+    | {
+          type: "location_request_message";
+          body: { text: string };
+          action: { name: "send_location" };
+      };
+
+// ==================================================
+// Outbound Message Payload
+// ==================================================
+
+/**
+ * Fields shared by every outbound message
+ */
+export interface OutboundMessageBase {
+    to: string;                      // Recipient phone number or wa_id
+    recipient_type?: "individual";
+    context?: {
+        message_id: string;          // wamid of the message being replied to
+    };
+}
+
+/**
+ * Outbound message payload, keyed by type
+ * `messaging_product` is added by the client
+ */
+export type OutboundMessage = OutboundMessageBase & (
+    | { type: "text"; text: { body: string; preview_url?: boolean } }
+    | { type: "image"; image: OutboundMedia }
+    | { type: "audio"; audio: MediaReference }
+    | { type: "video"; video: OutboundMedia }
+    | { type: "document"; document: OutboundMedia }
+    | { type: "sticker"; sticker: MediaReference }
+    | { type: "location"; location: OutboundLocation }
+    | { type: "contacts"; contacts: SharedContact[] }
+    | { type: "reaction"; reaction: { message_id: string; emoji: string } }
+    | { type: "template"; template: OutboundTemplate }
+    | { type: "interactive"; interactive: OutboundInteractive }
+);
+
+/**
+ * Outbound message without its recipient, for code that replies to a known contact
+ */
+export type OutboundContent = OutboundMessage extends infer M
+    ? M extends OutboundMessage ? Omit<M, "to"> : never
+    : never;
+
+/**
+ * Per-message options accepted by the typed send helpers
+ */
+export interface SendOptions {
+    replyTo?: string;                // wamid to quote in the reply
+}
+
+// ==================================================
+// Responses
+// ==================================================
+
+/**
+ * Raw response of the /messages endpoint
+ */
+export interface SendMessageResponse {
+    messaging_product: "whatsapp";
+    contacts: Array<{ input: string; wa_id: string }>;
+    messages: Array<{ id: string; message_status?: string }>;
+}
+
+/**
+ * Normalised result of a successful send
+ */
+export interface SendResult {
+    wamid: string;                   // ID of the accepted message
+    waId: string | null;             // Recipient wa_id resolved by Meta
+    response: SendMessageResponse;   // Raw response
+}
+
+/**
+ * Media metadata returned by /{media-id}
+ * The URL is short-lived (about 5 minutes) and needs the access token
+ */
+export interface GraphMediaInfo {
+    messaging_product: "whatsapp";
+    id: string;
+    url: string;
+    mime_type: string;
+    sha256: string;                  // Hex SHA-256 of the file
+    file_size: number;               // Bytes
+}
+
+/**
+ * Error body returned by the Graph API
+ */
+export interface GraphApiErrorBody {
+    error: {
+        message: string;
+        type?: string;
+        code: number;
+        error_subcode?: number;
+        error_data?: {
+            messaging_product?: string;
+            details?: string;
+        };
+        fbtrace_id?: string;
+    };
+}
+
+/**
+ * Details attached to CustomError for Graph API failures
+ */
+export interface GraphErrorDetails {
+    graphCode: number | null;        // Graph API error code
+    graphSubcode: number | null;     // Graph API error subcode
+    graphMessage: string;            // Graph API error message
+    fbtraceId: string | null;        // Trace ID for Meta support
+    retryable: boolean;              // Whether retrying later may succeed without sending twice
+    deliveryUnknown?: boolean;       // The request left but no answer came back; Meta may have accepted it
+    attempts?: number;               // Send attempts made by the outbound dispatcher
+}
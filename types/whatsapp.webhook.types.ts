@@ -0,0 +1,480 @@
+/**
+ * WhatsApp Webhook Types - TypeScript interfaces for the Cloud API webhook envelope
+ * This file models the payload Meta posts to our webhook
+ * (entry → changes → value → messages/statuses/contacts/errors)
+ * and the normalised events handed to the inbound dispatcher
+ */
+
+// ==================================================
+// Envelope
+// ==================================================
+
+/**
+ * Root webhook payload posted by Meta
+ * `object` is always "whatsapp_business_account" for Cloud API webhooks
+ */
+export interface WebhookPayload {
+    object: string;                  // Webhook object type
+    entry: WebhookEntry[];           // One entry per WhatsApp Business Account
+}
+
+/**
+ * Single webhook entry for a WhatsApp Business Account
+ */
+export interface WebhookEntry {
+    id: string;                      // WhatsApp Business Account ID
+    time?: number;                   // Unix time, sent with template status updates
+    changes: WebhookChange[];        // Changes included in this notification
+}
+
+/**
+ * Single change inside an entry
+ * `field` tells which subscription produced the change (e.g. "messages")
+ */
+export interface WebhookChange {
+    field: string;                   // Subscribed webhook field
+    value: WebhookValue;             // Change payload
+}
+
+/**
+ * Metadata about the business phone number that received the change
+ */
+export interface WebhookMetadata {
+    display_phone_number: string;    // Human readable business phone number
+    phone_number_id: string;         // Business phone number ID
+}
+
+/**
+ * Value object of a "messages" change
+ */
+export interface WebhookValue {
+    messaging_product: "whatsapp";   // Always "whatsapp"
+    metadata: WebhookMetadata;       // Receiving phone number metadata
+    contacts?: WebhookContact[];     // Sender profiles for inbound messages
+    messages?: WebhookMessage[];     // Inbound messages
+    statuses?: WebhookStatus[];      // Outbound message status updates
+    errors?: WebhookError[];         // Errors not tied to a single message
+}
+
+/**
+ * Contact (sender profile) block
+ */
+export interface WebhookContact {
+    wa_id: string;                   // WhatsApp ID of the customer
+    profile?: {
+        name?: string;               // Customer profile name
+    };
+}
+
+/**
+ * Error object used by messages, statuses and the value itself
+ */
+export interface WebhookError {
+    code: number;                    // Graph API error code
+    title: string;                   // Short error title
+    message?: string;                // Error message
+    error_data?: {
+        details?: string;            // Detailed error description
+    };
+    href?: string;                   // Link to error documentation
+}
+
+// ==================================================
+// Inbound Messages
+// ==================================================
+
+/**
+ * Every message type the dispatcher can route
+ * "unsupported" covers types Meta sends but we do not model
+ */
+export type WebhookMessageType =
+    | "text"
+    | "image"
+    | "audio"
+    | "video"
+    | "document"
+    | "sticker"
+    | "location"
+    | "contacts"
+    | "interactive"
+    | "reaction"
+    | "button"
+    | "order"
+    | "system"
+    | "unsupported";
+
+/**
+ * Reply context attached when the customer replies to, or forwards, a message
+ */
+export interface WebhookMessageContext {
+    from?: string;                   // Sender of the quoted message
+    id?: string;                     // wamid of the quoted message
+    forwarded?: boolean;             // Message was forwarded
+    frequently_forwarded?: boolean;  // Message was forwarded many times
+    referred_product?: {
+        catalog_id: string;          // Catalog the product belongs to
+        product_retailer_id: string; // Product SKU
+    };
+}
+
+/**
+ * Fields shared by every inbound message
+ */
+export interface WebhookMessageBase {
+    from: string;                    // Customer wa_id
+    id: string;                      // Message wamid
+    timestamp: string;               // Unix timestamp (seconds) as string
+    type: WebhookMessageType;        // Message type discriminator
+    context?: WebhookMessageContext; // Reply / forward context
+    errors?: WebhookError[];         // Present for unsupported messages
+}
+
+/**
+ * Media object shared by image, audio, video, document and sticker messages
+ */
+export interface WebhookMedia {
+    id: string;                      // Media ID to resolve through the Graph API
+    mime_type: string;               // MIME type of the media
+    sha256?: string;                 // Checksum of the media file
+    caption?: string;                // Caption (image, video, document)
+}
+
+export interface TextMessage extends WebhookMessageBase {
+    type: "text";
+    text: {
+        body: string;                // Message text
+    };
+}
+
+export interface ImageMessage extends WebhookMessageBase {
+    type: "image";
+    image: WebhookMedia;
+}
+
+export interface AudioMessage extends WebhookMessageBase {
+    type: "audio";
+    audio: WebhookMedia & {
+        voice?: boolean;             // True for voice notes
+    };
+}
+
+export interface VideoMessage extends WebhookMessageBase {
+    type: "video";
+    video: WebhookMedia;
+}
+
+export interface DocumentMessage extends WebhookMessageBase {
+    type: "document";
+    document: WebhookMedia & {
+        filename?: string;           // Original file name
+    };
+}
+
+export interface StickerMessage extends WebhookMessageBase {
+    type: "sticker";
+    sticker: WebhookMedia & {
+        animated?: boolean;          // True for animated stickers
+    };
+}
+
+export interface LocationMessage extends WebhookMessageBase {
+    type: "location";
+    location: {
+        latitude: number;            // Latitude in degrees
+        longitude: number;           // Longitude in degrees
+        name?: string;               // Place name
+        address?: string;            // Place address
+        url?: string;                // Place URL
+    };
+}
+
+/**
+ * Shared contact card, as found in "contacts" messages
+ */
+export interface SharedContact {
+    name: {
+        formatted_name: string;      // Full name as displayed
+        first_name?: string;
+        last_name?: string;
+        middle_name?: string;
+        prefix?: string;
+        suffix?: string;
+    };
+    phones?: Array<{ phone?: string; wa_id?: string; type?: string }>;
+    emails?: Array<{ email?: string; type?: string }>;
+    addresses?: Array<{
+        street?: string;
+        city?: string;
+        state?: string;
+        zip?: string;
+        country?: string;
+        country_code?: string;
+        type?: string;
+    }>;
+    org?: { company?: string; department?: string; title?: string };
+    urls?: Array<{ url?: string; type?: string }>;
+    birthday?: string;
+}
+
+export interface ContactsMessage extends WebhookMessageBase {
+    type: "contacts";
+    contacts: SharedContact[];
+}
+
+/**
+ * Reply to an interactive reply-button message
+ */
+export interface ButtonReply {
+    id: string;                      // Button ID we sent
+    title: string;                   // Button title we sent
+}
+
+/**
+ * Reply to an interactive list message
+ */
+export interface ListReply {
+    id: string;                      // Row ID we sent
+    title: string;                   // Row title we sent
+    description?: string;            // Row description we sent
+}
+
+export interface InteractiveMessage extends WebhookMessageBase {
+    type: "interactive";
+    interactive:
+        | { type: "button_reply"; button_reply: ButtonReply }
+        | { type: "list_reply"; list_reply: ListReply };
+}
+
+export interface ReactionMessage extends WebhookMessageBase {
+    type: "reaction";
+    reaction: {
+        message_id: string;          // wamid of the message reacted to
+        emoji?: string;              // Emoji, absent when the reaction is removed
+    };
+}
+
+/**
+ * Quick reply button press on a template message
+ */
+export interface ButtonMessage extends WebhookMessageBase {
+    type: "button";
+    button: {
+        payload: string;             // Developer defined payload
+        text: string;                // Button label
+    };
+}
+
+export interface OrderMessage extends WebhookMessageBase {
+    type: "order";
+    order: {
+        catalog_id: string;          // Catalog ID
+        text?: string;               // Text sent with the order
+        product_items: Array<{
+            product_retailer_id: string;
+            quantity: number;
+            item_price: number;
+            currency: string;
+        }>;
+    };
+}
+
+export interface SystemMessage extends WebhookMessageBase {
+    type: "system";
+    system: {
+        body: string;                // System message text
+        type?: string;               // e.g. "customer_changed_number"
+        wa_id?: string;              // New wa_id when the number changed
+    };
+}
+
+export interface UnsupportedMessage extends WebhookMessageBase {
+    type: "unsupported";
+}
+
+/**
+ * Discriminated union of every inbound message we model
+ */
+export type WebhookMessage =
+    | TextMessage
+    | ImageMessage
+    | AudioMessage
+    | VideoMessage
+    | DocumentMessage
+    | StickerMessage
+    | LocationMessage
+    | ContactsMessage
+    | InteractiveMessage
+    | ReactionMessage
+    | ButtonMessage
+    | OrderMessage
+    | SystemMessage
+    | UnsupportedMessage;
+
+/**
+ * Narrows the message union by its `type` discriminator
+ */
+export type WebhookMessageOf<T extends WebhookMessageType> = Extract<WebhookMessage, { type: T }>;
+
+// ==================================================
+// Statuses
+// ==================================================
+
+/**
+ * Delivery status values reported for outbound messages
+ */
+export type WebhookStatusValue = "sent" | "delivered" | "read" | "failed";
+
+/**
+ * Status update for a message we sent
+ */
+export interface WebhookStatus {
+    id: string;                      // wamid of the outbound message
+    status: WebhookStatusValue;      // New status
+    timestamp: string;               // Unix timestamp (seconds) as string
+    recipient_id: string;            // Customer wa_id
+    conversation?: {
+        id: string;                  // Conversation ID
+        expiration_timestamp?: string;
+        origin?: {
+            type: string;            // Conversation category
+        };
+    };
+    pricing?: {
+        billable?: boolean;          // Whether the message is billable
+        pricing_model: string;       // e.g. "CBP" or "PMP"
+        category: string;            // Pricing category
+    };
+    errors?: WebhookError[];         // Present for failed messages
+}
+
+// ==================================================
+// Normalised Events
+// ==================================================
+
+/**
+ * Fields shared by every normalised event
+ */
+export interface WebhookEventBase {
+    businessAccountId: string;       // WABA ID from the entry
+    phoneNumberId: string;           // Receiving phone number ID
+    displayPhoneNumber: string;      // Receiving phone number
+}
+
+/**
+ * Normalised inbound message event
+ */
+export interface InboundMessageEvent<T extends WebhookMessage = WebhookMessage> extends WebhookEventBase {
+    kind: "message";
+    message: T;                      // Validated message
+    contact?: WebhookContact;        // Matching sender profile, if present
+    timestamp: Date;                 // Message timestamp
+}
+
+/**
+ * Normalised status event
+ */
+export interface StatusEvent extends WebhookEventBase {
+    kind: "status";
+    status: WebhookStatus;           // Validated status
+    timestamp: Date;                 // Status timestamp
+}
+
+/**
+ * Normalised value-level error event
+ */
+export interface ErrorEvent extends WebhookEventBase {
+    kind: "error";
+    error: WebhookError;             // Error reported by Meta
+}
+
+/**
+ * Normalised message template status update (field "message_template_status_update")
+ * Template updates carry no phone number metadata, so the base phone fields are empty
+ */
+export interface TemplateStatusEvent extends WebhookEventBase {
+    kind: "template_status";
+    templateId: string;              // message_template_id
+    name: string;                    // message_template_name
+    language: string;                // message_template_language
+    event: string;                   // New status (APPROVED, REJECTED, PAUSED, DISABLED, ...)
+    reason?: string | null;          // Rejection or pause reason
+    timestamp: Date;                 // Entry time
+}
+
+/**
+ * Any event produced by the webhook parser
+ */
+export type WebhookEvent = InboundMessageEvent | StatusEvent | ErrorEvent | TemplateStatusEvent;
+
+/**
+ * Problem found while parsing a payload
+ * Issues are logged; they never stop the rest of the payload from being processed
+ */
+export interface WebhookParseIssue {
+    path: string;                    // Location of the problem in the payload
+    reason: string;                  // Why the item was skipped
+}
+
+/**
+ * Result of parsing a webhook payload
+ */
+export interface ParsedWebhook {
+    events: WebhookEvent[];          // Valid, normalised events
+    issues: WebhookParseIssue[];     // Items that were skipped
+}
+
+// ==================================================
+// Dispatcher
+// ==================================================
+
+/**
+ * Handler for one inbound message type
+ */
+export type MessageHandler<T extends WebhookMessageType = WebhookMessageType> =
+    (event: InboundMessageEvent<WebhookMessageOf<T>>) => Promise<void> | void;
+
+/**
+ * Inbound stage that runs before the type handlers (flows, commands, ...)
+ * Returns true when it consumed the message, which stops the pipeline
+ */
+export type MessageInterceptor = (event: InboundMessageEvent) => Promise<boolean> | boolean;
+
+/**
+ * Pipeline positions of the built-in interceptors (lower runs first)
+ */
+export const INTERCEPTOR_PRIORITY = {
+    INTERACTIVE: 100,                // Button and list replies to messages sent for a reply handler
+    FLOWS: 200,                      // Escape keywords, active flow sessions and flow triggers
+    COMMANDS: 300,                   // Keyword, alias and regex commands
+    FALLBACK: 1000,                  // "Didn't understand" reply to unhandled text
+} as const;
+
+/**
+ * Handler for status events
+ */
+export type StatusHandler = (event: StatusEvent) => Promise<void> | void;
+
+/**
+ * Handler for value-level error events
+ */
+export type ErrorHandler = (event: ErrorEvent) => Promise<void> | void;
+
+/**
+ * Handler for message template status updates
+ */
+export type TemplateStatusHandler = (event: TemplateStatusEvent) => Promise<void> | void;
+
+/**
+ * Outcome of dispatching a single event
+ */
+export type DispatchOutcome = "dispatched" | "unhandled" | "failed" | "duplicate";
+
+/**
+ * Summary of a dispatch run
+ */
+export interface DispatchSummary {
+    dispatched: number;              // Events delivered to a handler
+    unhandled: number;               // Events with no registered handler
+    failed: number;                  // Events whose handler threw
+    duplicates: number;              // Redelivered events that were skipped
+}
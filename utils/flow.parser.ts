@@ -0,0 +1,314 @@
+import YAML from "yaml";
+import { FlowCondition, FlowDefinition, FlowNodeType, FlowSourceFormat } from "../types/flow.types";
+import { hasPlaceholders } from "./interpolate";
+
+/**
+ * Flow Parser - Turns JSON/YAML flow sources into validated flow definitions
+ * Every problem found is reported with its path so a definition can be
+ * fixed in one pass; the parser never throws.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Result of parsing a flow source
+ */
+export interface ParsedFlow {
+    definition: FlowDefinition | null;   // Definition, or null when any issue was found
+    issues: string[];                    // Problems found, prefixed with their path
+}
+
+// ==================================================
+// Constants
+// ==================================================
+
+const NODE_TYPES: FlowNodeType[] = ["send", "ask", "branch", "set", "webhook", "goto", "end"];
+const VALIDATION_TYPES = ["text", "number", "email", "phone", "regex", "choice"];
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Flow keys, node ids and variable names; no dots or `$` so they are safe as Mongo keys
+ */
+const IDENTIFIER = /^[A-Za-z0-9_-]+$/;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a flow message: a non-empty string or an object with a type
+ */
+const checkMessage = (value: unknown, path: string, issues: string[]): void => {
+    if (typeof value === "string" && value.trim()) return;
+    if (isObject(value) && typeof value.type === "string") return;
+    issues.push(`${path}: must be text or a message object with a type`);
+};
+
+/**
+ * Checks read receipt and typing indicator overrides
+ * Shared with stored commands, which accept the same overrides
+ */
+export const checkReceipts = (value: unknown, path: string, issues: string[]): void => {
+    if (!isObject(value)) {
+        issues.push(`${path}: must be an object`);
+        return;
+    }
+    for (const key of ["markAsRead", "typingIndicator"]) {
+        if (value[key] !== undefined && typeof value[key] !== "boolean") issues.push(`${path}.${key}: must be a boolean`);
+    }
+    if (value.typingThresholdMs !== undefined && !(typeof value.typingThresholdMs === "number" && value.typingThresholdMs >= 0)) {
+        issues.push(`${path}.typingThresholdMs: must be a non-negative number`);
+    }
+};
+
+/**
+ * Checks that a node reference points to an existing node
+ */
+const checkReference = (
+    value: unknown,
+    path: string,
+    nodeIds: Set<string>,
+    issues: string[],
+    required: boolean = false,
+): void => {
+    if (value === undefined && !required) return;
+    if (typeof value !== "string" || !nodeIds.has(value)) {
+        issues.push(`${path}: unknown node "${String(value)}"`);
+    }
+};
+
+/**
+ * Checks a branch condition and its nested conditions
+ */
+const checkCondition = (condition: unknown, path: string, issues: string[]): void => {
+    if (!isObject(condition)) {
+        issues.push(`${path}: must be an object`);
+        return;
+    }
+    const { var: variable, all, any, matches } = condition as FlowCondition;
+
+    if (all !== undefined || any !== undefined) {
+        for (const [name, list] of [["all", all], ["any", any]] as const) {
+            if (list === undefined) continue;
+            if (!Array.isArray(list) || list.length === 0) {
+                issues.push(`${path}.${name}: must be a non-empty array`);
+                continue;
+            }
+            list.forEach((nested, index) => checkCondition(nested, `${path}.${name}[${index}]`, issues));
+        }
+        return;
+    }
+
+    if (typeof variable !== "string" || !variable) {
+        issues.push(`${path}.var: required`);
+    }
+    if (matches !== undefined) {
+        try {
+            new RegExp(matches);
+        } catch {
+            issues.push(`${path}.matches: invalid regular expression`);
+        }
+    }
+};
+
+/**
+ * Checks one node and its references
+ */
+const checkNode = (node: unknown, path: string, nodeIds: Set<string>, issues: string[]): void => {
+    if (!isObject(node)) {
+        issues.push(`${path}: must be an object`);
+        return;
+    }
+    if (!NODE_TYPES.includes(node.type)) {
+        issues.push(`${path}.type: must be one of ${NODE_TYPES.join(", ")}`);
+        return;
+    }
+
+    switch (node.type as FlowNodeType) {
+        case "send":
+            checkMessage(node.message, `${path}.message`, issues);
+            checkReference(node.next, `${path}.next`, nodeIds, issues);
+            break;
+
+        case "ask":
+            checkMessage(node.prompt, `${path}.prompt`, issues);
+            if (typeof node.variable !== "string" || !IDENTIFIER.test(node.variable)) {
+                issues.push(`${path}.variable: must be a name made of letters, digits, _ or -`);
+            }
+            if (node.validation !== undefined) {
+                const validation = node.validation;
+                if (!isObject(validation) || !VALIDATION_TYPES.includes(validation.type)) {
+                    issues.push(`${path}.validation.type: must be one of ${VALIDATION_TYPES.join(", ")}`);
+                } else if (validation.type === "regex") {
+                    if (typeof validation.pattern !== "string") {
+                        issues.push(`${path}.validation.pattern: required`);
+                    } else {
+                        try {
+                            new RegExp(validation.pattern);
+                        } catch {
+                            issues.push(`${path}.validation.pattern: invalid regular expression`);
+                        }
+                    }
+                } else if (validation.type === "choice") {
+                    if (!Array.isArray(validation.options) || validation.options.length === 0) {
+                        issues.push(`${path}.validation.options: must be a non-empty array`);
+                    }
+                }
+            }
+            if (node.retryMessage !== undefined) checkMessage(node.retryMessage, `${path}.retryMessage`, issues);
+            if (node.maxRetries !== undefined && !(Number.isInteger(node.maxRetries) && node.maxRetries >= 0)) {
+                issues.push(`${path}.maxRetries: must be a non-negative integer`);
+            }
+            checkReference(node.onInvalid, `${path}.onInvalid`, nodeIds, issues);
+            checkReference(node.next, `${path}.next`, nodeIds, issues);
+            break;
+
+        case "branch":
+            if (!Array.isArray(node.branches) || node.branches.length === 0) {
+                issues.push(`${path}.branches: must be a non-empty array`);
+            } else {
+                node.branches.forEach((branch: any, index: number) => {
+                    checkCondition(branch?.when, `${path}.branches[${index}].when`, issues);
+                    checkReference(branch?.next, `${path}.branches[${index}].next`, nodeIds, issues, true);
+                });
+            }
+            checkReference(node.default, `${path}.default`, nodeIds, issues);
+            break;
+
+        case "set":
+            if (!isObject(node.values) || Object.keys(node.values).length === 0) {
+                issues.push(`${path}.values: must be a non-empty object`);
+            } else {
+                for (const key of Object.keys(node.values)) {
+                    const name = key.startsWith("contact.attributes.") ? key.slice("contact.attributes.".length) : key;
+                    if (!IDENTIFIER.test(name)) issues.push(`${path}.values: invalid name "${key}"`);
+                }
+            }
+            checkReference(node.next, `${path}.next`, nodeIds, issues);
+            break;
+
+        case "webhook":
+            if (typeof node.url !== "string" || !/^https?:\/\//.test(node.url)) {
+                issues.push(`${path}.url: must be an http(s) URL`);
+            } else if (hasPlaceholders(node.url)) {
+                issues.push(`${path}.url: must not contain placeholders; pass values in query or body`);
+            }
+            if (node.method !== undefined && !HTTP_METHODS.includes(node.method)) {
+                issues.push(`${path}.method: must be one of ${HTTP_METHODS.join(", ")}`);
+            }
+            if (node.headers !== undefined && !isObject(node.headers)) {
+                issues.push(`${path}.headers: must be an object`);
+            } else if (node.headers !== undefined) {
+                for (const [name, value] of Object.entries(node.headers)) {
+                    if (typeof value !== "string") issues.push(`${path}.headers.${name}: must be a string`);
+                    else if (hasPlaceholders(value)) issues.push(`${path}.headers.${name}: must not contain placeholders`);
+                }
+            }
+            if (node.query !== undefined && !isObject(node.query)) {
+                issues.push(`${path}.query: must be an object`);
+            }
+            if (node.saveAs !== undefined && (typeof node.saveAs !== "string" || !IDENTIFIER.test(node.saveAs))) {
+                issues.push(`${path}.saveAs: must be a name made of letters, digits, _ or -`);
+            }
+            checkReference(node.onError, `${path}.onError`, nodeIds, issues);
+            checkReference(node.next, `${path}.next`, nodeIds, issues);
+            break;
+
+        case "goto":
+            if (node.flow === undefined && node.node === undefined) {
+                issues.push(`${path}: needs a flow, a node or both`);
+            }
+            if (node.flow !== undefined && (typeof node.flow !== "string" || !IDENTIFIER.test(node.flow))) {
+                issues.push(`${path}.flow: must be a flow key`);
+            }
+            // Nodes of other flows are checked when the jump happens
+            if (node.flow === undefined) checkReference(node.node, `${path}.node`, nodeIds, issues);
+            break;
+
+        case "end":
+            if (node.message !== undefined) checkMessage(node.message, `${path}.message`, issues);
+            break;
+    }
+};
+
+// ==================================================
+// Parser
+// ==================================================
+
+/**
+ * Validates a flow definition object
+ * @param input - Definition object (e.g. a parsed JSON request body)
+ * @returns Validated definition and issues
+ */
+export function validateFlowDefinition(input: unknown): ParsedFlow {
+    const issues: string[] = [];
+
+    if (!isObject(input)) {
+        return { definition: null, issues: ["flow: must be an object"] };
+    }
+
+    // ===== FLOW FIELDS =====
+    if (typeof input.key !== "string" || !IDENTIFIER.test(input.key)) {
+        issues.push("key: must be made of letters, digits, _ or -");
+    }
+    if (typeof input.name !== "string" || !input.name.trim()) {
+        issues.push("name: required");
+    }
+    if (input.triggers !== undefined) {
+        if (!Array.isArray(input.triggers) || !input.triggers.every((trigger: unknown) => typeof trigger === "string" && trigger.trim())) {
+            issues.push("triggers: must be an array of keywords");
+        }
+    }
+    if (input.timeoutMinutes !== undefined && !(typeof input.timeoutMinutes === "number" && input.timeoutMinutes > 0)) {
+        issues.push("timeoutMinutes: must be a positive number");
+    }
+    if (input.timeoutMessage !== undefined) checkMessage(input.timeoutMessage, "timeoutMessage", issues);
+    if (input.receipts !== undefined) checkReceipts(input.receipts, "receipts", issues);
+
+    // ===== NODES =====
+    if (!isObject(input.nodes) || Object.keys(input.nodes).length === 0) {
+        issues.push("nodes: must be a non-empty object keyed by node id");
+        return { definition: null, issues };
+    }
+
+    const nodeIds = new Set(Object.keys(input.nodes));
+    for (const id of nodeIds) {
+        if (!IDENTIFIER.test(id)) issues.push(`nodes.${id}: node ids must be made of letters, digits, _ or -`);
+    }
+    checkReference(input.start, "start", nodeIds, issues, true);
+
+    for (const [id, node] of Object.entries(input.nodes)) {
+        checkNode(node, `nodes.${id}`, nodeIds, issues);
+    }
+
+    if (issues.length > 0) return { definition: null, issues };
+
+    return {
+        definition: {
+            ...(input as FlowDefinition),
+            triggers: (input.triggers ?? []).map((trigger: string) => trigger.trim().toLowerCase()),
+        },
+        issues,
+    };
+}
+
+/**
+ * Parses and validates a JSON or YAML flow source
+ * @param source - Flow source text
+ * @param format - Source format
+ * @returns Validated definition and issues
+ */
+export function parseFlowSource(source: string, format: FlowSourceFormat): ParsedFlow {
+    let input: unknown;
+    try {
+        input = format === "yaml" ? YAML.parse(source) : JSON.parse(source);
+    } catch (error) {
+        return { definition: null, issues: [`source: invalid ${format} (${(error as Error).message})`] };
+    }
+    return validateFlowDefinition(input);
+}
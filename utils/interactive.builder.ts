@@ -0,0 +1,304 @@
+import { CustomError, ErrorCode } from "../types/error.types";
+import {
+    CtaUrlInput,
+    InteractiveHeaderInput,
+    ListInput,
+    LocationRequestInput,
+    ReplyButtonsInput,
+} from "../types/interactive.types";
+import { InteractiveHeader, OutboundInteractive } from "../types/whatsapp.client.types";
+
+/**
+ * Interactive Builder - Typed constructors for interactive messages
+ * Builders return the Graph API payload and throw a VALIDATION_ERROR listing
+ * every limit broken, so a message Meta would reject never leaves the app.
+ * The same checks run on every interactive payload in the outbound path.
+ */
+
+// ==================================================
+// Limits
+// ==================================================
+
+/**
+ * WhatsApp limits for interactive messages (characters unless noted)
+ */
+export const INTERACTIVE_LIMITS = {
+    BODY: 1024,
+    HEADER_TEXT: 60,
+    FOOTER: 60,
+    BUTTONS: 3,                      // Reply buttons per message
+    BUTTON_TITLE: 20,
+    BUTTON_ID: 256,
+    LIST_BUTTON: 20,
+    SECTIONS: 10,                    // Sections per list
+    ROWS: 10,                        // Rows per list, across all sections
+    SECTION_TITLE: 24,
+    ROW_TITLE: 24,
+    ROW_DESCRIPTION: 72,
+    ROW_ID: 200,
+    CTA_DISPLAY_TEXT: 20,
+} as const;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Builds a validation error with the list of problems found
+ */
+const validationError = (issues: string[]): CustomError => {
+    const error: CustomError = new Error(`Invalid interactive message: ${issues.join("; ")}`);
+    error.status = 400;
+    error.errorCode = ErrorCode.VALIDATION_ERROR;
+    error.details = { issues };
+    error.color = "yellow";
+    return error;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a list of objects, reporting a value that is not an array and every element that is not an object
+ * @returns The elements at their original positions, null where an element is not an object
+ */
+const objectsAt = (issues: string[], path: string, value: unknown): (Record<string, any> | null)[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        issues.push(`${path} must be an array`);
+        return [];
+    }
+    return value.map((element, index) => {
+        if (isObject(element)) return element;
+        issues.push(`${path}[${index}] must be an object`);
+        return null;
+    });
+};
+
+/**
+ * Checks a required or optional text against a length limit
+ */
+const checkText = (issues: string[], path: string, value: unknown, max: number, required: boolean): void => {
+    if (value === undefined || value === null) {
+        if (required) issues.push(`${path} is required`);
+        return;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+        issues.push(`${path} must be non-empty text`);
+        return;
+    }
+    if (value.length > max) issues.push(`${path} must be at most ${max} characters (got ${value.length})`);
+};
+
+/**
+ * Checks a header of a button or CTA URL message
+ */
+const checkHeader = (issues: string[], header: InteractiveHeader | undefined): void => {
+    if (header === undefined || header === null) return;
+    if (!isObject(header)) {
+        issues.push("header must be an object");
+        return;
+    }
+    if (header.type === "text") {
+        checkText(issues, "header.text", header.text, INTERACTIVE_LIMITS.HEADER_TEXT, true);
+        return;
+    }
+    const media = (header as Record<string, any>)[header.type];
+    if (!["image", "video", "document"].includes(header.type)) {
+        issues.push(`header.type must be text, image, video or document`);
+    } else if (!media || (!media.id && !media.link)) {
+        issues.push(`header.${header.type} needs an id or a link`);
+    }
+};
+
+/**
+ * Collects ids that appear more than once
+ */
+const duplicatesOf = (ids: unknown[]): string[] => {
+    const texts = ids.filter((id): id is string => typeof id === "string");
+    return [...new Set(texts.filter((id, index) => texts.indexOf(id) !== index))];
+};
+
+/**
+ * Expands the header shorthand: a string is a text header
+ */
+const toHeader = (header: InteractiveHeaderInput | undefined): InteractiveHeader | undefined =>
+    typeof header === "string" ? { type: "text", text: header } : header;
+
+/**
+ * Adds optional header and footer parts to a payload
+ */
+const withTextParts = <T extends object>(payload: T, header?: InteractiveHeader, footer?: string): T => ({
+    ...(header ? { header } : {}),
+    ...payload,
+    ...(footer !== undefined ? { footer: { text: footer } } : {}),
+});
+
+// ==================================================
+// Validation
+// ==================================================
+
+/**
+ * Checks an interactive payload against WhatsApp's limits
+ * @param interactive - Interactive payload
+ * @returns Problems found, prefixed with their path; empty when valid
+ */
+export function validateInteractive(interactive: OutboundInteractive): string[] {
+    if (!isObject(interactive)) return ["must be an object"];
+    const issues: string[] = [];
+    checkText(issues, "body.text", interactive.body?.text, INTERACTIVE_LIMITS.BODY, true);
+    if (interactive.type !== "location_request_message") {
+        checkText(issues, "footer.text", interactive.footer?.text, INTERACTIVE_LIMITS.FOOTER, false);
+    }
+
+    switch (interactive.type) {
+        case "button": {
+            checkHeader(issues, interactive.header);
+            const buttons = objectsAt(issues, "action.buttons", interactive.action?.buttons);
+            if (buttons.length === 0 || buttons.length > INTERACTIVE_LIMITS.BUTTONS) {
+                issues.push(`action.buttons must hold 1 to ${INTERACTIVE_LIMITS.BUTTONS} buttons (got ${buttons.length})`);
+            }
+            buttons.forEach((button, index) => {
+                if (!button) return;
+                checkText(issues, `action.buttons[${index}].reply.id`, button.reply?.id, INTERACTIVE_LIMITS.BUTTON_ID, true);
+                checkText(issues, `action.buttons[${index}].reply.title`, button.reply?.title, INTERACTIVE_LIMITS.BUTTON_TITLE, true);
+            });
+            for (const id of duplicatesOf(buttons.map((button) => button?.reply?.id))) issues.push(`button id "${id}" is used twice`);
+            for (const title of duplicatesOf(buttons.map((button) => button?.reply?.title))) issues.push(`button title "${title}" is used twice`);
+            break;
+        }
+        case "list": {
+            if (interactive.header !== undefined && interactive.header !== null) {
+                if (!isObject(interactive.header)) issues.push("header must be an object");
+                else if (interactive.header.type !== "text") issues.push("header.type must be text for lists");
+                else checkText(issues, "header.text", interactive.header.text, INTERACTIVE_LIMITS.HEADER_TEXT, true);
+            }
+            checkText(issues, "action.button", interactive.action?.button, INTERACTIVE_LIMITS.LIST_BUTTON, true);
+
+            const sections = objectsAt(issues, "action.sections", interactive.action?.sections);
+            if (sections.length === 0 || sections.length > INTERACTIVE_LIMITS.SECTIONS) {
+                issues.push(`action.sections must hold 1 to ${INTERACTIVE_LIMITS.SECTIONS} sections (got ${sections.length})`);
+            }
+            const rowsOf = sections.map((section, index) => objectsAt(issues, `action.sections[${index}].rows`, section?.rows));
+            sections.forEach((section, index) => {
+                if (!section) return;
+                checkText(issues, `action.sections[${index}].title`, section.title, INTERACTIVE_LIMITS.SECTION_TITLE, sections.length > 1);
+                if (!rowsOf[index].length) issues.push(`action.sections[${index}].rows must hold at least one row`);
+                rowsOf[index].forEach((row, rowIndex) => {
+                    if (!row) return;
+                    const path = `action.sections[${index}].rows[${rowIndex}]`;
+                    checkText(issues, `${path}.id`, row.id, INTERACTIVE_LIMITS.ROW_ID, true);
+                    checkText(issues, `${path}.title`, row.title, INTERACTIVE_LIMITS.ROW_TITLE, true);
+                    checkText(issues, `${path}.description`, row.description, INTERACTIVE_LIMITS.ROW_DESCRIPTION, false);
+                });
+            });
+
+            const rowIds = rowsOf.flatMap((rows) => rows.map((row) => row?.id));
+            if (rowIds.length > INTERACTIVE_LIMITS.ROWS) {
+                issues.push(`a list may hold at most ${INTERACTIVE_LIMITS.ROWS} rows in total (got ${rowIds.length})`);
+            }
+            for (const id of duplicatesOf(rowIds)) issues.push(`row id "${id}" is used twice`);
+            break;
+        }
+        case "cta_url": {
+            checkHeader(issues, interactive.header);
+            const parameters = interactive.action?.parameters;
+            checkText(issues, "action.parameters.display_text", parameters?.display_text, INTERACTIVE_LIMITS.CTA_DISPLAY_TEXT, true);
+            if (typeof parameters?.url !== "string" || !/^https?:\/\/\S+$/i.test(parameters.url)) {
+                issues.push("action.parameters.url must be an http(s) URL");
+            }
+            break;
+        }
+        case "location_request_message":
+            break;
+        default:
+            issues.push(`type must be button, list, cta_url or location_request_message`);
+    }
+
+    return issues;
+}
+
+/**
+ * Throws when an interactive payload breaks WhatsApp's limits
+ * @param interactive - Interactive payload
+ * @throws CustomError - VALIDATION_ERROR listing every problem found
+ */
+export function assertValidInteractive(interactive: OutboundInteractive): OutboundInteractive {
+    const issues = validateInteractive(interactive);
+    if (issues.length > 0) throw validationError(issues);
+    return interactive;
+}
+
+// ==================================================
+// Builders
+// ==================================================
+
+/**
+ * Builds a reply buttons message (up to 3 buttons)
+ * @param input - Body, buttons and optional header and footer
+ * @throws CustomError - VALIDATION_ERROR when a limit is broken
+ */
+export function buildReplyButtons(input: ReplyButtonsInput): OutboundInteractive {
+    return assertValidInteractive(withTextParts({
+        type: "button" as const,
+        body: { text: input.body },
+        action: {
+            buttons: (input.buttons ?? []).map((button) => ({
+                type: "reply" as const,
+                reply: { id: button.id, title: button.title },
+            })),
+        },
+    }, toHeader(input.header), input.footer));
+}
+
+/**
+ * Builds a list message with sections and rows
+ * @param input - Body, button label, sections and optional header and footer
+ * @throws CustomError - VALIDATION_ERROR when a limit is broken
+ */
+export function buildList(input: ListInput): OutboundInteractive {
+    return assertValidInteractive(withTextParts({
+        type: "list" as const,
+        body: { text: input.body },
+        action: {
+            button: input.button,
+            sections: (input.sections ?? []).map((section) => ({
+                ...(section.title !== undefined ? { title: section.title } : {}),
+                rows: (section.rows ?? []).map((row) => ({
+                    id: row.id,
+                    title: row.title,
+                    ...(row.description !== undefined ? { description: row.description } : {}),
+                })),
+            })),
+        },
+    }, input.header !== undefined ? { type: "text", text: input.header } : undefined, input.footer) as OutboundInteractive);
+}
+
+/**
+ * Builds a CTA URL button message
+ * @param input - Body, button label, URL and optional header and footer
+ * @throws CustomError - VALIDATION_ERROR when a limit is broken
+ */
+export function buildCtaUrl(input: CtaUrlInput): OutboundInteractive {
+    return assertValidInteractive(withTextParts({
+        type: "cta_url" as const,
+        body: { text: input.body },
+        action: {
+            name: "cta_url" as const,
+            parameters: { display_text: input.displayText, url: input.url },
+        },
+    }, toHeader(input.header), input.footer));
+}
+
+/**
+ * Builds a location request message
+ * @param input - Body asking for the location
+ * @throws CustomError - VALIDATION_ERROR when a limit is broken
+ */
+export function buildLocationRequest(input: LocationRequestInput): OutboundInteractive {
+    return assertValidInteractive({
+        type: "location_request_message",
+        body: { text: input.body },
+        action: { name: "send_location" },
+    });
+}
@@ -0,0 +1,80 @@
+/**
+ * Interpolation Utility - Resolves `{{path}}` placeholders against a scope object
+ * Used by flows (and anything else that renders user-defined text) so
+ * placeholders behave the same everywhere
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Reads a dotted path from an object
+ * @param scope - Object to read from
+ * @param path - Dotted path (e.g. contact.attributes.city)
+ * @returns Value at the path, or undefined when any segment is missing
+ */
+export function resolvePath(scope: unknown, path: string): unknown {
+    let current: any = scope;
+    for (const segment of path.split(".")) {
+        if (current === null || typeof current !== "object") return undefined;
+        current = current[segment];
+    }
+    return current;
+}
+
+/**
+ * Checks whether a string contains `{{path}}` placeholders
+ * @param template - Text to check
+ */
+export function hasPlaceholders(template: string): boolean {
+    return new RegExp(PLACEHOLDER.source).test(template);
+}
+
+/**
+ * Replaces placeholders in a string
+ * Missing values render as an empty string; objects render as JSON
+ * @param template - Text containing `{{path}}` placeholders
+ * @param scope - Values available to placeholders
+ * @returns Rendered text
+ */
+export function interpolateString(template: string, scope: unknown): string {
+    return template.replace(PLACEHOLDER, (_match, path: string) => {
+        const value = resolvePath(scope, path);
+        if (value === undefined || value === null) return "";
+        return typeof value === "object" ? JSON.stringify(value) : String(value);
+    });
+}
+
+/**
+ * Replaces placeholders in every string of a value, recursively
+ * @param value - String, array or plain object
+ * @param scope - Values available to placeholders
+ * @param keepTypes - A string that is exactly one placeholder keeps the type of the resolved value
+ * @returns Copy of the value with placeholders resolved
+ */
+export function interpolate<T>(value: T, scope: unknown, keepTypes: boolean = false): T {
+    if (typeof value === "string") {
+        const single = keepTypes ? value.match(/^\{\{\s*([\w.-]+)\s*\}\}$/) : null;
+        if (single) {
+            const resolved = resolvePath(scope, single[1]);
+            return (resolved === undefined ? "" : resolved) as T;
+        }
+        return interpolateString(value, scope) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => interpolate(item, scope, keepTypes)) as T;
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, interpolate(item, scope, keepTypes)])
+        ) as T;
+    }
+    return value;
+}
@@ -0,0 +1,148 @@
+import { OutboundMessage, OutboundMessageType } from "../types/whatsapp.client.types";
+import { validateInteractive } from "./interactive.builder";
+
+/**
+ * Message Validator - Checks outbound message payloads received over the API
+ * Every problem found is reported with its path; the recipient is normalised
+ * to digits so invalid numbers are rejected before Meta is called. The
+ * validator never throws.
+ */
+
+// ==================================================
+// Types
+// ==================================================
+
+/**
+ * Result of validating an outbound message payload
+ */
+export interface ValidatedMessage {
+    message: OutboundMessage | null;     // Normalised payload, or null when any issue was found
+    issues: string[];                    // Problems found, prefixed with their path
+}
+
+// ==================================================
+// Constants
+// ==================================================
+
+export const MESSAGE_TYPES: OutboundMessageType[] = [
+    "text", "image", "audio", "video", "document", "sticker", "location", "contacts", "reaction", "template", "interactive",
+];
+
+const CAPTIONED_TYPES = ["image", "video", "document"];
+
+const TEXT_LIMIT = 4096;
+const CAPTION_LIMIT = 1024;
+
+/**
+ * E.164 number: country code first, 7 to 15 digits in total, optional leading +
+ */
+const RECIPIENT_PATTERN = /^\+?[1-9]\d{6,14}$/;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Normalises a recipient to digits, or returns null when it is not a valid number
+ * @param to - Phone number in international format, with or without + and separators
+ */
+export function normaliseRecipient(to: unknown): string | null {
+    if (typeof to !== "string") return null;
+    const compact = to.replace(/[\s().-]/g, "");
+    return RECIPIENT_PATTERN.test(compact) ? compact.replace(/^\+/, "") : null;
+}
+
+/**
+ * Checks the type-specific part of a payload
+ */
+const checkContent = (issues: string[], type: OutboundMessageType, content: any): void => {
+    const present = type === "contacts" ? Array.isArray(content) : isObject(content);
+    if (!present) {
+        issues.push(type === "contacts" ? "contacts must be a non-empty array" : `${type} is required`);
+        return;
+    }
+
+    switch (type) {
+        case "text":
+            if (!isText(content.body)) issues.push("text.body is required");
+            else if (content.body.length > TEXT_LIMIT) issues.push(`text.body must be at most ${TEXT_LIMIT} characters`);
+            if (content.preview_url !== undefined && typeof content.preview_url !== "boolean") issues.push("text.preview_url must be a boolean");
+            break;
+        case "location":
+            if (typeof content.latitude !== "number" || content.latitude < -90 || content.latitude > 90) issues.push("location.latitude must be between -90 and 90");
+            if (typeof content.longitude !== "number" || content.longitude < -180 || content.longitude > 180) issues.push("location.longitude must be between -180 and 180");
+            break;
+        case "contacts":
+            if (content.length === 0) issues.push("contacts must be a non-empty array");
+            else content.forEach((card: any, index: number) => {
+                if (!isText(card?.name?.formatted_name)) issues.push(`contacts[${index}].name.formatted_name is required`);
+            });
+            break;
+        case "reaction":
+            if (!isText(content.message_id)) issues.push("reaction.message_id is required");
+            if (typeof content.emoji !== "string") issues.push("reaction.emoji must be a string (empty removes the reaction)");
+            break;
+        case "template":
+            if (!isText(content.name)) issues.push("template.name is required");
+            if (!isText(content.language?.code)) issues.push("template.language.code is required");
+            if (content.components !== undefined && !Array.isArray(content.components)) issues.push("template.components must be an array");
+            break;
+        case "interactive":
+            for (const issue of validateInteractive(content)) issues.push(`interactive.${issue}`);
+            break;
+        default:
+            // Media types
+            if (isText(content.id) === isText(content.link)) issues.push(`${type} needs either an id or a link`);
+            if (content.link !== undefined && !/^https?:\/\/\S+$/i.test(content.link)) issues.push(`${type}.link must be an http(s) URL`);
+            if (content.caption !== undefined) {
+                if (!CAPTIONED_TYPES.includes(type)) issues.push(`${type} does not take a caption`);
+                else if (typeof content.caption !== "string" || content.caption.length > CAPTION_LIMIT) issues.push(`${type}.caption must be text of at most ${CAPTION_LIMIT} characters`);
+            }
+            if (content.filename !== undefined && type !== "document") issues.push(`${type} does not take a filename`);
+    }
+};
+
+// ==================================================
+// Validation
+// ==================================================
+
+/**
+ * Validates an outbound message payload
+ * @param input - Payload in the Graph API shape: to, type, the type's object and optional context
+ * @returns Normalised message, or the problems found
+ */
+export function validateOutboundMessage(input: unknown): ValidatedMessage {
+    const issues: string[] = [];
+    if (!isObject(input)) return { message: null, issues: ["body must be a message object"] };
+
+    // ===== RECIPIENT =====
+    const to = normaliseRecipient(input.to);
+    if (!to) issues.push("to must be a phone number in international format (7 to 15 digits, country code first)");
+
+    // ===== TYPE AND CONTENT =====
+    const type = input.type as OutboundMessageType;
+    if (!MESSAGE_TYPES.includes(type)) {
+        issues.push(`type must be one of ${MESSAGE_TYPES.join(", ")}`);
+    } else {
+        checkContent(issues, type, input[type]);
+    }
+
+    // ===== REPLY CONTEXT =====
+    const replyTo = input.context?.message_id;
+    if (input.context !== undefined && !isText(replyTo)) issues.push("context.message_id is required when context is given");
+
+    if (issues.length > 0) return { message: null, issues };
+
+    const message = {
+        to,
+        type,
+        [type]: input[type],
+        ...(replyTo ? { context: { message_id: replyTo } } : {}),
+    } as unknown as OutboundMessage;
+    return { message, issues };
+}
@@ -0,0 +1,84 @@
+/**
+ * Pagination Utility - Parses page/limit query parameters and builds paginated results
+ * Used by every admin list endpoint so pagination behaves the same everywhere
+ */
+
+// ==================================================
+// Types and Interfaces
+// ==================================================
+
+/**
+ * Parsed pagination parameters
+ */
+export interface Pagination {
+    page: number;                    // 1-based page number
+    limit: number;                   // Items per page
+    skip: number;                    // Items to skip in the query
+}
+
+/**
+ * Paginated result returned in the `data` field of list responses
+ */
+export interface PaginatedResult<T> {
+    items: T[];                      // Items of the current page
+    pagination: {
+        page: number;                // Current page
+        limit: number;               // Items per page
+        total: number;               // Total matching items
+        totalPages: number;          // Total number of pages
+    };
+}
+
+// ==================================================
+// Constants
+// ==================================================
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Parses page and limit from a query string
+ * Invalid values fall back to page 1 and the default limit; limit is capped
+ * @param query - Express request query
+ * @returns Pagination parameters
+ */
+export function getPagination(query: Record<string, unknown>): Pagination {
+    const page = Math.max(1, Math.floor(Number(query.page)) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(Number(query.limit)) || DEFAULT_LIMIT));
+
+    return { page, limit, skip: (page - 1) * limit };
+}
+
+/**
+ * Builds a paginated result
+ * @param items - Items of the current page
+ * @param total - Total matching items
+ * @param pagination - Pagination parameters used for the query
+ * @returns Paginated result
+ */
+export function toPaginatedResult<T>(items: T[], total: number, pagination: Pagination): PaginatedResult<T> {
+    return {
+        items,
+        pagination: {
+            page: pagination.page,
+            limit: pagination.limit,
+            total,
+            totalPages: Math.ceil(total / pagination.limit),
+        },
+    };
+}
+
+/**
+ * Parses an optional date query parameter
+ * @param value - Raw query value
+ * @returns Date, or undefined when missing or invalid
+ */
+export function parseDateParam(value: unknown): Date | undefined {
+    if (typeof value !== "string" || !value) return undefined;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+}
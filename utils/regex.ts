@@ -0,0 +1,12 @@
+/**
+ * Regex Utility - Helpers for building regular expressions from user input
+ */
+
+/**
+ * Escapes every regex metacharacter so the text matches literally
+ * @param text - Untrusted user input
+ * @returns Text safe to embed in a RegExp
+ */
+export function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,85 @@
+/**
+ * Timezone Utility - Converts wall-clock times in IANA timezones to instants
+ * Uses the Intl API, so no timezone database has to be bundled
+ */
+
+// ==================================================
+// Constants
+// ==================================================
+
+/**
+ * Local date and time without offset: YYYY-MM-DDTHH:mm[:ss]
+ */
+const LOCAL_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+// ==================================================
+// Helpers
+// ==================================================
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+const offsetAt = (instant: number, timeZone: string): number => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    }).formatToParts(new Date(instant));
+
+    const value = (type: string): number => Number(parts.find((part) => part.type === type)?.value);
+    const wallClock = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"), value("second"));
+    return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+// ==================================================
+// Conversion
+// ==================================================
+
+/**
+ * Checks that a timezone is a known IANA name (e.g. Asia/Kolkata)
+ * @param timeZone - Timezone name
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+    if (typeof timeZone !== "string" || !timeZone) return false;
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Converts a wall-clock time in a timezone to the matching instant
+ * Times skipped by a DST change resolve to the instant after the gap
+ * @param localTime - Local date and time, YYYY-MM-DDTHH:mm[:ss]
+ * @param timeZone - IANA timezone name
+ * @returns Instant, or null when the local time does not exist on the calendar or the timezone is invalid
+ */
+export function zonedTimeToUtc(localTime: string, timeZone: string): Date | null {
+    const match = LOCAL_TIME_PATTERN.exec(localTime);
+    if (!match || !isValidTimeZone(timeZone)) return null;
+
+    const parts = match.slice(1).map((part) => Number(part ?? 0));
+    const [year, month, day, hour, minute, second] = parts;
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+    // Date.UTC rolls out-of-range parts over (Feb 30 becomes Mar 2), so a valid time reads back unchanged
+    const parsed = new Date(wallClock);
+    const readBack = [
+        parsed.getUTCFullYear(), parsed.getUTCMonth() + 1, parsed.getUTCDate(),
+        parsed.getUTCHours(), parsed.getUTCMinutes(), parsed.getUTCSeconds(),
+    ];
+    if (readBack.some((part, index) => part !== parts[index])) return null;
+
+    // Guess with the offset at the wall-clock time, then correct once across DST changes
+    let instant = wallClock - offsetAt(wallClock, timeZone);
+    const corrected = wallClock - offsetAt(instant, timeZone);
+    if (corrected !== instant) instant = Math.max(instant, corrected);
+    return new Date(instant);
+}
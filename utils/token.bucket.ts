@@ -0,0 +1,88 @@
+/**
+ * Token Bucket Utility - Rate limiting with bursts
+ * A bucket holds up to `capacity` tokens and refills continuously at
+ * `refillPerSecond`. Callers reserve a token and wait the returned delay,
+ * so reservations are served in order even when the bucket runs dry.
+ */
+
+// ==================================================
+// Token Bucket Class
+// ==================================================
+
+export class TokenBucket {
+    // ===== PRIVATE PROPERTIES =====
+
+    /**
+     * Tokens available; negative while reservations wait for refills
+     */
+    private tokens: number;
+
+    /**
+     * Time of the last refill in milliseconds
+     */
+    private updatedAt: number;
+
+    /**
+     * Constructor starts with a full bucket
+     * @param capacity - Largest burst
+     * @param refillPerSecond - Sustained rate
+     * @param now - Current time (default: now)
+     */
+    constructor(
+        private readonly capacity: number,
+        private readonly refillPerSecond: number,
+        now: number = Date.now(),
+    ) {
+        this.tokens = capacity;
+        this.updatedAt = now;
+    }
+
+    /**
+     * Adds the tokens refilled since the last update
+     */
+    private refill(now: number): void {
+        const elapsed = Math.max(0, now - this.updatedAt) / 1000;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+        this.updatedAt = now;
+    }
+
+    /**
+     * Takes a token
+     * @param now - Current time (default: now)
+     * @returns Milliseconds to wait before the token may be used (0 when available)
+     */
+    public reserve(now: number = Date.now()): number {
+        this.refill(now);
+        this.tokens -= 1;
+        return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / this.refillPerSecond) * 1000);
+    }
+
+    /**
+     * Empties the bucket so no token is available for at least `ms`
+     * Used when the remote side reports a rate limit
+     * @param ms - Pause length in milliseconds
+     * @param now - Current time (default: now)
+     */
+    public pause(ms: number, now: number = Date.now()): void {
+        this.refill(now);
+        this.tokens = Math.min(this.tokens, -(ms / 1000) * this.refillPerSecond);
+    }
+
+    /**
+     * Tokens available now, rounded down; 0 while reservations wait
+     * @param now - Current time (default: now)
+     */
+    public available(now: number = Date.now()): number {
+        this.refill(now);
+        return Math.max(0, Math.floor(this.tokens));
+    }
+
+    /**
+     * Whether the bucket is full, i.e. unused long enough to be discarded
+     * @param now - Current time (default: now)
+     */
+    public isFull(now: number = Date.now()): boolean {
+        this.refill(now);
+        return this.tokens >= this.capacity;
+    }
+}
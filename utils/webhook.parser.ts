@@ -0,0 +1,257 @@
+import {
+    ParsedWebhook,
+    WebhookContact,
+    WebhookEvent,
+    WebhookEventBase,
+    WebhookMessage,
+    WebhookMessageType,
+    WebhookParseIssue,
+    WebhookStatus,
+    WebhookError,
+} from "../types/whatsapp.webhook.types";
+
+/**
+ * Webhook Parser Utility - Validates and normalises Cloud API webhook payloads
+ * Walks the entry → changes → value tree, keeps every well-formed message,
+ * status and error as a normalised event, and records an issue for anything
+ * it has to skip. Parsing never throws on bad input.
+ */
+
+// ==================================================
+// Helpers
+// ==================================================
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string =>
+    typeof value === "string" && value.length > 0;
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Converts a Unix timestamp in seconds (sent as a string) to a Date
+ * Falls back to the current time when the timestamp is unusable
+ */
+const toDate = (timestamp: unknown): Date => {
+    const seconds = Number(timestamp);
+    return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : new Date();
+};
+
+const isMedia = (value: unknown): boolean =>
+    isObject(value) && isString(value.id) && isString(value.mime_type);
+
+// ==================================================
+// Per-type Validators
+// ==================================================
+
+/**
+ * Validators for the type-specific part of each inbound message
+ * Each returns an error reason, or null when the message is valid
+ */
+const messageValidators: Record<WebhookMessageType, (message: Record<string, any>) => string | null> = {
+    text: (m) => (isObject(m.text) && typeof m.text.body === "string" ? null : "text.body is missing"),
+    image: (m) => (isMedia(m.image) ? null : "image.id or image.mime_type is missing"),
+    audio: (m) => (isMedia(m.audio) ? null : "audio.id or audio.mime_type is missing"),
+    video: (m) => (isMedia(m.video) ? null : "video.id or video.mime_type is missing"),
+    document: (m) => (isMedia(m.document) ? null : "document.id or document.mime_type is missing"),
+    sticker: (m) => (isMedia(m.sticker) ? null : "sticker.id or sticker.mime_type is missing"),
+    location: (m) =>
+        isObject(m.location) && isNumber(m.location.latitude) && isNumber(m.location.longitude)
+            ? null
+            : "location.latitude or location.longitude is missing",
+    contacts: (m) =>
+        Array.isArray(m.contacts) && m.contacts.every((c: unknown) => isObject(c) && isObject(c.name))
+            ? null
+            : "contacts must be an array of contact cards",
+    interactive: (m) => {
+        if (!isObject(m.interactive)) return "interactive is missing";
+        const { type } = m.interactive;
+        if (type === "button_reply") {
+            return isObject(m.interactive.button_reply) && isString(m.interactive.button_reply.id)
+                ? null
+                : "interactive.button_reply.id is missing";
+        }
+        if (type === "list_reply") {
+            return isObject(m.interactive.list_reply) && isString(m.interactive.list_reply.id)
+                ? null
+                : "interactive.list_reply.id is missing";
+        }
+        return `unsupported interactive type "${type}"`;
+    },
+    reaction: (m) =>
+        isObject(m.reaction) && isString(m.reaction.message_id) ? null : "reaction.message_id is missing",
+    button: (m) =>
+        isObject(m.button) && typeof m.button.payload === "string" ? null : "button.payload is missing",
+    order: (m) =>
+        isObject(m.order) && Array.isArray(m.order.product_items) ? null : "order.product_items is missing",
+    system: (m) => (isObject(m.system) ? null : "system is missing"),
+    unsupported: () => null,
+};
+
+// ==================================================
+// Item Parsers
+// ==================================================
+
+/**
+ * Validates a single inbound message
+ * @returns Error reason, or null when the message can be dispatched
+ */
+const validateMessage = (message: unknown): string | null => {
+    if (!isObject(message)) return "message is not an object";
+    if (!isString(message.id)) return "message.id is missing";
+    if (!isString(message.from)) return "message.from is missing";
+    if (!isString(message.type)) return "message.type is missing";
+
+    const validator = messageValidators[message.type as WebhookMessageType];
+    if (!validator) return `unknown message type "${message.type}"`;
+
+    return validator(message);
+};
+
+/**
+ * Validates a single status update
+ * @returns Error reason, or null when the status can be dispatched
+ */
+const validateStatus = (status: unknown): string | null => {
+    if (!isObject(status)) return "status is not an object";
+    if (!isString(status.id)) return "status.id is missing";
+    if (!["sent", "delivered", "read", "failed"].includes(status.status)) {
+        return `unknown status "${status.status}"`;
+    }
+    if (!isString(status.recipient_id)) return "status.recipient_id is missing";
+    return null;
+};
+
+// ==================================================
+// Payload Parser
+// ==================================================
+
+/**
+ * Parses a raw webhook body into normalised events
+ * "messages" and "message_template_status_update" changes are turned into
+ * events; other fields are reported as issues
+ * @param body - Raw request body
+ * @returns Parsed events and the issues found while parsing
+ */
+export function parseWebhookPayload(body: unknown): ParsedWebhook {
+    const events: WebhookEvent[] = [];
+    const issues: WebhookParseIssue[] = [];
+
+    // ===== VALIDATE ENVELOPE =====
+    if (!isObject(body) || !Array.isArray(body.entry)) {
+        issues.push({ path: "$", reason: "payload has no entry array" });
+        return { events, issues };
+    }
+
+    if (body.object !== "whatsapp_business_account") {
+        issues.push({ path: "$.object", reason: `unexpected object "${body.object}"` });
+        return { events, issues };
+    }
+
+    body.entry.forEach((entry: unknown, entryIndex: number) => {
+        const entryPath = `$.entry[${entryIndex}]`;
+
+        if (!isObject(entry) || !Array.isArray(entry.changes)) {
+            issues.push({ path: entryPath, reason: "entry has no changes array" });
+            return;
+        }
+
+        entry.changes.forEach((change: unknown, changeIndex: number) => {
+            const changePath = `${entryPath}.changes[${changeIndex}]`;
+
+            // ===== VALIDATE CHANGE =====
+            if (!isObject(change) || !isObject(change.value)) {
+                issues.push({ path: changePath, reason: "change has no value" });
+                return;
+            }
+
+            // ===== TEMPLATE STATUS UPDATES =====
+            if (change.field === "message_template_status_update") {
+                const { value } = change;
+                if (!isString(value.event) || value.message_template_id === undefined || !isString(value.message_template_name)) {
+                    issues.push({ path: `${changePath}.value`, reason: "template id, name or event is missing" });
+                    return;
+                }
+
+                events.push({
+                    businessAccountId: String(entry.id ?? ""),
+                    phoneNumberId: "",
+                    displayPhoneNumber: "",
+                    kind: "template_status",
+                    templateId: String(value.message_template_id),
+                    name: value.message_template_name,
+                    language: String(value.message_template_language ?? ""),
+                    event: value.event,
+                    reason: value.reason ?? null,
+                    timestamp: toDate(entry.time),
+                });
+                return;
+            }
+
+            if (change.field !== "messages") {
+                issues.push({ path: `${changePath}.field`, reason: `unhandled field "${change.field}"` });
+                return;
+            }
+
+            const { value } = change;
+            if (!isObject(value.metadata) || !isString(value.metadata.phone_number_id)) {
+                issues.push({ path: `${changePath}.value.metadata`, reason: "metadata.phone_number_id is missing" });
+                return;
+            }
+
+            const base: WebhookEventBase = {
+                businessAccountId: String(entry.id ?? ""),
+                phoneNumberId: value.metadata.phone_number_id,
+                displayPhoneNumber: String(value.metadata.display_phone_number ?? ""),
+            };
+
+            const contacts: WebhookContact[] = Array.isArray(value.contacts)
+                ? value.contacts.filter((c: unknown) => isObject(c) && isString(c.wa_id))
+                : [];
+
+            // ===== MESSAGES =====
+            (Array.isArray(value.messages) ? value.messages : []).forEach((message: unknown, index: number) => {
+                const reason = validateMessage(message);
+                if (reason) {
+                    issues.push({ path: `${changePath}.value.messages[${index}]`, reason });
+                    return;
+                }
+
+                const valid = message as WebhookMessage;
+                events.push({
+                    ...base,
+                    kind: "message",
+                    message: valid,
+                    contact: contacts.find((c) => c.wa_id === valid.from) ?? contacts[0],
+                    timestamp: toDate(valid.timestamp),
+                });
+            });
+
+            // ===== STATUSES =====
+            (Array.isArray(value.statuses) ? value.statuses : []).forEach((status: unknown, index: number) => {
+                const reason = validateStatus(status);
+                if (reason) {
+                    issues.push({ path: `${changePath}.value.statuses[${index}]`, reason });
+                    return;
+                }
+
+                const valid = status as WebhookStatus;
+                events.push({ ...base, kind: "status", status: valid, timestamp: toDate(valid.timestamp) });
+            });
+
+            // ===== VALUE-LEVEL ERRORS =====
+            (Array.isArray(value.errors) ? value.errors : []).forEach((error: unknown, index: number) => {
+                if (!isObject(error) || !isNumber(error.code)) {
+                    issues.push({ path: `${changePath}.value.errors[${index}]`, reason: "error.code is missing" });
+                    return;
+                }
+
+                events.push({ ...base, kind: "error", error: error as WebhookError });
+            });
+        });
+    });
+
+    return { events, issues };
+}